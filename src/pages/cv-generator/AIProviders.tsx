@@ -0,0 +1,387 @@
+import { type CVData, CV_SCHEMA_VERSION, DEFAULT_LABELS } from "./CVSchema";
+import { type JsonDiagnostic, validateCVJson } from "./CVValidation";
+
+// --- AI Providers ---
+// Every provider turns a chat conversation into one text answer. The pipeline
+// around them (timeouts, retry with backoff, schema validation and a single
+// "repair" re-ask) is shared, so switching providers never changes how the
+// answer is checked.
+
+// --- Types ---
+export type AIProviderKind = "endpoint" | "openai" | "mock";
+
+export interface AISettings {
+  provider: AIProviderKind;
+  endpointUrl: string;
+  openaiBaseUrl: string;
+  openaiApiKey: string;
+  openaiModel: string;
+  timeoutSeconds: number;
+  maxRetries: number;
+}
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+interface AIProvider {
+  complete: (messages: ChatMessage[], signal: AbortSignal) => Promise<string>;
+}
+
+export interface GenerationResult {
+  data: CVData;
+  json: string; // Validated answer, ready for the JSON editor
+}
+
+// --- Constants ---
+const SETTINGS_KEY = "cv_ai_settings";
+const RETRY_BASE_DELAY_MS = 1000;
+const MAX_REPAIR_ATTEMPTS = 1;
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: "endpoint",
+  endpointUrl: "https://serwer2518023.home.pl/programowanie-gpt/cv-generator/endpoint.php",
+  openaiBaseUrl: "https://api.openai.com/v1",
+  openaiApiKey: "",
+  openaiModel: "gpt-4o-mini",
+  timeoutSeconds: 60,
+  maxRetries: 2,
+};
+
+export const AI_PROVIDER_LABELS: Record<AIProviderKind, string> = {
+  endpoint: "Serwer generatora (endpoint)",
+  openai: "API zgodne z OpenAI",
+  mock: "Tryb offline (mock)",
+};
+
+// The endpoint keeps its own system prompt; chat APIs need the schema spelled out
+const CV_SYSTEM_PROMPT = `Jesteś ekspertem HR. Na podstawie oferty pracy i informacji o kandydacie przygotuj CV dopasowane do oferty.
+Odpowiedz WYŁĄCZNIE obiektem JSON (bez markdown i komentarzy) o dokładnie takiej strukturze:
+${JSON.stringify(
+  {
+    schemaVersion: CV_SCHEMA_VERSION,
+    language: "pl | en | de",
+    labels: DEFAULT_LABELS,
+    fullName: "string",
+    title: "string",
+    aboutMe: [{ id: "1", main: "krótkie zdanie wiodące", text: "rozwinięcie" }],
+    contact: { email: "string", phone: "string", location: "string" },
+    skills: ["string"],
+    languages: [{ language: "string", proficiency: "string" }],
+    interests: ["string"],
+    experience: [
+      {
+        id: "1",
+        role: "string",
+        company: "string",
+        start: "RRRR-MM",
+        end: "RRRR-MM | present",
+        duration: "",
+        description: ["string"],
+      },
+    ],
+    education: [{ id: "1", degree: "string", school: "string", start: "RRRR", end: "RRRR", year: "" }],
+    extraSections: [
+      { kind: "certificates | projects | volunteering", items: [{ id: "1", title: "string", detail: "string" }] },
+    ],
+  },
+  null,
+  2,
+)}
+Daty podawaj w polach start / end (RRRR-MM, samo RRRR gdy miesiąc nieznany, "present" dla trwającej pracy);
+duration / year wypełniaj tylko wtedy, gdy okresu nie da się zapisać datami.
+language to język treści CV (domyślnie "pl"); labels przetłumacz na ten sam język.`;
+
+// --- Errors ---
+export class AIProviderError extends Error {
+  constructor(
+    message: string,
+    public retryable = false,
+  ) {
+    super(message);
+  }
+}
+
+export class AIValidationError extends Error {
+  constructor(
+    message: string,
+    public problems: string[],
+  ) {
+    super(message);
+  }
+}
+
+export const isAbortError = (e: unknown) => e instanceof DOMException && e.name === "AbortError";
+
+// --- Settings persistence ---
+export const loadAISettings = (): AISettings => {
+  if (typeof window === "undefined") return DEFAULT_AI_SETTINGS;
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || "{}");
+    return { ...DEFAULT_AI_SETTINGS, ...saved };
+  } catch {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAISettings = (settings: AISettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// --- Helper: Abortable delay ---
+const delay = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) return reject(new DOMException("Aborted", "AbortError"));
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(new DOMException("Aborted", "AbortError"));
+      },
+      { once: true },
+    );
+  });
+
+// --- Helper: HTTP ---
+const postJson = async (url: string, body: unknown, signal: AbortSignal, headers: Record<string, string> = {}) => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (e) {
+    if (isAbortError(e)) throw e;
+    throw new AIProviderError("Nie można połączyć się z serwerem", true);
+  }
+  if (!response.ok) {
+    // Rate limits and server errors are worth another try, other 4xx are not
+    const retryable = response.status === 429 || response.status >= 500;
+    throw new AIProviderError(`Serwer odpowiedział błędem ${response.status}`, retryable);
+  }
+  try {
+    return await response.json();
+  } catch {
+    throw new AIProviderError("Serwer zwrócił nieprawidłową odpowiedź", true);
+  }
+};
+
+// --- Providers ---
+// The generator endpoint takes a single message, so the conversation is flattened
+const createEndpointProvider = (settings: AISettings): AIProvider => ({
+  complete: async (messages, signal) => {
+    const message = messages
+      .filter((m) => m.role !== "system")
+      .map((m) =>
+        m.role === "assistant" ? `<poprzednia-odpowiedz>\n${m.content}\n</poprzednia-odpowiedz>` : m.content,
+      )
+      .join("\n\n");
+    const result = await postJson(settings.endpointUrl, { message }, signal);
+    if (result.status !== "success") {
+      throw new AIProviderError(result.message || JSON.stringify(result.details) || "Nieznany błąd");
+    }
+    return String(result.answer ?? "");
+  },
+});
+
+const createOpenAIProvider = (settings: AISettings): AIProvider => ({
+  complete: async (messages, signal) => {
+    if (!settings.openaiApiKey) throw new AIProviderError("Brak klucza API dla dostawcy zgodnego z OpenAI");
+    const result = await postJson(
+      `${settings.openaiBaseUrl.replace(/\/+$/, "")}/chat/completions`,
+      { model: settings.openaiModel, messages, temperature: 0.4 },
+      signal,
+      { Authorization: `Bearer ${settings.openaiApiKey}` },
+    );
+    const content = result.choices?.[0]?.message?.content;
+    if (typeof content !== "string") throw new AIProviderError("Odpowiedź API nie zawiera treści", true);
+    return content;
+  },
+});
+
+// Offline stand-in for the endpoint: answers in the same fenced format after a short
+// delay, filled from the prompt, so the whole pipeline can be exercised without network
+const createMockProvider = (): AIProvider => ({
+  complete: async (messages, signal) => {
+    await delay(800, signal);
+    const prompt = messages.filter((m) => m.role === "user")[0]?.content || "";
+    const section = (tag: string) => prompt.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`))?.[1].trim() || "";
+    const firstLine = (text: string) =>
+      text
+        .split("\n")
+        .find((line) => line.trim())
+        ?.trim() || "";
+    const offer = section("opis-oferty-pracy");
+    const about = section("informacje-o-mnie");
+
+    // Cover letter prompts carry the CV instead of the free-form description
+    const candidate = section("cv-kandydata");
+    if (candidate) {
+      const { fullName = "", title = "" } = JSON.parse(candidate);
+      const letter = {
+        recipient: "Dział HR",
+        company: "Firma Testowa",
+        place: prompt.match(/miejscowość i datę: "([^"]*)"/)?.[1] || "Warszawa",
+        subject: `Aplikacja na stanowisko: ${firstLine(offer).slice(0, 80) || title}`,
+        greeting: "Szanowni Państwo,",
+        paragraphs: [
+          `Nazywam się ${fullName} i z zainteresowaniem aplikuję na stanowisko opisane w Państwa ogłoszeniu.`,
+          "List wygenerowany w trybie offline. Treść pochodzi z dostawcy testowego (mock).",
+        ],
+        closing: "Z wyrazami szacunku,",
+      };
+      return "```json\n" + JSON.stringify(letter, null, 2) + "\n```";
+    }
+
+    const cv = {
+      schemaVersion: CV_SCHEMA_VERSION,
+      language: "pl",
+      labels: DEFAULT_LABELS,
+      fullName: firstLine(about).slice(0, 60) || "Jan Kowalski",
+      title: firstLine(offer).slice(0, 80) || "Specjalista",
+      aboutMe: [
+        { id: "1", main: "CV wygenerowane w trybie offline.", text: "Treść pochodzi z dostawcy testowego (mock)." },
+      ],
+      contact: { email: "jan.kowalski@example.com", phone: "+48 600 000 000", location: "Warszawa" },
+      skills: Array.from(new Set(offer.match(/\b[A-ZĄĆĘŁŃÓŚŹŻ][\w+#.-]{2,}\b/g) || [])).slice(0, 8),
+      languages: [{ language: "Angielski", proficiency: "B2" }],
+      interests: ["Nowe technologie"],
+      experience: [
+        {
+          id: "1",
+          role: firstLine(offer).slice(0, 80) || "Specjalista",
+          company: "Firma Testowa",
+          start: "2021-01",
+          end: "present",
+          duration: "",
+          description: about
+            .split(/\n+/)
+            .map((line) => line.trim())
+            .filter(Boolean)
+            .slice(1, 4),
+        },
+      ],
+      education: [
+        { id: "1", degree: "Magister", school: "Uniwersytet Warszawski", start: "2015", end: "2020", year: "" },
+      ],
+      extraSections: [],
+      hiddenSections: [],
+    };
+    return "```json\n" + JSON.stringify(cv, null, 2) + "\n```";
+  },
+});
+
+const createProvider = (settings: AISettings): AIProvider => {
+  switch (settings.provider) {
+    case "openai":
+      return createOpenAIProvider(settings);
+    case "mock":
+      return createMockProvider();
+    default:
+      return createEndpointProvider(settings);
+  }
+};
+
+// --- Helper: Timeout + retry with exponential backoff ---
+const completeWithRetry = async (
+  provider: AIProvider,
+  messages: ChatMessage[],
+  settings: AISettings,
+  signal: AbortSignal,
+  onStatus: (status: string) => void,
+) => {
+  for (let attempt = 0; ; attempt++) {
+    const attemptController = new AbortController();
+    const abortAttempt = () => attemptController.abort();
+    signal.addEventListener("abort", abortAttempt, { once: true });
+    const timer = setTimeout(abortAttempt, settings.timeoutSeconds * 1000);
+
+    try {
+      return await provider.complete(messages, attemptController.signal);
+    } catch (e) {
+      if (signal.aborted) throw e;
+      const error = isAbortError(e)
+        ? new AIProviderError(`Przekroczono limit czasu (${settings.timeoutSeconds} s)`, true)
+        : e instanceof AIProviderError
+          ? e
+          : new AIProviderError((e as Error).message);
+      if (!error.retryable || attempt >= settings.maxRetries) throw error;
+
+      const wait = RETRY_BASE_DELAY_MS * 2 ** attempt + Math.random() * 250;
+      onStatus(`${error.message}. Ponawiam (${attempt + 2}/${settings.maxRetries + 1})...`);
+      await delay(wait, signal);
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", abortAttempt);
+    }
+  }
+};
+
+// Models like to wrap JSON in fences or a sentence; keep the outermost object
+export const extractJson = (answer: string) => {
+  const unfenced = answer.replace(/^\s*```(?:json)?\s*/i, "").replace(/\s*```\s*$/, "");
+  const start = unfenced.indexOf("{");
+  const end = unfenced.lastIndexOf("}");
+  return start >= 0 && end > start ? unfenced.slice(start, end + 1) : unfenced.trim();
+};
+
+// --- Helper: Ask, validate, re-ask once with the problems listed ---
+// `validate` returns the parsed document or a list of human-readable problems.
+export const generateDocument = async <T,>(
+  messages: ChatMessage[],
+  settings: AISettings,
+  validate: (json: string) => { data: T | null; problems: string[] },
+  options: { signal: AbortSignal; onStatus?: (status: string) => void; documentName: string },
+): Promise<{ data: T; json: string }> => {
+  const { signal, onStatus = () => {}, documentName } = options;
+  const provider = createProvider(settings);
+  const conversation = [...messages];
+
+  for (let repair = 0; ; repair++) {
+    const answer = await completeWithRetry(provider, conversation, settings, signal, onStatus);
+    const json = extractJson(answer);
+    const { data, problems } = validate(json);
+    if (data) return { data, json: JSON.stringify(JSON.parse(json), null, 2) };
+
+    if (repair >= MAX_REPAIR_ATTEMPTS) {
+      throw new AIValidationError(`AI zwróciło ${documentName} niezgodne ze schematem`, problems);
+    }
+    onStatus("Odpowiedź AI zawiera błędy. Proszę o poprawkę...");
+    conversation.push(
+      { role: "assistant", content: answer },
+      {
+        role: "user",
+        content: `Twoja odpowiedź nie jest poprawna (${documentName}):\n${problems
+          .slice(0, 10)
+          .map((p) => `- ${p}`)
+          .join("\n")}\nZwróć wyłącznie poprawiony obiekt JSON o wymaganej strukturze.`,
+      },
+    );
+  }
+};
+
+const describeDiagnostic = (d: JsonDiagnostic) =>
+  d.kind === "syntax" ? `${d.message} (linia ${d.line}, kolumna ${d.column})` : d.message;
+
+// --- Main: Generate a validated CV ---
+export const generateCV = (
+  prompt: string,
+  settings: AISettings,
+  options: { signal: AbortSignal; onStatus?: (status: string) => void },
+): Promise<GenerationResult> =>
+  generateDocument(
+    [
+      { role: "system", content: CV_SYSTEM_PROMPT },
+      { role: "user", content: prompt },
+    ],
+    settings,
+    (json) => {
+      const { data, diagnostics } = validateCVJson(json);
+      return { data, problems: diagnostics.map(describeDiagnostic) };
+    },
+    { ...options, documentName: "CV" },
+  );
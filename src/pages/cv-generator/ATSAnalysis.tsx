@@ -0,0 +1,212 @@
+import type { CVData } from "./CVSchema";
+
+// --- ATS Keyword Analysis ---
+// Rough model of what an applicant tracking system checks: the offer is reduced to
+// weighted keywords (stop-words removed, Polish/English endings stripped), then the
+// CV is scored by how much of that weight it covers. Matching works on stems, so
+// "zarządzanie" in the offer matches "zarządzania" in the CV.
+
+// --- Types ---
+export type CVSection = "title" | "aboutMe" | "skills" | "experience" | "education" | "languages" | "interests";
+
+export interface ATSKeyword {
+  term: string; // Most frequent spelling in the offer
+  stem: string;
+  weight: number;
+  matched: boolean;
+  sections: CVSection[]; // Where the CV mentions it
+}
+
+export interface ATSReport {
+  score: number; // 0-100, share of keyword weight covered by the CV
+  keywords: ATSKeyword[];
+}
+
+// --- Constants ---
+const MAX_KEYWORDS = 25;
+const MIN_STEM_LENGTH = 3;
+const HIGHLIGHT_NAME = "ats-match";
+
+export const CV_SECTION_LABELS: Record<CVSection, string> = {
+  title: "Stanowisko",
+  aboutMe: "O mnie",
+  skills: "Umiejętności",
+  experience: "Doświadczenie",
+  education: "Edukacja",
+  languages: "Języki",
+  interests: "Zainteresowania",
+};
+
+// prettier-ignore
+const STOP_WORDS = new Set([
+  // Polish
+  "a", "aby", "albo", "ale", "ani", "az", "bardzo", "bedzie", "bedziesz", "bez", "beda", "byc", "byl", "byla", "bylo",
+  "co", "czy", "dla", "do", "gdy", "gdzie", "go", "i", "ich", "im", "ja", "jak", "jako", "jest", "jestes", "jego",
+  "jej", "jesli", "juz", "ktora", "ktore", "ktory", "ktorych", "lub", "ma", "mamy", "masz", "mi", "mozesz", "na",
+  "nad", "nam", "nas", "nasz", "nasza", "nasze", "naszego", "naszej", "naszym", "nie", "nich", "o", "od", "oraz",
+  "osoba", "osoby", "po", "pod", "poza", "przez", "przy", "sa", "se", "sie", "sposob", "ta", "tak", "takze", "te",
+  "tego", "tej", "ten", "to", "tu", "twoj", "twoje", "tym", "u", "w", "we", "wraz", "wszystkie", "z", "za", "ze",
+  "zas", "zostac",
+  // English
+  "about", "an", "and", "are", "as", "at", "be", "been", "but", "by", "can", "for", "from", "has", "have", "in",
+  "into", "is", "it", "its", "of", "on", "or", "our", "should", "that", "the", "their", "them", "this", "to", "us",
+  "was", "we", "were", "what", "which", "who", "will", "with", "would", "you", "your",
+  // Job-ad boilerplate in both languages
+  "benefit", "benefity", "candidate", "company", "doswiadczenie", "experience", "firma", "firmy", "job", "kandydat",
+  "mile", "oferta", "oferujemy", "plus", "praca", "pracy", "role", "rok", "lat", "lata", "team", "umowa", "umowy",
+  "widziane", "wymagania", "work", "working", "years", "year", "zespol", "zespole", "offer", "requirements",
+  "responsibilities", "obowiazki", "znajomosc", "knowledge", "skills", "umiejetnosci",
+]);
+
+// At most one ending is stripped per word, the longest that fits
+// prettier-ignore
+const SUFFIXES = [
+  "owaniami", "owaniach", "ościami", "ościach", "owania", "owanie", "owaniu", "ations", "ation", "ments",
+  "ment", "ością", "ości", "ings", "ing", "ami", "ach", "owi", "ego", "emu", "ymi", "imi", "iej", "ych", "ich", "ers",
+  "ies", "iem", "ość", "om", "ow", "em", "ie", "ia", "er", "es", "ed", "ly", "y", "i", "a", "e", "u", "o", "s",
+];
+
+// Offer sections recognised by their header line
+const REQUIREMENT_HEADERS = /wymagani|oczekuj|szukamy|require|qualif|must|nice to have|mile widzian|skills|umiejętn/i;
+const BENEFIT_HEADERS = /oferujemy|we offer|benefit|zapewniamy|what we offer/i;
+
+// --- Helper: Tokens & Stems ---
+const TOKEN_PATTERN = /[\p{L}\p{N}][\p{L}\p{N}+#.\-]*/gu;
+
+const foldDiacritics = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/ł/g, "l")
+    .replace(/Ł/g, "L");
+
+const FOLDED_SUFFIXES = SUFFIXES.map(foldDiacritics).sort((a, b) => b.length - a.length);
+
+// C++, Node.js, SQL, S3: names are compared verbatim, never stemmed
+const isTechnicalToken = (token: string) =>
+  /[+#.\d]/.test(token) || /^[A-Z]{2,6}$/.test(token) || /[a-z][A-Z]/.test(token);
+
+const stripSuffix = (folded: string) => {
+  for (const suffix of FOLDED_SUFFIXES) {
+    if (folded.endsWith(suffix) && folded.length - suffix.length >= MIN_STEM_LENGTH + 1) {
+      return folded.slice(0, -suffix.length);
+    }
+  }
+  return folded;
+};
+
+// Inflected stop-words ("doświadczenia") are caught by comparing stems
+const STOP_STEMS = new Set(Array.from(STOP_WORDS, stripSuffix));
+
+export const stemToken = (token: string): string | null => {
+  const clean = token.replace(/[.\-]+$/, "");
+  if (/^\d+$/.test(clean)) return null;
+  if (isTechnicalToken(clean)) return clean.toLowerCase();
+
+  const folded = foldDiacritics(clean.toLowerCase());
+  if (folded.length < MIN_STEM_LENGTH || STOP_WORDS.has(folded)) return null;
+  const stem = stripSuffix(folded);
+  return STOP_STEMS.has(stem) ? null : stem;
+};
+
+const tokenize = (text: string) => (text.match(TOKEN_PATTERN) || []).map((t) => t.replace(/[.\-]+$/, ""));
+
+// --- Keyword extraction from the offer ---
+export const extractKeywords = (offer: string) => {
+  const terms = new Map<string, { weight: number; forms: Map<string, number> }>();
+  let sectionWeight = 1;
+
+  for (const line of offer.split(/\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    // Short lines naming a section switch the weight of what follows
+    if (trimmed.length < 60 && (trimmed.endsWith(":") || !/[.,;]/.test(trimmed))) {
+      if (REQUIREMENT_HEADERS.test(trimmed)) sectionWeight = 1.5;
+      else if (BENEFIT_HEADERS.test(trimmed)) sectionWeight = 0.3;
+    }
+
+    for (const token of tokenize(trimmed)) {
+      const stem = stemToken(token);
+      if (!stem) continue;
+      const boost = isTechnicalToken(token) || /^\p{Lu}/u.test(token) ? 1.5 : 1;
+      const entry = terms.get(stem) || { weight: 0, forms: new Map<string, number>() };
+      entry.weight += sectionWeight * boost;
+      entry.forms.set(token, (entry.forms.get(token) || 0) + 1);
+      terms.set(stem, entry);
+    }
+  }
+
+  return Array.from(terms.entries())
+    .map(([stem, { weight, forms }]) => ({
+      stem,
+      weight: Number(weight.toFixed(2)),
+      term: Array.from(forms.entries()).sort((a, b) => b[1] - a[1])[0][0],
+    }))
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, MAX_KEYWORDS);
+};
+
+// --- CV text by section ---
+const cvSectionTexts = (data: CVData): Record<CVSection, string> => ({
+  title: data.title,
+  aboutMe: data.aboutMe.map((item) => `${item.main} ${item.text}`).join("\n"),
+  skills: data.skills.join("\n"),
+  experience: data.experience.map((exp) => [exp.role, exp.company, ...exp.description].join("\n")).join("\n"),
+  education: data.education.map((edu) => `${edu.degree} ${edu.school}`).join("\n"),
+  languages: data.languages.map((lang) => `${lang.language} ${lang.proficiency}`).join("\n"),
+  interests: data.interests.join("\n"),
+});
+
+// --- Main: Score a CV against an offer ---
+export const analyzeCV = (offer: string, data: CVData): ATSReport => {
+  const keywords = extractKeywords(offer);
+  const found = new Map<string, Set<CVSection>>();
+
+  for (const [section, text] of Object.entries(cvSectionTexts(data)) as [CVSection, string][]) {
+    for (const token of tokenize(text)) {
+      const stem = stemToken(token);
+      if (!stem) continue;
+      const sections = found.get(stem) || new Set<CVSection>();
+      sections.add(section);
+      found.set(stem, sections);
+    }
+  }
+
+  const report = keywords.map((keyword) => {
+    const sections = Array.from(found.get(keyword.stem) || []);
+    return { ...keyword, matched: sections.length > 0, sections };
+  });
+  const total = report.reduce((sum, k) => sum + k.weight, 0);
+  const covered = report.filter((k) => k.matched).reduce((sum, k) => sum + k.weight, 0);
+  return { score: total ? Math.round((covered / total) * 100) : 0, keywords: report };
+};
+
+// --- Preview highlighting (CSS Custom Highlight API, leaves the editable DOM untouched) ---
+export const highlightKeywords = (root: HTMLElement | null, stems: Set<string>) => {
+  if (typeof CSS === "undefined" || !("highlights" in CSS)) return;
+  CSS.highlights.delete(HIGHLIGHT_NAME);
+  if (!root || stems.size === 0) return;
+
+  const ranges: Range[] = [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) =>
+      node.parentElement?.closest(".no-print") ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT,
+  });
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const text = node.textContent || "";
+    for (const match of text.matchAll(TOKEN_PATTERN)) {
+      const token = match[0].replace(/[.\-]+$/, "");
+      const stem = stemToken(token);
+      if (!stem || !stems.has(stem)) continue;
+      const range = new Range();
+      range.setStart(node, match.index!);
+      range.setEnd(node, match.index! + token.length);
+      ranges.push(range);
+    }
+  }
+  CSS.highlights.set(HIGHLIGHT_NAME, new Highlight(...ranges));
+};
+
+export const clearKeywordHighlights = () => {
+  if (typeof CSS !== "undefined" && "highlights" in CSS) CSS.highlights.delete(HIGHLIGHT_NAME);
+};
@@ -1,89 +1,77 @@
-import React, { useState, useEffect, useRef, useCallback } from "react";
+import React, { useState, useEffect, useRef, useCallback, useMemo } from "react";
+import { exportElementToPdf, exportElementsToPdf, cvFileName } from "./PdfExport";
+import { buildCVDocx } from "./DocxExport";
+import {
+  type CVData,
+  type CVLanguage,
+  type ConsentClause,
+  type ExtraSectionItem,
+  type ExtraSectionKind,
+  type SectionKey,
+  CONSENT_KINDS,
+  CV_LANGUAGES,
+  CV_SCHEMA_VERSION,
+  DEFAULT_LABELS,
+  EXTRA_SECTION_KINDS,
+  createEmptyEntry,
+} from "./CVSchema";
+import { type CVStyle, CV_TEMPLATES, TemplateRenderer, isCVStyle } from "./CVTemplates";
+import { type JsonDiagnostic, validateCVJson, applyAllQuickFixes } from "./CVValidation";
+import {
+  type AISettings,
+  AI_PROVIDER_LABELS,
+  AIValidationError,
+  generateCV,
+  generateDocument,
+  isAbortError,
+  loadAISettings,
+  saveAISettings,
+} from "./AIProviders";
+import { type ATSReport, CV_SECTION_LABELS, analyzeCV, clearKeywordHighlights, highlightKeywords } from "./ATSAnalysis";
+import {
+  type CoverLetterData,
+  CoverLetterDocument,
+  INITIAL_COVER_LETTER,
+  buildCoverLetterPrompt,
+  validateCoverLetter,
+  validateCoverLetterJson,
+} from "./CoverLetter";
+import {
+  type HistoryItem,
+  type StorageUsage,
+  cleanupStorage,
+  deleteHistoryItem,
+  getStorageUsage,
+  listHistory,
+  loadCurrentImage,
+  migrateFromLocalStorage,
+  saveCurrentImage,
+  saveHistoryItem,
+} from "./HistoryStore";
+import { type DiffTarget, HistoryDiffModal } from "./CVDiff";
+import { type TimelineReport, analyzeTimeline, formatTenure, parsePeriod, sortByDate } from "./CVDates";
+import {
+  LANGUAGE_NAMES,
+  clearMissingTranslationHighlights,
+  findMissingTranslations,
+  highlightMissingTranslations,
+  removeVariant,
+  switchLanguage,
+} from "./CVTranslations";
+import { COMPANY_PLACEHOLDER, CONSENT_KIND_NAMES, findCompanyName } from "./CVConsent";
+import { PhotoEditorModal } from "./PhotoEditor";
 
 // --- Constants ---
-const ENDPOINT_URL = "https://serwer2518023.home.pl/programowanie-gpt/cv-generator/endpoint.php";
 const DEFAULT_MARGIN_TOP = 50;
 const DEFAULT_MARGIN_BOTTOM = 0;
 
-// --- Types ---
-type CVStyle = "ecommerce-1" | "ecommerce-2";
-
-interface ContactInfo {
-  email: string;
-  phone: string;
-  location: string;
-}
-
-interface Experience {
-  id: string;
-  role: string;
-  company: string;
-  duration: string;
-  description: string[];
-}
-
-interface Education {
-  id: string;
-  degree: string;
-  school: string;
-  year: string;
-}
-
-// REMOVED: interface SkillSet (no longer needed)
-
-interface Language {
-  language: string;
-  proficiency: string;
-}
-
-interface CVLabels {
-  aboutMe: string;
-  experience: string;
-  education: string;
-  skills: string;
-  languages: string;
-  interests: string;
-}
-
-interface SummaryItem {
-  id: string;
-  main: string;
-  text: string;
-}
-
-interface CVData {
-  labels: CVLabels;
-  fullName: string;
-  title: string;
-  aboutMe: SummaryItem[];
-  contact: ContactInfo;
-  skills: string[]; // CHANGED: Simple array of strings
-  languages: Language[];
-  interests: string[];
-  experience: Experience[];
-  education: Education[];
-}
-
-// --- Interface for History ---
-interface HistoryItem {
-  id: string;
-  name: string;
-  timestamp: number;
-  data: CVData;
-  style: CVStyle;
-  image: string | null;
-}
+type DocumentType = "cv" | "letter";
 
 // --- Initial Data ---
 const INITIAL_DATA: CVData = {
-  labels: {
-    aboutMe: "O mnie",
-    experience: "Doświadczenie",
-    education: "Edukacja",
-    skills: "Umiejętności",
-    languages: "Języki",
-    interests: "Zainteresowania",
-  },
+  schemaVersion: CV_SCHEMA_VERSION,
+  language: "pl",
+  labels: DEFAULT_LABELS,
   fullName: "Jan Kowalski",
   title: "Senior Frontend Developer",
   aboutMe: [
@@ -136,7 +124,9 @@ const INITIAL_DATA: CVData = {
       id: "1",
       role: "Senior Frontend Developer",
       company: "TechStream Solutions",
-      duration: "2021 - Obecnie",
+      start: "2021",
+      end: "present",
+      duration: "",
       description: [
         "Prowadzenie migracji monolitu frontendowego na mikro-frontendy (Next.js), poprawa czasu ładowania o 40%.",
         "Stworzenie wewnętrznej biblioteki komponentów UI w Storybook i TypeScript, standaryzacja designu w 3 produktach.",
@@ -147,7 +137,9 @@ const INITIAL_DATA: CVData = {
       id: "2",
       role: "Frontend Developer",
       company: "Creative Web Agency",
-      duration: "2018 - 2021",
+      start: "2018",
+      end: "2021",
+      duration: "",
       description: [
         "Współpraca z projektantami UI/UX przy wdrażaniu prototypów z Figmy (Pixel Perfect).",
         "Wdrożenie testów jednostkowych i integracyjnych (Jest), wzrost pokrycia kodu z 20% do 85%.",
@@ -160,9 +152,20 @@ const INITIAL_DATA: CVData = {
       id: "1",
       degree: "Inżynier Informatyki",
       school: "Politechnika Warszawska",
-      year: "2018",
+      start: "2018",
+      end: "2018",
+      year: "",
+    },
+  ],
+  extraSections: [
+    {
+      kind: "certificates",
+      items: [{ id: "1", title: "AWS Certified Developer – Associate", detail: "Amazon Web Services, 2022" }],
     },
   ],
+  hiddenSections: [],
+  consent: { enabled: true, kind: "current", company: "", text: "" },
+  variants: {},
 };
 
 // --- Helper: Deep Object Update ---
@@ -199,47 +202,26 @@ const removeDeepItem = (obj: any, path: (string | number)[], indexToRemove: numb
   return newObj;
 };
 
-// --- Helper: Data Sanitizer ---
-const sanitizeCVData = (parsed: any): CVData => {
-  const safeData = { ...INITIAL_DATA, ...parsed };
-
-  // --- COMPATIBILITY FIX: Handle if backend returns 'summary' instead of 'aboutMe' ---
-  if (parsed.summary && !parsed.aboutMe) {
-    safeData.aboutMe = parsed.summary;
-  }
-
-  safeData.aboutMe = Array.isArray(safeData.aboutMe) ? safeData.aboutMe : [];
-  safeData.experience = Array.isArray(safeData.experience) ? safeData.experience : [];
-  safeData.education = Array.isArray(safeData.education) ? safeData.education : [];
-
-  // Ensure skills is array. If it was object array (old version), we might need to flatten,
-  // but for now we just ensure it's an array.
-  safeData.skills = Array.isArray(safeData.skills) ? safeData.skills : [];
-  // Basic cleanup: if user pastes old JSON, skills might be objects.
-  // We filter to ensure strings to prevent crash.
-  if (safeData.skills.length > 0 && typeof safeData.skills[0] !== "string") {
-    // Fallback or attempt to extract items if possible, otherwise reset
-    safeData.skills = INITIAL_DATA.skills;
-  }
-
-  safeData.languages = Array.isArray(safeData.languages) ? safeData.languages : [];
-  safeData.interests = Array.isArray(safeData.interests) ? safeData.interests : [];
-
-  safeData.experience = safeData.experience.map((exp: any) => ({
-    ...exp,
-    description: Array.isArray(exp.description) ? exp.description : [],
-  }));
-
-  if (safeData.aboutMe.length > 0 && typeof safeData.aboutMe[0] === "string") {
-    safeData.aboutMe = [{ id: "1", main: "O mnie", text: safeData.aboutMe[0] }];
-  }
+// --- Helper: Insert / Move Items in an Array ---
+const insertDeepItem = (obj: any, path: (string | number)[], index: number, item: any): any => {
+  const list: any[] = path.reduce((current, key) => current?.[key], obj) || [];
+  return setDeepValue(obj, path, [...list.slice(0, index), item, ...list.slice(index)]);
+};
 
-  return safeData;
+const moveDeepItem = (obj: any, path: (string | number)[], from: number, to: number): any => {
+  const list: any[] = [...(path.reduce((current, key) => current?.[key], obj) || [])];
+  const [item] = list.splice(from, 1);
+  list.splice(to, 0, item);
+  return setDeepValue(obj, path, list);
 };
 
 // --- COMPONENT: Error Boundary ---
-class SafeErrorBoundary extends React.Component<{ children: React.ReactNode }, { hasError: boolean }> {
-  constructor(props: { children: React.ReactNode }) {
+// `resetKey` clears the error once different data arrives
+class SafeErrorBoundary extends React.Component<
+  { children: React.ReactNode; resetKey?: unknown },
+  { hasError: boolean }
+> {
+  constructor(props: { children: React.ReactNode; resetKey?: unknown }) {
     super(props);
     this.state = { hasError: false };
   }
@@ -248,6 +230,12 @@ class SafeErrorBoundary extends React.Component<{ children: React.ReactNode }, {
     return { hasError: true };
   }
 
+  componentDidUpdate(prevProps: { resetKey?: unknown }) {
+    if (this.state.hasError && prevProps.resetKey !== this.props.resetKey) {
+      this.setState({ hasError: false });
+    }
+  }
+
   componentDidCatch(error: any, errorInfo: any) {
     console.error("CV Rendering Error:", error, errorInfo);
   }
@@ -274,85 +262,6 @@ class SafeErrorBoundary extends React.Component<{ children: React.ReactNode }, {
   }
 }
 
-// --- COMPONENT: Editable Text ---
-interface EditableProps {
-  value: string;
-  onUpdate: (newValue: string) => void;
-  tag?: keyof JSX.IntrinsicElements;
-  className?: string;
-  placeholder?: string;
-}
-
-const Editable: React.FC<EditableProps> = ({
-  value,
-  onUpdate,
-  tag: Tag = "span",
-  className = "",
-  placeholder = "...",
-}) => {
-  const handleBlur = (e: React.FocusEvent<HTMLElement>) => {
-    const text = e.currentTarget.textContent;
-    if (text !== null && text !== value) {
-      onUpdate(text);
-    }
-  };
-
-  const handleKeyDown = (e: React.KeyboardEvent<HTMLElement>) => {
-    if (
-      e.key === "Enter" &&
-      Tag !== "p" &&
-      Tag !== "div" &&
-      Tag !== "h1" &&
-      Tag !== "h2" &&
-      Tag !== "h3" &&
-      Tag !== "h4" &&
-      Tag !== "li"
-    ) {
-      e.preventDefault();
-      e.currentTarget.blur();
-    }
-  };
-
-  return (
-    <Tag
-      contentEditable
-      suppressContentEditableWarning
-      onBlur={handleBlur}
-      onKeyDown={handleKeyDown}
-      className={`outline-none min-w-[20px] cursor-text transition-all border-b border-transparent hover:border-blue-300 hover:bg-blue-50/30 empty:before:content-[attr(placeholder)] empty:before:text-gray-300 ${className}`}
-      placeholder={placeholder}
-    >
-      {value}
-    </Tag>
-  );
-};
-
-// --- COMPONENT: Removable Wrapper ---
-interface RemovableProps {
-  children: React.ReactNode;
-  onRemove: () => void;
-  className?: string;
-}
-
-const Removable: React.FC<RemovableProps> = ({ children, onRemove, className = "" }) => {
-  return (
-    <div className={`relative group transition-all ${className}`}>
-      {children}
-      <button
-        onClick={(e) => {
-          e.stopPropagation();
-          onRemove();
-        }}
-        contentEditable={false}
-        className="absolute -right-6 top-0 opacity-0 group-hover:opacity-100 bg-red-500 text-white hover:bg-red-600 transition-opacity p-1 no-print z-50 cursor-pointer flex items-center justify-center rounded-full shadow-md h-5 w-5 border border-red-700"
-        title="Usuń element"
-      >
-        <span className="text-xs font-bold leading-none">✕</span>
-      </button>
-    </div>
-  );
-};
-
 // --- Main Component ---
 const CVGenerator: React.FC = () => {
   // State Initialization
@@ -383,42 +292,67 @@ const CVGenerator: React.FC = () => {
   const [data, setData] = useState<CVData>(INITIAL_DATA);
   const [selectedStyle, setSelectedStyle] = useState<CVStyle>(() => {
     if (typeof window !== "undefined") {
-      const saved = localStorage.getItem("cv_style") as CVStyle;
-      if (saved === "ecommerce-1" || saved === "ecommerce-2") {
+      const saved = localStorage.getItem("cv_style");
+      if (isCVStyle(saved)) {
         return saved;
       }
     }
     return "ecommerce-1";
   });
 
-  const [profileImage, setProfileImage] = useState<string | null>(() => {
+  // Photo and history live in IndexedDB and arrive after the first render
+  const [profileImage, setProfileImage] = useState<string | null>("/cv.png");
+
+  // Cover letter: shares name, title and contact with the CV, only the body is stored here
+  const [coverLetter, setCoverLetter] = useState<CoverLetterData>(() => {
     if (typeof window !== "undefined") {
-      const savedImg = localStorage.getItem("cv_image");
-      return savedImg && savedImg !== "undefined" && savedImg !== "null" ? savedImg : "/cv.png";
+      try {
+        const saved = localStorage.getItem("cv_coverLetter");
+        if (saved) return validateCoverLetter(JSON.parse(saved)).data || INITIAL_COVER_LETTER;
+      } catch (e) {
+        console.error("Stored cover letter is corrupted", e);
+      }
     }
-    return "/cv.png";
+    return INITIAL_COVER_LETTER;
+  });
+
+  const [documentType, setDocumentType] = useState<DocumentType>(() => {
+    if (typeof window !== "undefined" && localStorage.getItem("cv_documentType") === "letter") return "letter";
+    return "cv";
   });
 
   // History State
-  const [history, setHistory] = useState<HistoryItem[]>(() => {
+  const [history, setHistory] = useState<HistoryItem[]>([]);
+  // Nothing is written back until the stored photo and history have been loaded
+  const [isStorageReady, setIsStorageReady] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  // Version compared with the current CV; undefined while the diff view is closed
+  const [diffVersionId, setDiffVersionId] = useState<string | null | undefined>(undefined);
+
+  const [isPromptModalOpen, setIsPromptModalOpen] = useState(false);
+  // Shared by the AI prompt and the ATS report
+  const [jobDescription, setJobDescription] = useState(() => {
     if (typeof window !== "undefined") {
-      const saved = localStorage.getItem("cv_history_list");
-      if (saved) {
-        try {
-          return JSON.parse(saved);
-        } catch (e) {
-          return [];
-        }
-      }
+      return localStorage.getItem("prompt_jobDescription") || "";
     }
-    return [];
+    return "";
   });
-
-  const [isPromptModalOpen, setIsPromptModalOpen] = useState(false);
+  const [highlightATS, setHighlightATS] = useState(false);
+  const [showMissingTranslations, setShowMissingTranslations] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [generationStatus, setGenerationStatus] = useState<string | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
+  const [isExportingDocx, setIsExportingDocx] = useState(false);
+  // While true, both documents are rendered off-screen for the combined PDF
+  const [isExportingBundle, setIsExportingBundle] = useState(false);
+  const exportStageRef = useRef<HTMLDivElement>(null);
+  const [diagnostics, setDiagnostics] = useState<JsonDiagnostic[]>([]);
   const [isDragging, setIsDragging] = useState(false);
+  const [photoSource, setPhotoSource] = useState<string | null>(null); // Photo open in the editor
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const jsonEditorRef = useRef<HTMLTextAreaElement>(null);
+  const hasJsonErrors = diagnostics.length > 0;
 
   const handleFieldUpdate = (path: (string | number)[], newValue: string) => {
     const newData = setDeepValue(data, path, newValue);
@@ -432,6 +366,107 @@ const CVGenerator: React.FC = () => {
     setJsonString(JSON.stringify(newData, null, 2));
   };
 
+  const handleMoveItem = (path: (string | number)[], from: number, to: number) => {
+    const newData = moveDeepItem(data, path, from, to);
+    setData(newData);
+    setJsonString(JSON.stringify(newData, null, 2));
+  };
+
+  const handleAddItem = (path: (string | number)[], index: number) => {
+    const newData = insertDeepItem(data, path, index, createEmptyEntry(path));
+    setData(newData);
+    setJsonString(JSON.stringify(newData, null, 2));
+  };
+
+  // Sidebar section controls: visibility toggles and the optional extra sections
+  const handleToggleSection = (key: SectionKey) => {
+    const hiddenSections = data.hiddenSections.includes(key)
+      ? data.hiddenSections.filter((hidden) => hidden !== key)
+      : [...data.hiddenSections, key];
+    const newData = { ...data, hiddenSections };
+    setData(newData);
+    setJsonString(JSON.stringify(newData, null, 2));
+  };
+
+  const handleAddExtraSection = (kind: ExtraSectionKind) => {
+    const section = {
+      kind,
+      items: [createEmptyEntry(["extraSections", data.extraSections.length, "items"]) as ExtraSectionItem],
+    };
+    const newData = { ...data, extraSections: [...data.extraSections, section] };
+    setData(newData);
+    setJsonString(JSON.stringify(newData, null, 2));
+  };
+
+  const handleRemoveExtraSection = (kind: ExtraSectionKind) => {
+    const newData = {
+      ...data,
+      extraSections: data.extraSections.filter((section) => section.kind !== kind),
+      hiddenSections: data.hiddenSections.filter((key) => key !== kind),
+    };
+    setData(newData);
+    setJsonString(JSON.stringify(newData, null, 2));
+  };
+
+  // Period text typed in the preview: dates when it parses, otherwise kept as free text
+  const handleUpdatePeriod = (path: (string | number)[], text: string) => {
+    const [list, index] = path as ["experience" | "education", number];
+    const textField = list === "experience" ? "duration" : "year";
+    const period = parsePeriod(text);
+    const entry = { ...data[list][index], ...(period ?? { start: "", end: "" }), [textField]: period ? "" : text };
+    const newData = setDeepValue(data, path, entry);
+    setData(newData);
+    setJsonString(JSON.stringify(newData, null, 2));
+  };
+
+  const handleSortByDate = (list: "experience" | "education") => {
+    const newData = { ...data, [list]: sortByDate<CVData[typeof list][number]>(data[list]) };
+    setData(newData);
+    setJsonString(JSON.stringify(newData, null, 2));
+  };
+
+  const handleUpdateConsent = (patch: Partial<ConsentClause>) => {
+    const newData = { ...data, consent: { ...data.consent, ...patch } };
+    setData(newData);
+    setJsonString(JSON.stringify(newData, null, 2));
+  };
+
+  // The offer is the usual source; the cover letter's recipient company is the fallback
+  const handleConsentCompanyFromOffer = () => {
+    const letterCompany = coverLetter.company !== INITIAL_COVER_LETTER.company ? coverLetter.company.trim() : "";
+    const company = findCompanyName(jobDescription) || letterCompany;
+    if (!company) {
+      alert("Nie znaleziono nazwy firmy w ogłoszeniu. Wpisz ją ręcznie.");
+      return;
+    }
+    handleUpdateConsent({ company });
+  };
+
+  const handleSwitchLanguage = (language: CVLanguage) => {
+    const newData = switchLanguage(data, language);
+    setData(newData);
+    setJsonString(JSON.stringify(newData, null, 2));
+  };
+
+  const handleRemoveVariant = (language: CVLanguage) => {
+    if (!window.confirm(`Usunąć wersję językową: ${LANGUAGE_NAMES[language]}?`)) return;
+    const newData = removeVariant(data, language);
+    setData(newData);
+    setJsonString(JSON.stringify(newData, null, 2));
+  };
+
+  const handleLetterUpdate = (path: (string | number)[], newValue: string) => {
+    setCoverLetter((prev) => setDeepValue(prev, path, newValue));
+  };
+
+  const handleLetterRemove = (path: (string | number)[], index: number) => {
+    setCoverLetter((prev) => removeDeepItem(prev, path, index));
+  };
+
+  const handleAddLetterParagraph = () => {
+    setCoverLetter((prev) => ({ ...prev, paragraphs: [...prev.paragraphs, "Nowy akapit..."] }));
+  };
+
   // --- Effects ---
   useEffect(() => {
     localStorage.setItem("cv_marginTop", marginTop.toString());
@@ -444,14 +479,10 @@ const CVGenerator: React.FC = () => {
   useEffect(() => {
     if (jsonString && jsonString !== "undefined") {
       localStorage.setItem("cv_data", jsonString);
-      try {
-        const parsed = JSON.parse(jsonString);
-        const cleanData = sanitizeCVData(parsed);
-        setData(cleanData);
-        setError(null);
-      } catch (e) {
-        setError("Błędna składnia JSON (sprawdź nawiasy i cudzysłowy)");
-      }
+      // Invalid JSON keeps the last valid CV in the preview
+      const result = validateCVJson(jsonString);
+      setDiagnostics(result.diagnostics);
+      if (result.data) setData(result.data);
     }
   }, [jsonString]);
 
@@ -460,27 +491,88 @@ const CVGenerator: React.FC = () => {
   }, [selectedStyle]);
 
   useEffect(() => {
-    if (profileImage) {
+    localStorage.setItem("prompt_jobDescription", jobDescription);
+  }, [jobDescription]);
+
+  useEffect(() => {
+    localStorage.setItem("cv_coverLetter", JSON.stringify(coverLetter));
+  }, [coverLetter]);
+
+  useEffect(() => {
+    localStorage.setItem("cv_documentType", documentType);
+  }, [documentType]);
+
+  // Re-scored on every edit of the CV or the offer
+  const timeline = useMemo(() => analyzeTimeline(data.experience), [data.experience]);
+
+  const atsReport = useMemo(
+    () => (jobDescription.trim() ? analyzeCV(jobDescription, data) : null),
+    [jobDescription, data],
+  );
+
+  // Runs after the preview has rendered the current data
+  useEffect(() => {
+    if (!highlightATS || !atsReport) return clearKeywordHighlights();
+    const matched = new Set(atsReport.keywords.filter((k) => k.matched).map((k) => k.stem));
+    highlightKeywords(document.getElementById("printable-cv"), matched);
+    return clearKeywordHighlights;
+  }, [highlightATS, atsReport, selectedStyle, documentType, coverLetter]);
+
+  // Text copied from another language and not edited since
+  const missingTranslations = useMemo(() => findMissingTranslations(data), [data]);
+
+  useEffect(() => {
+    if (!showMissingTranslations || documentType !== "cv") return clearMissingTranslationHighlights();
+    highlightMissingTranslations(document.getElementById("printable-cv"), new Set(missingTranslations));
+    return clearMissingTranslationHighlights;
+  }, [showMissingTranslations, missingTranslations, selectedStyle, documentType]);
+
+  // Load photo and history from IndexedDB (moving old localStorage data over first)
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
       try {
-        localStorage.setItem("cv_image", profileImage);
+        await migrateFromLocalStorage();
+        const [image, items] = await Promise.all([loadCurrentImage(), listHistory()]);
+        if (cancelled) return;
+        if (image !== undefined) setProfileImage(image);
+        setHistory(items);
       } catch (e) {
-        console.error("Image too large");
+        console.error("History storage unavailable", e);
+        alert("Nie można otworzyć bazy historii (IndexedDB). Zmiany w historii nie zostaną zapisane.");
+      } finally {
+        if (!cancelled) setIsStorageReady(true);
       }
-    } else {
-      localStorage.removeItem("cv_image");
-    }
-  }, [profileImage]);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
-  // Persist History
   useEffect(() => {
-    try {
-      localStorage.setItem("cv_history_list", JSON.stringify(history));
-    } catch (e) {
-      alert("Błąd zapisu historii: Pamięć przeglądarki jest pełna (prawdopodobnie przez zdjęcia).");
-    }
-  }, [history]);
+    if (!isStorageReady) return;
+    saveCurrentImage(profileImage).catch((e) => console.error("Saving profile image failed", e));
+  }, [profileImage, isStorageReady]);
+
+  const refreshStorageUsage = useCallback(() => {
+    getStorageUsage()
+      .then(setStorageUsage)
+      .catch((e) => console.error("Storage usage unavailable", e));
+  }, []);
+
+  useEffect(() => {
+    if (isStorageReady) refreshStorageUsage();
+  }, [history, profileImage, isStorageReady, refreshStorageUsage]);
 
   // --- History Handlers ---
+  const addToHistory = (item: HistoryItem) => {
+    setHistory((prev) => [item, ...prev]);
+    saveHistoryItem(item).catch((e) => {
+      console.error("Saving history version failed", e);
+      alert("Błąd zapisu historii: brak miejsca w pamięci przeglądarki. Użyj opcji czyszczenia poniżej historii.");
+    });
+  };
+
   const handleSaveToHistory = () => {
     const name = prompt("Podaj nazwę dla tej wersji CV:", `Wersja ${new Date().toLocaleTimeString()}`);
     if (!name) return;
@@ -490,11 +582,12 @@ const CVGenerator: React.FC = () => {
       name,
       timestamp: Date.now(),
       data: JSON.parse(JSON.stringify(data)), // Deep copy
+      language: data.language,
       style: selectedStyle,
       image: profileImage,
     };
 
-    setHistory((prev) => [newItem, ...prev]);
+    addToHistory(newItem);
   };
 
   const handleLoadHistory = (item: HistoryItem) => {
@@ -509,11 +602,100 @@ const CVGenerator: React.FC = () => {
   const handleDeleteHistory = (id: string) => {
     if (window.confirm("Usunąć tę wersję z historii?")) {
       setHistory((prev) => prev.filter((item) => item.id !== id));
+      deleteHistoryItem(id).catch((e) => console.error("Deleting history version failed", e));
+    }
+  };
+
+  // Cherry-picked change from the diff view
+  const handleApplyDiff = (target: DiffTarget) => {
+    setJsonString(JSON.stringify(target.data, null, 2));
+    setSelectedStyle(target.style);
+  };
+
+  const handleCleanupStorage = async (keepVersions?: number) => {
+    if (
+      keepVersions !== undefined &&
+      !window.confirm(`Usunąć wszystkie wersje poza ${keepVersions} najnowszymi? Tej operacji nie można cofnąć.`)
+    ) {
+      return;
+    }
+    try {
+      const removed = await cleanupStorage(keepVersions);
+      setHistory(await listHistory());
+      refreshStorageUsage();
+      alert(`Usunięto wersji: ${removed.versions}, nieużywanych zdjęć: ${removed.images}.`);
+    } catch (e) {
+      console.error("Storage cleanup failed", e);
+      alert("Błąd czyszczenia pamięci.");
     }
   };
 
   const handlePrint = () => window.print();
 
+  const handleDownloadPdf = async () => {
+    const element = document.getElementById("printable-cv");
+    if (!element) return;
+    const isLetter = documentType === "letter";
+    setIsExportingPdf(true);
+    try {
+      await exportElementToPdf(element, cvFileName(data.fullName, "pdf", isLetter ? "List_motywacyjny" : "CV"), {
+        author: data.fullName,
+        title: `${isLetter ? "List motywacyjny" : "CV"} - ${data.fullName}`,
+        subject: isLetter ? coverLetter.subject : data.title,
+      });
+    } catch (e) {
+      console.error("PDF export failed", e);
+      alert("Błąd generowania PDF. Spróbuj ponownie lub użyj opcji Drukuj.");
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
+  // The stage is rendered by the state change; the export runs once it is in the DOM
+  useEffect(() => {
+    if (!isExportingBundle) return;
+    const stage = exportStageRef.current;
+    const pages = stage ? Array.from(stage.children as HTMLCollectionOf<HTMLElement>) : [];
+    exportElementsToPdf(pages, cvFileName(data.fullName, "pdf", "CV_i_list"), {
+      author: data.fullName,
+      title: `CV i list motywacyjny - ${data.fullName}`,
+      subject: data.title,
+    })
+      .catch((e) => {
+        console.error("PDF export failed", e);
+        alert("Błąd generowania PDF. Spróbuj ponownie lub użyj opcji Drukuj.");
+      })
+      .finally(() => setIsExportingBundle(false));
+  }, [isExportingBundle]);
+
+  const handleDownloadDocx = async () => {
+    setIsExportingDocx(true);
+    try {
+      const blob = await buildCVDocx(data, selectedStyle, profileImage);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = cvFileName(data.fullName, "docx");
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error("DOCX export failed", e);
+      alert("Błąd generowania pliku DOCX.");
+    } finally {
+      setIsExportingDocx(false);
+    }
+  };
+
+  // Moves the caret to the diagnostic and scrolls its line into view
+  const handleJumpToDiagnostic = (diagnostic: JsonDiagnostic) => {
+    const editor = jsonEditorRef.current;
+    if (!editor) return;
+    editor.focus();
+    editor.setSelectionRange(diagnostic.offset, Math.min(diagnostic.offset + 1, editor.value.length));
+    const lineHeight = parseFloat(getComputedStyle(editor).lineHeight) || 16;
+    editor.scrollTop = Math.max(0, (diagnostic.line - 3) * lineHeight);
+  };
+
   const handleResetMargins = () => {
     setMarginTop(DEFAULT_MARGIN_TOP);
     setMarginBottom(DEFAULT_MARGIN_BOTTOM);
@@ -529,19 +711,25 @@ const CVGenerator: React.FC = () => {
       setProfileImage("/cv.png");
       setMarginTop(DEFAULT_MARGIN_TOP);
       setMarginBottom(DEFAULT_MARGIN_BOTTOM);
+      setCoverLetter(INITIAL_COVER_LETTER);
       localStorage.removeItem("cv_data");
-      localStorage.removeItem("cv_image");
+      localStorage.removeItem("cv_coverLetter");
       localStorage.removeItem("cv_marginTop");
       localStorage.removeItem("cv_marginBottom");
     }
   };
 
+  // New photos go through the editor, which stores a cropped, downscaled copy
   const processFile = (file: File) => {
-    if (file && file.type.startsWith("image/")) {
-      const reader = new FileReader();
-      reader.onloadend = () => setProfileImage(reader.result as string);
-      reader.readAsDataURL(file);
-    }
+    if (file && file.type.startsWith("image/")) setPhotoSource(URL.createObjectURL(file));
+  };
+  const closePhotoEditor = () => {
+    if (photoSource?.startsWith("blob:")) URL.revokeObjectURL(photoSource);
+    setPhotoSource(null);
+  };
+  const handleSavePhoto = (dataUrl: string) => {
+    setProfileImage(dataUrl);
+    closePhotoEditor();
   };
   const onDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -558,63 +746,95 @@ const CVGenerator: React.FC = () => {
   }, []);
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files?.[0]) processFile(e.target.files[0]);
+    e.target.value = ""; // The same file again still fires onChange
   };
 
-  const handleGenerateCV = async (prompt: string) => {
+  const handleGenerateCV = async (prompt: string, settings: AISettings) => {
     setIsPromptModalOpen(false);
     setIsGenerating(true);
+    setGenerationStatus(null);
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
 
     try {
-      const response = await fetch(ENDPOINT_URL, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ message: prompt }),
+      const { data: answer } = await generateCV(prompt, settings, {
+        signal: controller.signal,
+        onStatus: setGenerationStatus,
       });
+      // The consent clause is the user's setting, not the model's; its company follows the offer
+      const consentCompany = findCompanyName(jobDescription) || data.consent.company;
+      const generated: CVData = { ...answer, consent: { ...data.consent, company: consentCompany } };
+
+      // Update Editor Data (setData follows from the jsonString effect)
+      setJsonString(JSON.stringify(generated, null, 2));
+
+      // AUTOMATIC HISTORY SAVE
+      const newItem: HistoryItem = {
+        id: Date.now().toString(),
+        name: `AI Generacja ${new Date().toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`,
+        timestamp: Date.now(),
+        data: generated,
+        language: generated.language,
+        style: selectedStyle,
+        image: profileImage,
+      };
+      addToHistory(newItem);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("CV generation failed", error);
+      const details = error instanceof AIValidationError ? "\n\n" + error.problems.join("\n") : "";
+      alert(`Błąd generowania: ${(error as Error).message}${details}`);
+    } finally {
+      if (generationAbortRef.current === controller) generationAbortRef.current = null;
+      setIsGenerating(false);
+      setGenerationStatus(null);
+    }
+  };
 
-      const result = await response.json();
-
-      if (result.status === "success") {
-        let cleanContent = result.answer;
-        if (cleanContent) {
-          cleanContent = cleanContent
-            .replace(/^```json\s*/, "")
-            .replace(/^```\s*/, "")
-            .replace(/\s*```$/, "");
-
-          // Parse new data first
-          const parsedData = JSON.parse(cleanContent);
-          const sanitizedData = sanitizeCVData(parsedData);
-
-          // Update Editor Data
-          setJsonString(cleanContent);
-          // Note: setData is handled by the useEffect on jsonString, but for history we need immediate access
-
-          // AUTOMATIC HISTORY SAVE
-          const newItem: HistoryItem = {
-            id: Date.now().toString(),
-            name: `AI Generacja ${new Date().toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`,
-            timestamp: Date.now(),
-            data: sanitizedData, // Use the new data
-            style: selectedStyle,
-            image: profileImage,
-          };
-          setHistory((prev) => [newItem, ...prev]);
-        }
-      } else {
-        const errMsg = result.message || JSON.stringify(result.details) || "Nieznany błąd";
-        alert(`Błąd generowania: ${errMsg}`);
-      }
+  // Same provider settings, offer and overlay as the CV; the letter is written from the current CV
+  const handleGenerateLetter = async () => {
+    if (!jobDescription.trim()) {
+      alert("Najpierw wklej opis oferty pracy w oknie generatora.");
+      setIsPromptModalOpen(true);
+      return;
+    }
+    setDocumentType("letter");
+    setIsGenerating(true);
+    setGenerationStatus(null);
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+
+    try {
+      const { data: generated } = await generateDocument(
+        [{ role: "user", content: buildCoverLetterPrompt(jobDescription, data, coverLetter) }],
+        loadAISettings(),
+        validateCoverLetterJson,
+        { signal: controller.signal, onStatus: setGenerationStatus, documentName: "list motywacyjny" },
+      );
+      setCoverLetter(generated);
     } catch (error) {
-      alert("Błąd sieci: Nie można połączyć się z serwerem.");
+      if (isAbortError(error)) return;
+      console.error("Cover letter generation failed", error);
+      const details = error instanceof AIValidationError ? "\n\n" + error.problems.join("\n") : "";
+      alert(`Błąd generowania: ${(error as Error).message}${details}`);
     } finally {
+      if (generationAbortRef.current === controller) generationAbortRef.current = null;
       setIsGenerating(false);
+      setGenerationStatus(null);
     }
   };
 
+  const handleCancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
   return (
     <div className="min-h-screen bg-[#f3f4f6] p-6 font-sans relative">
       <style>{`
+        ::highlight(ats-match) { background-color: rgba(250, 204, 21, 0.45); }
+        ::highlight(translation-missing) { background-color: rgba(251, 146, 60, 0.2); text-decoration: underline wavy #f97316; }
         @media print {
+          ::highlight(translation-missing) { background-color: transparent; text-decoration: none; }
           @page { margin: 0; margin-top: ${marginTop}px; margin-bottom: ${marginBottom}px; size: auto; }
           .no-print, .no-print * { display: none !important; }
           body, html, #root, .main-layout { width: 100%; height: auto; margin: 0; padding: 0; background-color: white !important; }
@@ -626,8 +846,19 @@ const CVGenerator: React.FC = () => {
       {isGenerating && (
         <div className="fixed inset-0 z-[10000] bg-black/60 backdrop-blur-sm flex flex-col items-center justify-center text-white">
           <div className="animate-spin rounded-full h-16 w-16 border-t-4 border-b-4 border-white mb-4"></div>
-          <h2 className="text-2xl font-bold">Generowanie CV...</h2>
-          <p className="text-gray-300 mt-2">Proszę czekać, AI pisze Twoje CV.</p>
+          <h2 className="text-2xl font-bold">
+            {documentType === "letter" ? "Generowanie listu motywacyjnego..." : "Generowanie CV..."}
+          </h2>
+          <p className="text-gray-300 mt-2">
+            {generationStatus ||
+              (documentType === "letter" ? "Proszę czekać, AI pisze Twój list." : "Proszę czekać, AI pisze Twoje CV.")}
+          </p>
+          <button
+            onClick={handleCancelGeneration}
+            className="mt-6 px-4 py-2 text-sm font-bold border border-white/40 rounded-lg hover:bg-white/10 transition"
+          >
+            Anuluj
+          </button>
         </div>
       )}
 
@@ -652,11 +883,44 @@ const CVGenerator: React.FC = () => {
               </button>
 
               <button
-                onClick={handlePrint}
-                disabled={!!error}
+                onClick={handleGenerateLetter}
+                disabled={hasJsonErrors}
+                className="w-full py-2 px-4 text-sm font-semibold text-purple-700 bg-white border border-purple-300 hover:bg-purple-50 disabled:opacity-50 rounded-xl transition-colors"
+              >
+                ✉️ Wygeneruj list motywacyjny (AI)
+              </button>
+
+              <button
+                onClick={handleDownloadPdf}
+                disabled={hasJsonErrors || isExportingPdf}
                 className="w-full bg-[#2563eb] hover:bg-[#1d4ed8] disabled:bg-[#93c5fd] text-white font-semibold py-3 px-4 rounded-xl transition-colors flex items-center justify-center gap-2 shadow-sm"
               >
-                <DownloadIcon /> Pobierz PDF
+                <DownloadIcon /> {isExportingPdf ? "Generowanie PDF..." : "Pobierz PDF"}
+              </button>
+
+              <button
+                onClick={() => setIsExportingBundle(true)}
+                disabled={hasJsonErrors || isExportingBundle}
+                className="w-full py-2 px-4 text-sm font-semibold text-[#2563eb] bg-white border border-[#2563eb] hover:bg-blue-50 disabled:opacity-50 rounded-xl transition-colors flex items-center justify-center gap-2"
+              >
+                <DownloadIcon /> {isExportingBundle ? "Generowanie PDF..." : "Pobierz CV + list (PDF)"}
+              </button>
+
+              <button
+                onClick={handleDownloadDocx}
+                disabled={hasJsonErrors || isExportingDocx || documentType === "letter"}
+                title={documentType === "letter" ? "Eksport DOCX obejmuje tylko CV" : undefined}
+                className="w-full py-2 px-4 text-sm font-semibold text-[#2563eb] bg-white border border-[#2563eb] hover:bg-blue-50 disabled:opacity-50 rounded-xl transition-colors flex items-center justify-center gap-2"
+              >
+                <DownloadIcon /> {isExportingDocx ? "Generowanie DOCX..." : "Pobierz DOCX (Word)"}
+              </button>
+
+              <button
+                onClick={handlePrint}
+                disabled={hasJsonErrors}
+                className="w-full py-2 px-4 text-xs font-semibold text-gray-600 bg-white border border-gray-300 hover:bg-gray-50 disabled:opacity-50 rounded-xl transition-colors"
+              >
+                Drukuj (okno przeglądarki)
               </button>
             </div>
 
@@ -678,6 +942,19 @@ const CVGenerator: React.FC = () => {
                       alt="Profile"
                       className="w-20 h-20 rounded-full object-cover shadow-sm border border-gray-200"
                     />
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setPhotoSource(profileImage);
+                      }}
+                      className="absolute -bottom-2 -right-2 bg-white text-gray-600 border border-gray-300 rounded-full p-1 hover:text-blue-600 shadow-sm"
+                      title="Kadruj i popraw zdjęcie"
+                    >
+                      <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3">
+                        <path d="M12 20h9"></path>
+                        <path d="M16.5 3.5a2.1 2.1 0 0 1 3 3L7 19l-4 1 1-4Z"></path>
+                      </svg>
+                    </button>
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
@@ -710,16 +987,42 @@ const CVGenerator: React.FC = () => {
                 </button>
               </div>
               <div className="space-y-3">
-                <StyleGroup
-                  title="WYBIERZ SZABLON"
-                  styles={["ecommerce-1", "ecommerce-2"]}
-                  current={selectedStyle}
-                  set={setSelectedStyle}
-                  labels={["Scale", "Brand"]}
-                />
+                {TEMPLATE_INDUSTRIES.map((industry) => (
+                  <StyleGroup
+                    key={industry}
+                    title={industry.toUpperCase()}
+                    templates={CV_TEMPLATES.filter((t) => t.industry === industry)}
+                    current={selectedStyle}
+                    set={setSelectedStyle}
+                    data={data}
+                    image={profileImage}
+                  />
+                ))}
               </div>
             </div>
 
+            <SectionsPanel
+              data={data}
+              onToggle={handleToggleSection}
+              onAdd={handleAddItem}
+              onSort={handleSortByDate}
+              onAddExtra={handleAddExtraSection}
+              onRemoveExtra={handleRemoveExtraSection}
+            />
+            <TimelinePanel report={timeline} />
+            <ConsentPanel
+              consent={data.consent}
+              onChange={handleUpdateConsent}
+              onCompanyFromOffer={handleConsentCompanyFromOffer}
+            />
+
+            <ATSPanel
+              report={atsReport}
+              highlight={highlightATS}
+              onHighlightChange={setHighlightATS}
+              onEditOffer={() => setIsPromptModalOpen(true)}
+            />
+
             <div className="mb-6">
               <div className="flex justify-between items-center mb-3">
                 <h2 className="text-xs font-bold text-gray-400 uppercase tracking-wider">Marginesy Druku (px)</h2>
@@ -756,21 +1059,36 @@ const CVGenerator: React.FC = () => {
             <h2 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-3">Dane JSON (Zaawansowane)</h2>
             <textarea
               className={`flex-1 w-full p-4 font-mono text-[10px] leading-relaxed bg-[#f9fafb] border rounded-lg focus:outline-none focus:ring-2 resize-none mb-2 min-h-[100px] ${
-                error ? "border-red-500 focus:ring-red-200" : "border-gray-300 focus:ring-blue-200"
+                hasJsonErrors ? "border-red-500 focus:ring-red-200" : "border-gray-300 focus:ring-blue-200"
               }`}
+              ref={jsonEditorRef}
               value={jsonString}
               onChange={(e) => setJsonString(e.target.value)}
               spellCheck={false}
             />
-            {error && <div className="text-red-500 text-xs font-bold bg-red-50 p-2 rounded mb-2">⚠️ {error}</div>}
+            {hasJsonErrors && (
+              <JsonDiagnosticsPanel
+                diagnostics={diagnostics}
+                onJump={handleJumpToDiagnostic}
+                onFix={(diagnostic) => diagnostic.fix && setJsonString(diagnostic.fix.apply(jsonString))}
+                onFixAll={() => setJsonString(applyAllQuickFixes(jsonString, diagnostics))}
+              />
+            )}
 
             {/* --- History Section Moved to Bottom --- */}
             <div className="mt-4 border-t border-gray-100 pt-4">
               <div className="flex justify-between items-center mb-2">
                 <h2 className="text-xs font-bold text-gray-400 uppercase tracking-wider">Historia Wersji</h2>
-                <button onClick={handleSaveToHistory} className="text-xs text-blue-600 hover:underline font-bold">
-                  + Zapisz Obecny
-                </button>
+                <div className="flex gap-3">
+                  {history.length > 0 && (
+                    <button onClick={() => setDiffVersionId(null)} className="text-xs text-blue-600 hover:underline">
+                      Porównaj
+                    </button>
+                  )}
+                  <button onClick={handleSaveToHistory} className="text-xs text-blue-600 hover:underline font-bold">
+                    + Zapisz Obecny
+                  </button>
+                </div>
               </div>
               <div className="max-h-32 overflow-y-auto space-y-2 pr-1 custom-scrollbar">
                 {history.length === 0 ? (
@@ -786,11 +1104,19 @@ const CVGenerator: React.FC = () => {
                           {item.name}
                         </div>
                         <div className="text-[10px] text-gray-400">
+                          <span className="font-bold text-gray-500 mr-1">{item.language.toUpperCase()}</span>
                           {new Date(item.timestamp).toLocaleDateString()}{" "}
                           {new Date(item.timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
                         </div>
                       </div>
                       <div className="flex gap-1 opacity-60 group-hover:opacity-100 transition-opacity">
+                        <button
+                          onClick={() => setDiffVersionId(item.id)}
+                          className="p-1 text-gray-600 hover:bg-gray-200 rounded"
+                          title="Porównaj z obecnym CV"
+                        >
+                          ⇄
+                        </button>
                         <button
                           onClick={() => handleLoadHistory(item)}
                           className="p-1 text-blue-600 hover:bg-blue-100 rounded"
@@ -811,27 +1137,97 @@ const CVGenerator: React.FC = () => {
                 )}
               </div>
             </div>
+            {storageUsage && <StoragePanel usage={storageUsage} onCleanup={handleCleanupStorage} />}
             {/* --- History Section End --- */}
           </div>
         </div>
 
-        <div className="cv-preview-wrapper lg:col-span-8 overflow-auto flex justify-center bg-[#e5e7eb] rounded-xl p-8 border border-gray-300 shadow-inner">
-          <div className="scale-[0.85] lg:scale-100 origin-top">
-            <SafeErrorBoundary>
-              <TemplateRenderer
-                style={selectedStyle}
+        <div className="cv-preview-wrapper lg:col-span-8 overflow-auto flex flex-col items-center bg-[#e5e7eb] rounded-xl p-8 border border-gray-300 shadow-inner">
+          <div className="flex flex-wrap justify-center gap-3">
+            <DocumentTabs current={documentType} onChange={setDocumentType} />
+            {documentType === "cv" && (
+              <LanguageSwitcher
                 data={data}
-                image={profileImage}
-                onUpdate={handleFieldUpdate}
-                onRemove={handleRemoveItem}
+                missingCount={missingTranslations.length}
+                showMissing={showMissingTranslations}
+                onToggleMissing={() => setShowMissingTranslations((prev) => !prev)}
+                onSwitch={handleSwitchLanguage}
+                onRemove={handleRemoveVariant}
               />
+            )}
+          </div>
+          <div className="scale-[0.85] lg:scale-100 origin-top">
+            <SafeErrorBoundary resetKey={data}>
+              {documentType === "letter" ? (
+                <CoverLetterDocument
+                  data={data}
+                  letter={coverLetter}
+                  style={selectedStyle}
+                  onUpdate={handleFieldUpdate}
+                  onLetterUpdate={handleLetterUpdate}
+                  onLetterRemove={handleLetterRemove}
+                  onAddParagraph={handleAddLetterParagraph}
+                />
+              ) : (
+                <TemplateRenderer
+                  style={selectedStyle}
+                  data={data}
+                  image={profileImage}
+                  onUpdate={handleFieldUpdate}
+                  onRemove={handleRemoveItem}
+                  onMove={handleMoveItem}
+                  onAdd={handleAddItem}
+                  onUpdatePeriod={handleUpdatePeriod}
+                />
+              )}
             </SafeErrorBoundary>
           </div>
         </div>
       </div>
-      <PromptModal
-        isOpen={isPromptModalOpen}
-        onClose={() => setIsPromptModalOpen(false)}
+      {isExportingBundle && (
+        // Off-screen copies without the printable id, one per PDF section
+        <div ref={exportStageRef} className="fixed top-0 left-[-10000px]" aria-hidden>
+          <TemplateRenderer
+            style={selectedStyle}
+            data={data}
+            image={profileImage}
+            onUpdate={noop}
+            onRemove={noop}
+            thumbnail
+          />
+          <CoverLetterDocument
+            data={data}
+            letter={coverLetter}
+            style={selectedStyle}
+            onUpdate={noop}
+            onLetterUpdate={noop}
+            onLetterRemove={noop}
+            thumbnail
+          />
+        </div>
+      )}
+      {photoSource && (
+        <PhotoEditorModal
+          source={photoSource}
+          shape={(CV_TEMPLATES.find((t) => t.id === selectedStyle) || CV_TEMPLATES[0]).photoShape}
+          onSave={handleSavePhoto}
+          onClose={closePhotoEditor}
+        />
+      )}
+      {diffVersionId !== undefined && (
+        <HistoryDiffModal
+          history={history}
+          current={{ data, style: selectedStyle }}
+          initialVersionId={diffVersionId}
+          onApply={handleApplyDiff}
+          onClose={() => setDiffVersionId(undefined)}
+        />
+      )}
+      <PromptModal
+        isOpen={isPromptModalOpen}
+        jobDescription={jobDescription}
+        onJobDescriptionChange={setJobDescription}
+        onClose={() => setIsPromptModalOpen(false)}
         onGenerate={handleGenerateCV}
       />
     </div>
@@ -839,40 +1235,498 @@ const CVGenerator: React.FC = () => {
 };
 
 // --- HELPER COMPONENTS ---
-const StyleGroup = ({ title, styles, current, set, labels }: any) => (
+const DocumentTabs = ({ current, onChange }: { current: DocumentType; onChange: (type: DocumentType) => void }) => (
+  <div className="no-print flex gap-1 mb-4 bg-white/70 p-1 rounded-lg border border-gray-300 shadow-sm">
+    {(
+      [
+        ["cv", "CV"],
+        ["letter", "List motywacyjny"],
+      ] as [DocumentType, string][]
+    ).map(([type, label]) => (
+      <button
+        key={type}
+        onClick={() => onChange(type)}
+        className={`px-4 py-1.5 text-xs font-bold rounded-md transition-colors ${
+          current === type ? "bg-gray-800 text-white" : "text-gray-600 hover:bg-gray-100"
+        }`}
+      >
+        {label}
+      </button>
+    ))}
+  </div>
+);
+
+// Miniatures render the real template with the current data, scaled down to fit a grid cell
+const THUMBNAIL_SCALE = 0.18;
+const TEMPLATE_INDUSTRIES = Array.from(new Set(CV_TEMPLATES.map((t) => t.industry)));
+const noop = () => {};
+
+const StyleGroup = ({
+  title,
+  templates,
+  current,
+  set,
+  data,
+  image,
+}: {
+  title: string;
+  templates: typeof CV_TEMPLATES;
+  current: CVStyle;
+  set: (style: CVStyle) => void;
+  data: CVData;
+  image: string | null;
+}) => (
   <div>
     <div className="text-[10px] font-bold text-gray-500 mb-1">{title}</div>
     <div className="grid grid-cols-2 gap-2">
-      {styles.map((s: CVStyle, i: number) => (
-        <button
-          key={s}
-          onClick={() => set(s)}
-          className={`p-1.5 text-[10px] font-medium rounded border transition-all ${
-            current === s ? "bg-gray-800 text-white" : "bg-white hover:bg-gray-50"
+      {templates.map((t) => (
+        // A div, not a button: the template inside renders its own (remove) buttons
+        <div
+          key={t.id}
+          onClick={() => set(t.id)}
+          className={`p-1.5 rounded border transition-all flex flex-col items-center gap-1 cursor-pointer ${
+            current === t.id ? "bg-gray-800 text-white" : "bg-white hover:bg-gray-50"
           }`}
         >
-          {labels[i]}
+          <div
+            className="relative overflow-hidden bg-white rounded-sm pointer-events-none select-none"
+            style={{ width: `${210 * THUMBNAIL_SCALE}mm`, height: `${297 * THUMBNAIL_SCALE}mm` }}
+            aria-hidden
+          >
+            <div className="absolute top-0 left-0 origin-top-left" style={{ transform: `scale(${THUMBNAIL_SCALE})` }}>
+              <t.component data={data} image={image} onUpdate={noop} onRemove={noop} thumbnail />
+            </div>
+          </div>
+          <button type="button" className="text-[10px] font-medium">
+            {t.label}
+          </button>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+const JsonDiagnosticsPanel = ({
+  diagnostics,
+  onJump,
+  onFix,
+  onFixAll,
+}: {
+  diagnostics: JsonDiagnostic[];
+  onJump: (diagnostic: JsonDiagnostic) => void;
+  onFix: (diagnostic: JsonDiagnostic) => void;
+  onFixAll: () => void;
+}) => {
+  const fixable = diagnostics.filter((d) => d.fix).length;
+  return (
+    <div className="text-xs bg-red-50 border border-red-200 rounded mb-2 p-2 space-y-1">
+      <div className="flex justify-between items-center gap-2">
+        <span className="font-bold text-red-600">
+          ⚠️ {diagnostics[0].kind === "syntax" ? "Błąd składni JSON" : `Błędy w danych CV (${diagnostics.length})`}
+        </span>
+        {fixable > 1 && (
+          <button onClick={onFixAll} className="text-[10px] font-bold text-blue-600 hover:underline">
+            Napraw wszystko ({fixable})
+          </button>
+        )}
+      </div>
+      <ul className="max-h-32 overflow-y-auto space-y-1 custom-scrollbar">
+        {diagnostics.map((d, i) => (
+          <li key={i} className="flex items-start gap-2">
+            <button
+              onClick={() => onJump(d)}
+              className="font-mono text-[10px] text-red-500 bg-white border border-red-200 rounded px-1 shrink-0 hover:bg-red-100"
+              title="Przejdź do miejsca błędu"
+            >
+              {d.line}:{d.column}
+            </button>
+            <span className="flex-1 text-red-700 break-words">{d.message}</span>
+            {d.fix && (
+              <button onClick={() => onFix(d)} className="text-[10px] font-bold text-blue-600 hover:underline shrink-0">
+                {d.fix.label}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      <p className="text-[10px] text-gray-500 italic">Podgląd pokazuje ostatnią poprawną wersję CV.</p>
+    </div>
+  );
+};
+
+// --- Language variants: switcher above the preview ---
+const LanguageSwitcher = ({
+  data,
+  missingCount,
+  showMissing,
+  onToggleMissing,
+  onSwitch,
+  onRemove,
+}: {
+  data: CVData;
+  missingCount: number;
+  showMissing: boolean;
+  onToggleMissing: () => void;
+  onSwitch: (language: CVLanguage) => void;
+  onRemove: (language: CVLanguage) => void;
+}) => (
+  <div className="no-print flex items-center gap-1 mb-4 bg-white/70 p-1 rounded-lg border border-gray-300 shadow-sm">
+    {CV_LANGUAGES.map((language) => {
+      const isCurrent = language === data.language;
+      const exists = isCurrent || !!data.variants[language];
+      return (
+        <span key={language} className="relative group">
+          <button
+            onClick={() => onSwitch(language)}
+            title={exists ? LANGUAGE_NAMES[language] : `Utwórz wersję: ${LANGUAGE_NAMES[language]}`}
+            className={`px-3 py-1.5 text-xs font-bold rounded-md transition-colors ${
+              isCurrent
+                ? "bg-gray-800 text-white"
+                : exists
+                  ? "text-gray-600 hover:bg-gray-100"
+                  : "text-gray-400 border border-dashed border-gray-300 hover:text-blue-600 hover:border-blue-400"
+            }`}
+          >
+            {exists ? language.toUpperCase() : `+ ${language.toUpperCase()}`}
+          </button>
+          {exists && !isCurrent && (
+            <button
+              onClick={() => onRemove(language)}
+              title="Usuń wersję językową"
+              className="absolute -top-1.5 -right-1.5 hidden group-hover:flex items-center justify-center h-4 w-4 rounded-full bg-red-500 text-white text-[9px]"
+            >
+              ✕
+            </button>
+          )}
+        </span>
+      );
+    })}
+    {missingCount > 0 && (
+      <button
+        onClick={onToggleMissing}
+        title="Pola skopiowane z innej wersji językowej i jeszcze nieprzetłumaczone"
+        className={`ml-1 px-2 py-1.5 text-[10px] font-bold rounded-md transition-colors ${
+          showMissing ? "bg-orange-100 text-orange-700" : "text-gray-500 hover:bg-gray-100"
+        }`}
+      >
+        ⚠ Brak tłumaczenia: {missingCount}
+      </button>
+    )}
+  </div>
+);
+
+// --- Storage usage & cleanup (history lives in IndexedDB) ---
+const KEEP_VERSIONS_ON_CLEANUP = 10;
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const StoragePanel = ({ usage, onCleanup }: { usage: StorageUsage; onCleanup: (keepVersions?: number) => void }) => (
+  <div className="mt-3 p-2 bg-gray-50 rounded border border-gray-200 text-[10px] text-gray-500 space-y-1">
+    <div className="flex justify-between">
+      <span>Wersje: {usage.versions}</span>
+      <span>{formatBytes(usage.versionBytes)}</span>
+    </div>
+    <div className="flex justify-between">
+      <span>
+        Zdjęcia: {usage.images}
+        {usage.unusedImages > 0 && <span className="text-orange-600"> ({usage.unusedImages} nieużywane)</span>}
+      </span>
+      <span>{formatBytes(usage.imageBytes)}</span>
+    </div>
+    {usage.browserUsage !== null && usage.browserQuota !== null && (
+      <div className="flex justify-between">
+        <span>Pamięć przeglądarki</span>
+        <span>
+          {formatBytes(usage.browserUsage)} / {formatBytes(usage.browserQuota)}
+        </span>
+      </div>
+    )}
+    <div className="flex gap-3 pt-1">
+      <button
+        onClick={() => onCleanup()}
+        disabled={usage.unusedImages === 0}
+        className="font-bold text-blue-600 hover:underline disabled:text-gray-300 disabled:no-underline"
+      >
+        Usuń nieużywane zdjęcia
+      </button>
+      {usage.versions > KEEP_VERSIONS_ON_CLEANUP && (
+        <button onClick={() => onCleanup(KEEP_VERSIONS_ON_CLEANUP)} className="font-bold text-red-500 hover:underline">
+          Zostaw {KEEP_VERSIONS_ON_CLEANUP} najnowszych
         </button>
+      )}
+    </div>
+  </div>
+);
+
+// --- Sections: visibility, new entries and the optional extra sections ---
+const BASE_SECTIONS = ["aboutMe", "experience", "education", "skills", "languages", "interests"] as const;
+
+const SectionsPanel = ({
+  data,
+  onToggle,
+  onAdd,
+  onSort,
+  onAddExtra,
+  onRemoveExtra,
+}: {
+  data: CVData;
+  onToggle: (key: SectionKey) => void;
+  onAdd: (path: (string | number)[], index: number) => void;
+  onSort: (list: "experience" | "education") => void;
+  onAddExtra: (kind: ExtraSectionKind) => void;
+  onRemoveExtra: (kind: ExtraSectionKind) => void;
+}) => {
+  const labels = data.labels || DEFAULT_LABELS;
+  const rows = [
+    ...BASE_SECTIONS.map((key) => ({ key, path: [key], count: data[key].length, extra: false })),
+    ...data.extraSections.map((section, idx) => ({
+      key: section.kind,
+      path: ["extraSections", idx, "items"],
+      count: section.items.length,
+      extra: true,
+    })),
+  ];
+  const missingKinds = EXTRA_SECTION_KINDS.filter((kind) => !data.extraSections.some((s) => s.kind === kind));
+
+  return (
+    <div className="mb-6">
+      <h2 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-3">Sekcje</h2>
+      <div className="space-y-1">
+        {rows.map(({ key, path, count, extra }) => (
+          <div key={key} className="flex items-center gap-2 text-xs">
+            <input
+              type="checkbox"
+              checked={!data.hiddenSections.includes(key)}
+              onChange={() => onToggle(key)}
+              title="Pokaż w CV"
+            />
+            <span className="flex-1 truncate text-gray-700">
+              {labels[key]} <span className="text-gray-400">({count})</span>
+            </span>
+            {(key === "experience" || key === "education") && count > 1 && (
+              <button
+                onClick={() => onSort(key)}
+                className="text-[10px] text-gray-500 hover:text-blue-600"
+                title="Sortuj od najnowszych"
+              >
+                ⇅
+              </button>
+            )}
+            <button onClick={() => onAdd(path, count)} className="text-[10px] text-blue-600 hover:underline">
+              + Dodaj
+            </button>
+            {extra && (
+              <button
+                onClick={() => onRemoveExtra(key as ExtraSectionKind)}
+                className="text-[10px] text-red-500 hover:underline"
+                title="Usuń sekcję"
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+      {missingKinds.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-2">
+          {missingKinds.map((kind) => (
+            <button
+              key={kind}
+              onClick={() => onAddExtra(kind)}
+              className="text-[10px] px-2 py-1 border border-dashed border-gray-300 rounded text-gray-500 hover:border-blue-400 hover:text-blue-600"
+            >
+              + {DEFAULT_LABELS[kind]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// --- Timeline: total experience and periods worth a second look ---
+const TimelinePanel = ({ report }: { report: TimelineReport }) => {
+  if (report.months === 0 && report.issues.length === 0) return null;
+  return (
+    <div className="-mt-4 mb-6 p-2 bg-gray-50 rounded border border-gray-200 text-[10px] text-gray-500 space-y-1">
+      <div className="flex justify-between">
+        <span>Łączne doświadczenie</span>
+        <span className="font-bold text-gray-700">{formatTenure(report.months)}</span>
+      </div>
+      {report.issues.map((issue, idx) => (
+        <div
+          key={idx}
+          className={issue.kind === "gap" || issue.kind === "overlap" ? "text-orange-600" : "text-red-600"}
+        >
+          ⚠ {issue.message}
+        </div>
       ))}
     </div>
+  );
+};
+
+// --- GDPR consent clause printed at the end of the CV ---
+const ConsentPanel = ({
+  consent,
+  onChange,
+  onCompanyFromOffer,
+}: {
+  consent: ConsentClause;
+  onChange: (patch: Partial<ConsentClause>) => void;
+  onCompanyFromOffer: () => void;
+}) => (
+  <div className="mb-6">
+    <h2 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-3">Klauzula RODO</h2>
+    <label className="flex items-center gap-2 text-xs text-gray-700 mb-2">
+      <input type="checkbox" checked={consent.enabled} onChange={(e) => onChange({ enabled: e.target.checked })} />
+      Dodaj klauzulę na końcu CV
+    </label>
+    {consent.enabled && (
+      <div className="space-y-2">
+        <select
+          value={consent.kind}
+          onChange={(e) => onChange({ kind: e.target.value as ConsentClause["kind"] })}
+          className="w-full p-1.5 text-xs border border-gray-300 rounded focus:outline-none focus:border-blue-500"
+        >
+          {CONSENT_KINDS.map((kind) => (
+            <option key={kind} value={kind}>
+              {CONSENT_KIND_NAMES[kind]}
+            </option>
+          ))}
+        </select>
+        <div className="flex gap-1">
+          <input
+            type="text"
+            value={consent.company}
+            onChange={(e) => onChange({ company: e.target.value })}
+            placeholder="Nazwa firmy (opcjonalnie)"
+            className="flex-1 min-w-0 p-1.5 text-xs border border-gray-300 rounded focus:outline-none focus:border-blue-500"
+          />
+          <button
+            onClick={onCompanyFromOffer}
+            className="px-2 text-[10px] border border-gray-300 rounded text-gray-600 hover:border-blue-400 hover:text-blue-600"
+            title="Pobierz nazwę firmy z ogłoszenia"
+          >
+            Z oferty
+          </button>
+        </div>
+        {consent.kind === "custom" && (
+          <textarea
+            value={consent.text}
+            onChange={(e) => onChange({ text: e.target.value })}
+            rows={4}
+            placeholder={`Treść klauzuli; ${COMPANY_PLACEHOLDER} zostanie zastąpione nazwą firmy`}
+            className="w-full p-1.5 text-[10px] border border-gray-300 rounded focus:outline-none focus:border-blue-500"
+          />
+        )}
+      </div>
+    )}
   </div>
 );
 
+const ATSPanel = ({
+  report,
+  highlight,
+  onHighlightChange,
+  onEditOffer,
+}: {
+  report: ATSReport | null;
+  highlight: boolean;
+  onHighlightChange: (value: boolean) => void;
+  onEditOffer: () => void;
+}) => {
+  const matched = report?.keywords.filter((k) => k.matched) || [];
+  const missing = report?.keywords.filter((k) => !k.matched) || [];
+  const scoreColor = !report
+    ? "bg-gray-300"
+    : report.score >= 70
+      ? "bg-green-500"
+      : report.score >= 40
+        ? "bg-yellow-500"
+        : "bg-red-500";
+
+  return (
+    <div className="mb-6">
+      <div className="flex justify-between items-center mb-3">
+        <h2 className="text-xs font-bold text-gray-400 uppercase tracking-wider">Dopasowanie do oferty (ATS)</h2>
+        <button onClick={onEditOffer} className="text-[10px] text-blue-500 hover:underline">
+          {report ? "Edytuj ofertę" : "Wklej ofertę"}
+        </button>
+      </div>
+      {!report ? (
+        <p className="text-xs text-gray-400 italic">Wklej opis oferty pracy, aby sprawdzić słowa kluczowe w CV.</p>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex items-center gap-3">
+            <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+              <div className={`h-full ${scoreColor} transition-all`} style={{ width: `${report.score}%` }} />
+            </div>
+            <span className="text-sm font-bold text-gray-700 w-10 text-right">{report.score}%</span>
+          </div>
+          {matched.length > 0 && (
+            <div>
+              <div className="text-[10px] font-bold text-gray-500 mb-1">ZNALEZIONE ({matched.length})</div>
+              <div className="flex flex-wrap gap-1">
+                {matched.map((k) => (
+                  <span
+                    key={k.stem}
+                    className="text-[10px] px-1.5 py-0.5 rounded bg-green-50 text-green-700 border border-green-200"
+                    title={k.sections.map((s) => CV_SECTION_LABELS[s]).join(", ")}
+                  >
+                    {k.term}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+          {missing.length > 0 && (
+            <div>
+              <div className="text-[10px] font-bold text-gray-500 mb-1">BRAKUJĄCE ({missing.length})</div>
+              <div className="flex flex-wrap gap-1">
+                {missing.map((k) => (
+                  <span
+                    key={k.stem}
+                    className="text-[10px] px-1.5 py-0.5 rounded bg-red-50 text-red-600 border border-red-200"
+                  >
+                    {k.term}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            <input type="checkbox" checked={highlight} onChange={(e) => onHighlightChange(e.target.checked)} />
+            Podświetl znalezione słowa w podglądzie
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const SettingsField = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <label className="block">
+    <span className="text-[10px] font-bold text-gray-500 mb-1 block">{label}</span>
+    {children}
+  </label>
+);
+
 const PromptModal = ({
   isOpen,
+  jobDescription,
+  onJobDescriptionChange,
   onClose,
   onGenerate,
 }: {
   isOpen: boolean;
+  jobDescription: string;
+  onJobDescriptionChange: (value: string) => void;
   onClose: () => void;
-  onGenerate: (prompt: string) => void;
+  onGenerate: (prompt: string, settings: AISettings) => void;
 }) => {
-  const [jobDescription, setJobDescription] = useState(() => {
-    if (typeof window !== "undefined") {
-      return localStorage.getItem("prompt_jobDescription") || "";
-    }
-    return "";
-  });
+  const [aiSettings, setAISettings] = useState<AISettings>(loadAISettings);
+  const updateAISettings = (patch: Partial<AISettings>) => setAISettings((prev) => ({ ...prev, ...patch }));
 
   const [userInformation, setUserInformation] = useState(() => {
     if (typeof window !== "undefined") {
@@ -881,14 +1735,14 @@ const PromptModal = ({
     return "";
   });
 
-  useEffect(() => {
-    localStorage.setItem("prompt_jobDescription", jobDescription);
-  }, [jobDescription]);
-
   useEffect(() => {
     localStorage.setItem("prompt_userInformation", userInformation);
   }, [userInformation]);
 
+  useEffect(() => {
+    saveAISettings(aiSettings);
+  }, [aiSettings]);
+
   if (!isOpen) return null;
 
   const finalPrompt = `
@@ -929,7 +1783,7 @@ ${userInformation}
               className="w-full h-32 p-3 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none resize-none"
               placeholder="Wklej treść ogłoszenia o pracę..."
               value={jobDescription}
-              onChange={(e) => setJobDescription(e.target.value)}
+              onChange={(e) => onJobDescriptionChange(e.target.value)}
             />
           </div>
 
@@ -942,6 +1796,84 @@ ${userInformation}
               onChange={(e) => setUserInformation(e.target.value)}
             />
           </div>
+
+          <details className="border border-gray-200 rounded-lg">
+            <summary className="px-3 py-2 text-xs font-bold text-gray-500 uppercase cursor-pointer select-none">
+              Ustawienia AI: {AI_PROVIDER_LABELS[aiSettings.provider]}
+            </summary>
+            <div className="p-3 pt-1 space-y-3 text-sm">
+              <select
+                value={aiSettings.provider}
+                onChange={(e) => updateAISettings({ provider: e.target.value as AISettings["provider"] })}
+                className="w-full p-2 border border-gray-300 rounded focus:outline-none focus:border-blue-500"
+              >
+                {Object.entries(AI_PROVIDER_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              {aiSettings.provider === "endpoint" && (
+                <SettingsField label="Adres endpointu">
+                  <input
+                    value={aiSettings.endpointUrl}
+                    onChange={(e) => updateAISettings({ endpointUrl: e.target.value })}
+                    className="w-full p-2 text-xs border border-gray-300 rounded focus:outline-none focus:border-blue-500"
+                  />
+                </SettingsField>
+              )}
+              {aiSettings.provider === "openai" && (
+                <>
+                  <SettingsField label="Adres API (base URL)">
+                    <input
+                      value={aiSettings.openaiBaseUrl}
+                      onChange={(e) => updateAISettings({ openaiBaseUrl: e.target.value })}
+                      className="w-full p-2 text-xs border border-gray-300 rounded focus:outline-none focus:border-blue-500"
+                    />
+                  </SettingsField>
+                  <div className="grid grid-cols-2 gap-3">
+                    <SettingsField label="Klucz API">
+                      <input
+                        type="password"
+                        value={aiSettings.openaiApiKey}
+                        onChange={(e) => updateAISettings({ openaiApiKey: e.target.value })}
+                        className="w-full p-2 text-xs border border-gray-300 rounded focus:outline-none focus:border-blue-500"
+                      />
+                    </SettingsField>
+                    <SettingsField label="Model">
+                      <input
+                        value={aiSettings.openaiModel}
+                        onChange={(e) => updateAISettings({ openaiModel: e.target.value })}
+                        className="w-full p-2 text-xs border border-gray-300 rounded focus:outline-none focus:border-blue-500"
+                      />
+                    </SettingsField>
+                  </div>
+                  <p className="text-[10px] text-gray-400">Klucz jest zapisywany tylko w tej przeglądarce.</p>
+                </>
+              )}
+              <div className="grid grid-cols-2 gap-3">
+                <SettingsField label="Limit czasu (s)">
+                  <input
+                    type="number"
+                    min={5}
+                    value={aiSettings.timeoutSeconds}
+                    onChange={(e) => updateAISettings({ timeoutSeconds: Math.max(5, Number(e.target.value)) })}
+                    className="w-full p-2 text-xs border border-gray-300 rounded focus:outline-none focus:border-blue-500"
+                  />
+                </SettingsField>
+                <SettingsField label="Ponowienia">
+                  <input
+                    type="number"
+                    min={0}
+                    max={5}
+                    value={aiSettings.maxRetries}
+                    onChange={(e) => updateAISettings({ maxRetries: Math.min(5, Math.max(0, Number(e.target.value))) })}
+                    className="w-full p-2 text-xs border border-gray-300 rounded focus:outline-none focus:border-blue-500"
+                  />
+                </SettingsField>
+              </div>
+            </div>
+          </details>
         </div>
 
         <div className="p-4 border-t bg-gray-50 flex justify-end gap-3">
@@ -953,7 +1885,7 @@ ${userInformation}
           </button>
 
           <button
-            onClick={() => onGenerate(finalPrompt)}
+            onClick={() => onGenerate(finalPrompt, aiSettings)}
             disabled={!jobDescription || !userInformation}
             className="px-4 py-2 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 text-white text-sm font-bold rounded-lg shadow-md transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
           >
@@ -965,465 +1897,6 @@ ${userInformation}
   );
 };
 
-// --- TEMPLATE RENDERER ---
-const TemplateRenderer = ({
-  style,
-  data,
-  image,
-  onUpdate,
-  onRemove,
-}: {
-  style: CVStyle;
-  data: CVData;
-  image: string | null;
-  onUpdate: (path: (string | number)[], val: string) => void;
-  onRemove: (path: (string | number)[], index: number) => void;
-}) => {
-  const wrapperId = "printable-cv";
-  const commonStyles = { width: "210mm", minHeight: "297mm", boxSizing: "border-box" as const };
-  const baseClass =
-    "bg-white text-[#1f2937] shadow-2xl mx-auto rounded-none lg:rounded-md transition-all duration-300 overflow-hidden";
-  const labels = data.labels || {
-    experience: "Doświadczenie",
-    education: "Edukacja",
-    skills: "Umiejętności",
-    languages: "Języki",
-    interests: "Zainteresowania",
-    aboutMe: "O mnie",
-  };
-
-  // --- ECOMMERCE 1: Scale (Clean, Metric Focused) ---
-  if (style === "ecommerce-1") {
-    return (
-      <div id={wrapperId} className={baseClass} style={{ ...commonStyles, padding: "40px" }}>
-        <header className="border-b-2 border-black pb-6 mb-8 flex justify-between items-center">
-          <div className="flex-1">
-            <Editable
-              tag="h1"
-              className="text-5xl font-black uppercase tracking-tight leading-none mb-2"
-              value={data.fullName}
-              onUpdate={(v) => onUpdate(["fullName"], v)}
-            />
-            <Editable
-              tag="p"
-              className="text-xl font-medium text-gray-600"
-              value={data.title}
-              onUpdate={(v) => onUpdate(["title"], v)}
-            />
-          </div>
-          <div className="text-right text-sm font-medium text-gray-800 space-y-1">
-            <Editable
-              className="block"
-              value={data.contact.email}
-              onUpdate={(v) => onUpdate(["contact", "email"], v)}
-            />
-            <Editable
-              className="block"
-              value={data.contact.phone}
-              onUpdate={(v) => onUpdate(["contact", "phone"], v)}
-            />
-            <Editable
-              className="block"
-              value={data.contact.location}
-              onUpdate={(v) => onUpdate(["contact", "location"], v)}
-            />
-          </div>
-          {image && <img src={image} alt="Profile" className="w-24 h-24 object-cover border-2 border-black ml-6" />}
-        </header>
-        <section className="mb-8">
-          <Editable
-            tag="h3"
-            className="text-sm font-bold bg-black text-white inline-block px-2 py-1 mb-3 uppercase"
-            value={labels.aboutMe}
-            onUpdate={(v) => onUpdate(["labels", "aboutMe"], v)}
-          />
-          <ol className="list-decimal list-outside ml-5 text-gray-800 text-sm leading-relaxed font-light space-y-2">
-            {data.aboutMe.map((item, idx) => (
-              <Removable key={item.id} onRemove={() => onRemove(["aboutMe"], idx)} className="pl-2">
-                <li className="pl-1">
-                  <span className="font-bold mr-1">
-                    <Editable value={item.main} onUpdate={(v) => onUpdate(["aboutMe", idx, "main"], v)} />
-                  </span>
-                  <span className="block md:inline">
-                    <Editable value={item.text} onUpdate={(v) => onUpdate(["aboutMe", idx, "text"], v)} />
-                  </span>
-                </li>
-              </Removable>
-            ))}
-          </ol>
-        </section>
-        <div className="grid grid-cols-12 gap-8">
-          <div className="col-span-8">
-            <section className="mb-8">
-              <Editable
-                tag="h3"
-                className="text-sm font-bold bg-black text-white inline-block px-2 py-1 mb-4 uppercase"
-                value={labels.experience}
-                onUpdate={(v) => onUpdate(["labels", "experience"], v)}
-              />
-              <div className="space-y-8">
-                {data.experience.map((exp, idx) => (
-                  <Removable key={exp.id} onRemove={() => onRemove(["experience"], idx)}>
-                    <div>
-                      <div className="flex justify-between items-baseline border-b border-gray-200 pb-1 mb-2">
-                        <Editable
-                          tag="h4"
-                          className="text-xl font-bold"
-                          value={exp.role}
-                          onUpdate={(v) => onUpdate(["experience", idx, "role"], v)}
-                        />
-                        <Editable
-                          tag="span"
-                          className="text-sm font-bold"
-                          value={exp.duration}
-                          onUpdate={(v) => onUpdate(["experience", idx, "duration"], v)}
-                        />
-                      </div>
-                      <Editable
-                        className="text-sm font-bold text-gray-500 uppercase tracking-widest mb-2 block"
-                        value={exp.company}
-                        onUpdate={(v) => onUpdate(["experience", idx, "company"], v)}
-                      />
-                      <ul className="list-disc list-outside ml-4 text-gray-700 space-y-1">
-                        {exp.description.map((desc, i) => (
-                          <Removable key={i} onRemove={() => onRemove(["experience", idx, "description"], i)}>
-                            <li>
-                              <Editable
-                                value={desc}
-                                onUpdate={(v) => onUpdate(["experience", idx, "description", i], v)}
-                              />
-                            </li>
-                          </Removable>
-                        ))}
-                      </ul>
-                    </div>
-                  </Removable>
-                ))}
-              </div>
-            </section>
-          </div>
-          <div className="col-span-4 space-y-8">
-            <section>
-              <Editable
-                tag="h3"
-                className="text-sm font-bold bg-black text-white inline-block px-2 py-1 mb-4 uppercase"
-                value={labels.skills}
-                onUpdate={(v) => onUpdate(["labels", "skills"], v)}
-              />
-              <div className="flex flex-wrap gap-2 text-sm text-gray-600">
-                {data.skills.map((skill, idx) => (
-                  <Removable key={idx} onRemove={() => onRemove(["skills"], idx)}>
-                    <span className="bg-gray-100 px-2 py-1 rounded border border-gray-200 inline-block">
-                      <Editable value={skill} onUpdate={(v) => onUpdate(["skills", idx], v)} />
-                    </span>
-                  </Removable>
-                ))}
-              </div>
-            </section>
-            <section>
-              <Editable
-                tag="h3"
-                className="text-sm font-bold bg-black text-white inline-block px-2 py-1 mb-4 uppercase"
-                value={labels.languages}
-                onUpdate={(v) => onUpdate(["labels", "languages"], v)}
-              />
-              <div className="space-y-2">
-                {data.languages.map((lang, idx) => (
-                  <Removable key={idx} onRemove={() => onRemove(["languages"], idx)}>
-                    <div className="flex justify-between items-center text-sm border-b border-gray-100 pb-1">
-                      <Editable
-                        className="font-bold"
-                        value={lang.language}
-                        onUpdate={(v) => onUpdate(["languages", idx, "language"], v)}
-                      />
-                      <Editable
-                        className="text-gray-500 italic"
-                        value={lang.proficiency}
-                        onUpdate={(v) => onUpdate(["languages", idx, "proficiency"], v)}
-                      />
-                    </div>
-                  </Removable>
-                ))}
-              </div>
-            </section>
-            {/* Added Interests Section */}
-            <section>
-              <Editable
-                tag="h3"
-                className="text-sm font-bold bg-black text-white inline-block px-2 py-1 mb-4 uppercase"
-                value={labels.interests}
-                onUpdate={(v) => onUpdate(["labels", "interests"], v)}
-              />
-              <div className="flex flex-wrap gap-x-2 gap-y-1 text-sm text-gray-600">
-                {data.interests.map((interest, idx) => (
-                  <Removable key={idx} onRemove={() => onRemove(["interests"], idx)} className="inline-block">
-                    <span className="after:content-[','] last:after:content-['']">
-                      <Editable value={interest} onUpdate={(v) => onUpdate(["interests", idx], v)} />
-                    </span>
-                  </Removable>
-                ))}
-              </div>
-            </section>
-            <section>
-              <Editable
-                tag="h3"
-                className="text-sm font-bold bg-black text-white inline-block px-2 py-1 mb-4 uppercase"
-                value={labels.education}
-                onUpdate={(v) => onUpdate(["labels", "education"], v)}
-              />
-              {data.education.map((edu, idx) => (
-                <Removable key={edu.id} onRemove={() => onRemove(["education"], idx)} className="mb-3">
-                  <div>
-                    <Editable
-                      className="font-bold block"
-                      value={edu.school}
-                      onUpdate={(v) => onUpdate(["education", idx, "school"], v)}
-                    />
-                    <Editable
-                      className="text-sm text-gray-600 block"
-                      value={edu.degree}
-                      onUpdate={(v) => onUpdate(["education", idx, "degree"], v)}
-                    />
-                    <Editable
-                      className="text-xs text-gray-400 block"
-                      value={edu.year}
-                      onUpdate={(v) => onUpdate(["education", idx, "year"], v)}
-                    />
-                  </div>
-                </Removable>
-              ))}
-            </section>
-          </div>
-        </div>
-      </div>
-    );
-  }
-
-  // --- ECOMMERCE 2: Brand (Creative Sidebar) ---
-  if (style === "ecommerce-2") {
-    return (
-      <div id={wrapperId} className={baseClass} style={{ ...commonStyles, display: "flex" }}>
-        {/* Sidebar */}
-        <div className="w-[30%] bg-gray-900 text-white p-8 flex flex-col gap-8">
-          <div className="text-center">
-            {image && (
-              <img
-                src={image}
-                alt="Profile"
-                className="w-32 h-32 rounded-full object-cover mx-auto mb-4 border-4 border-gray-700"
-              />
-            )}
-            <div className="text-sm space-y-2 opacity-90">
-              <Editable
-                value={data.contact.email}
-                onUpdate={(v) => onUpdate(["contact", "email"], v)}
-                className="block"
-              />
-              <Editable
-                value={data.contact.phone}
-                onUpdate={(v) => onUpdate(["contact", "phone"], v)}
-                className="block"
-              />
-              <Editable
-                value={data.contact.location}
-                onUpdate={(v) => onUpdate(["contact", "location"], v)}
-                className="block"
-              />
-            </div>
-          </div>
-
-          {/* Skills Section (Simplified) */}
-          <div>
-            <Editable
-              tag="h3"
-              className="text-xs font-bold uppercase tracking-widest text-gray-400 mb-4 border-b border-gray-700 pb-1"
-              value={labels.skills}
-              onUpdate={(v) => onUpdate(["labels", "skills"], v)}
-            />
-            <div className="flex flex-wrap gap-2">
-              {data.skills.map((skill, idx) => (
-                <Removable key={idx} onRemove={() => onRemove(["skills"], idx)}>
-                  <span className="text-xs bg-gray-800 px-2 py-1 rounded text-gray-300 inline-block">
-                    <Editable value={skill} onUpdate={(v) => onUpdate(["skills", idx], v)} />
-                  </span>
-                </Removable>
-              ))}
-            </div>
-          </div>
-
-          {/* Languages Section */}
-          <div>
-            <Editable
-              tag="h3"
-              className="text-xs font-bold uppercase tracking-widest text-gray-400 mb-4 border-b border-gray-700 pb-1"
-              value={labels.languages}
-              onUpdate={(v) => onUpdate(["labels", "languages"], v)}
-            />
-            <div className="space-y-2">
-              {data.languages.map((lang, idx) => (
-                <Removable key={idx} onRemove={() => onRemove(["languages"], idx)}>
-                  <div className="flex justify-between items-center text-sm">
-                    <Editable
-                      className="font-bold text-white"
-                      value={lang.language}
-                      onUpdate={(v) => onUpdate(["languages", idx, "language"], v)}
-                    />
-                    <Editable
-                      className="text-gray-400 italic text-xs"
-                      value={lang.proficiency}
-                      onUpdate={(v) => onUpdate(["languages", idx, "proficiency"], v)}
-                    />
-                  </div>
-                </Removable>
-              ))}
-            </div>
-          </div>
-
-          {/* Added Interests Section */}
-          <div>
-            <Editable
-              tag="h3"
-              className="text-xs font-bold uppercase tracking-widest text-gray-400 mb-4 border-b border-gray-700 pb-1"
-              value={labels.interests}
-              onUpdate={(v) => onUpdate(["labels", "interests"], v)}
-            />
-            <div className="flex flex-wrap gap-2">
-              {data.interests.map((interest, idx) => (
-                <Removable key={idx} onRemove={() => onRemove(["interests"], idx)}>
-                  <span className="text-xs bg-gray-800 px-2 py-1 rounded text-gray-300 inline-block border border-gray-700">
-                    <Editable value={interest} onUpdate={(v) => onUpdate(["interests", idx], v)} />
-                  </span>
-                </Removable>
-              ))}
-            </div>
-          </div>
-
-          {/* Education Section */}
-          <div>
-            <Editable
-              tag="h3"
-              className="text-xs font-bold uppercase tracking-widest text-gray-400 mb-4 border-b border-gray-700 pb-1"
-              value={labels.education}
-              onUpdate={(v) => onUpdate(["labels", "education"], v)}
-            />
-            {data.education.map((edu, idx) => (
-              <Removable key={idx} onRemove={() => onRemove(["education"], idx)} className="mb-4 text-sm">
-                <div>
-                  <Editable
-                    className="font-bold block text-white"
-                    value={edu.school}
-                    onUpdate={(v) => onUpdate(["education", idx, "school"], v)}
-                  />
-                  <Editable
-                    className="text-gray-400 block"
-                    value={edu.degree}
-                    onUpdate={(v) => onUpdate(["education", idx, "degree"], v)}
-                  />
-                  <Editable
-                    className="text-xs text-gray-500 block"
-                    value={edu.year}
-                    onUpdate={(v) => onUpdate(["education", idx, "year"], v)}
-                  />
-                </div>
-              </Removable>
-            ))}
-          </div>
-        </div>
-
-        {/* Main Content */}
-        <div className="flex-1 p-10 bg-white">
-          <header className="mb-10 border-b-2 border-gray-100 pb-8">
-            <Editable
-              tag="h1"
-              className="text-5xl font-bold text-gray-900 leading-tight mb-2"
-              value={data.fullName}
-              onUpdate={(v) => onUpdate(["fullName"], v)}
-            />
-            <Editable
-              tag="p"
-              className="text-2xl text-blue-600 font-light"
-              value={data.title}
-              onUpdate={(v) => onUpdate(["title"], v)}
-            />
-          </header>
-          <section className="mb-10">
-            <Editable
-              tag="h3"
-              className="text-sm font-bold uppercase tracking-widest text-gray-400 mb-4"
-              value={labels.aboutMe}
-              onUpdate={(v) => onUpdate(["labels", "aboutMe"], v)}
-            />
-            <div className="space-y-4">
-              {data.aboutMe.map((item, idx) => (
-                <Removable key={item.id} onRemove={() => onRemove(["aboutMe"], idx)}>
-                  <div>
-                    <p className="font-bold text-gray-900 text-sm mb-1">
-                      <Editable value={item.main} onUpdate={(v) => onUpdate(["aboutMe", idx, "main"], v)} />
-                    </p>
-                    <p className="text-gray-600 text-sm leading-relaxed">
-                      <Editable value={item.text} onUpdate={(v) => onUpdate(["aboutMe", idx, "text"], v)} />
-                    </p>
-                  </div>
-                </Removable>
-              ))}
-            </div>
-          </section>
-          <section>
-            <Editable
-              tag="h3"
-              className="text-sm font-bold uppercase tracking-widest text-gray-400 mb-6"
-              value={labels.experience}
-              onUpdate={(v) => onUpdate(["labels", "experience"], v)}
-            />
-            <div className="space-y-8">
-              {data.experience.map((exp, idx) => (
-                <Removable key={exp.id} onRemove={() => onRemove(["experience"], idx)}>
-                  <div className="relative pl-6 border-l-2 border-gray-100">
-                    <div className="absolute -left-[9px] top-0 w-4 h-4 rounded-full bg-blue-50 border-2 border-blue-500"></div>
-                    <div className="flex justify-between items-baseline mb-1">
-                      <Editable
-                        tag="h4"
-                        className="text-lg font-bold text-gray-900"
-                        value={exp.role}
-                        onUpdate={(v) => onUpdate(["experience", idx, "role"], v)}
-                      />
-                      <Editable
-                        tag="span"
-                        className="text-xs font-bold text-blue-600 bg-blue-50 px-2 py-1 rounded"
-                        value={exp.duration}
-                        onUpdate={(v) => onUpdate(["experience", idx, "duration"], v)}
-                      />
-                    </div>
-                    <Editable
-                      className="text-sm font-semibold text-gray-500 mb-3 block"
-                      value={exp.company}
-                      onUpdate={(v) => onUpdate(["experience", idx, "company"], v)}
-                    />
-                    <ul className="list-disc list-outside ml-4 text-sm text-gray-600 space-y-1">
-                      {exp.description.map((desc, i) => (
-                        <Removable key={i} onRemove={() => onRemove(["experience", idx, "description"], i)}>
-                          <li>
-                            <Editable
-                              value={desc}
-                              onUpdate={(v) => onUpdate(["experience", idx, "description", i], v)}
-                            />
-                          </li>
-                        </Removable>
-                      ))}
-                    </ul>
-                  </div>
-                </Removable>
-              ))}
-            </div>
-          </section>
-        </div>
-      </div>
-    );
-  }
-
-  return null;
-};
-
 // --- Icons ---
 const DownloadIcon = () => (
   <svg
@@ -0,0 +1,71 @@
+import type { CVData, CVLanguage, ConsentKind } from "./CVSchema";
+
+// --- GDPR processing consent ("klauzula RODO") ---
+// Polish employers expect it at the foot of every CV. The standard wordings follow
+// the CV language; the company name is interpolated when known, otherwise the
+// clause stays generic. A custom text may use {firma} for the same name.
+
+// --- Constants ---
+export const CONSENT_KIND_NAMES: Record<ConsentKind, string> = {
+  current: "Bieżąca rekrutacja",
+  future: "Bieżąca i przyszłe rekrutacje",
+  custom: "Własna treść",
+};
+
+export const COMPANY_PLACEHOLDER = "{firma}";
+
+const STANDARD_CLAUSES: Record<
+  CVLanguage,
+  { current: (company: string) => string; future: (company: string) => string }
+> = {
+  pl: {
+    current: (company) =>
+      `Wyrażam zgodę na przetwarzanie moich danych osobowych${company ? ` przez ${company}` : ""} dla potrzeb niezbędnych do realizacji procesu rekrutacji zgodnie z Rozporządzeniem Parlamentu Europejskiego i Rady (UE) 2016/679 z dnia 27 kwietnia 2016 r. w sprawie ochrony osób fizycznych w związku z przetwarzaniem danych osobowych i w sprawie swobodnego przepływu takich danych oraz uchylenia dyrektywy 95/46/WE (RODO).`,
+    future: (company) =>
+      `Wyrażam również zgodę na przetwarzanie moich danych osobowych${company ? ` przez ${company}` : ""} w celu prowadzenia przyszłych procesów rekrutacyjnych.`,
+  },
+  en: {
+    current: (company) =>
+      `I hereby consent to the processing of my personal data${company ? ` by ${company}` : ""} for the purposes of the recruitment process, in accordance with Regulation (EU) 2016/679 of the European Parliament and of the Council of 27 April 2016 (GDPR).`,
+    future: (company) =>
+      `I also consent to the processing of my personal data${company ? ` by ${company}` : ""} for the purposes of future recruitment processes.`,
+  },
+  de: {
+    current: (company) =>
+      `Ich willige ein, dass meine personenbezogenen Daten${company ? ` von ${company}` : ""} für die Zwecke des Bewerbungsverfahrens gemäß der Verordnung (EU) 2016/679 des Europäischen Parlaments und des Rates vom 27. April 2016 (DSGVO) verarbeitet werden.`,
+    future: (company) =>
+      `Ich willige außerdem ein, dass meine personenbezogenen Daten${company ? ` von ${company}` : ""} für künftige Bewerbungsverfahren verarbeitet werden.`,
+  },
+};
+
+// Clauses users pasted into other sections before the dedicated block existed
+const CLAUSE_PATTERN =
+  /przetwarzanie moich danych osobowych|processing of my personal data|verarbeitung meiner personenbezogenen daten|meine personenbezogenen daten/i;
+
+// --- Main: Text printed under the CV ("" when the clause is switched off) ---
+export const consentText = (data: CVData) => {
+  const { enabled, kind, company, text } = data.consent;
+  if (!enabled) return "";
+  const name = company.trim();
+  if (kind === "custom") return text.split(COMPANY_PLACEHOLDER).join(name).trim();
+  const clauses = STANDARD_CLAUSES[data.language];
+  return kind === "future" ? `${clauses.current(name)} ${clauses.future(name)}` : clauses.current(name);
+};
+
+export const looksLikeConsentClause = (text: string) => CLAUSE_PATTERN.test(text);
+
+// --- Company name from the job offer ---
+// A labelled line ("Firma: ACME") wins; otherwise the first name with a legal form
+const LABELLED_COMPANY = /^\s*(?:firma|pracodawca|company|employer|unternehmen|arbeitgeber)\s*[:–-]\s*(.+)$/imu;
+const COMPANY_WITH_LEGAL_FORM =
+  /((?:[\p{Lu}\d][\p{L}\d&'.-]*\s+){1,4})(sp\.\s?z\s?o\.\s?o\.|S\.A\.|sp\.\s?[jk]\.|GmbH|AG|Ltd\.?|Inc\.?|LLC)(?![\p{L}])/u;
+// Capitalised words that only start the sentence ("W ACME S.A. ...", "Die ACME GmbH ...")
+const LEADING_WORDS = /^(?:(?:W|We|Dla|Do|Firma|Spółka|The|At|Join|Die|Der|Bei)\s+)+/u;
+
+export const findCompanyName = (offer: string) => {
+  const labelled = offer.match(LABELLED_COMPANY)?.[1].trim();
+  if (labelled) return labelled.slice(0, 80);
+  const match = offer.match(COMPANY_WITH_LEGAL_FORM);
+  if (!match) return "";
+  return `${match[1].replace(LEADING_WORDS, "").trim()} ${match[2]}`.trim();
+};
@@ -0,0 +1,211 @@
+import type { Education, Experience } from "./CVSchema";
+
+// --- Structured dates for experience and education ---
+// Entries keep `start` / `end` as "YYYY-MM" ("YYYY" when only the year is known);
+// `end` may also be "present". The free-text `duration` / `year` stays as a fallback
+// for text the parser does not understand ("semestr letni 2019"), shown verbatim.
+
+// --- Types ---
+export type DateLocale = "pl" | "en" | "de";
+export type PeriodFormat = "short" | "long" | "numeric" | "iso"; // mar 2021 | marzec 2021 | 03.2021 | 2021-03
+
+export interface DatedEntry {
+  start: string;
+  end: string;
+}
+
+export interface TimelineIssue {
+  kind: "overlap" | "gap" | "order" | "undated";
+  message: string;
+}
+
+export interface TimelineReport {
+  months: number; // Total experience, overlapping periods counted once
+  issues: TimelineIssue[];
+}
+
+// --- Constants ---
+export const PRESENT = "present";
+const MIN_GAP_MONTHS = 3;
+const MIN_OVERLAP_MONTHS = 2; // Ending and starting in the same month is a switch, not an overlap
+
+const INTL_LOCALES: Record<DateLocale, string> = { pl: "pl-PL", en: "en-GB", de: "de-DE" };
+const PRESENT_LABELS: Record<DateLocale, string> = { pl: "obecnie", en: "present", de: "heute" };
+
+const PRESENT_PATTERN =
+  /^(obecnie|teraz|nadal|do dzi[sś]|dzi[sś]|present|now|current(ly)?|today|ongoing|heute|bis heute|aktuell|derzeit)$/i;
+const RANGE_SEPARATORS = [/\s*[–—]\s*|\s+-\s+|\s+(?:do|to|until|bis)\s+/i, /(?<=\d{4})\s*[-/]\s*/];
+// "od 2019", "since 2019": an open period, the end is "present" unless given
+const SINCE_PREFIX = /^(?:od|since|from|seit|ab)\s+/i;
+
+// Polish, English and German month names, matched by their first letters
+// prettier-ignore
+const MONTH_PREFIXES = [
+  ["sty", "jan", "jän"], ["lut", "feb"], ["mar", "mär"], ["kwi", "apr"], ["maj", "may", "mai"], ["cze", "jun"],
+  ["lip", "jul"], ["sie", "aug"], ["wrz", "sep"], ["paź", "paz", "oct", "okt"], ["lis", "nov"], ["gru", "dec", "dez"],
+];
+
+// --- Helper: Parsing ---
+const toMonth = (year: number, month?: number) => {
+  if (year < 1900 || year > 2100) return null;
+  if (month === undefined) return String(year);
+  if (month < 1 || month > 12) return null;
+  return `${year}-${String(month).padStart(2, "0")}`;
+};
+
+// "03.2021", "2021-03", "mar 2021", "marca 2021", "2021", "obecnie" -> "2021-03" / "2021" / "present"
+export const parseMonth = (text: string): string | null => {
+  const value = text.trim().toLowerCase().replace(/\.$/, "");
+  if (PRESENT_PATTERN.test(value)) return PRESENT;
+
+  let match = value.match(/^(\d{4})$/);
+  if (match) return toMonth(Number(match[1]));
+  match = value.match(/^(\d{4})[-./](\d{1,2})$/);
+  if (match) return toMonth(Number(match[1]), Number(match[2]));
+  match = value.match(/^(\d{1,2})[-./](\d{4})$/);
+  if (match) return toMonth(Number(match[2]), Number(match[1]));
+  match = value.match(/^(\p{L}{3,})\.?\s+(\d{4})$/u);
+  if (match) {
+    const month = MONTH_PREFIXES.findIndex((prefixes) => prefixes.some((p) => match![1].startsWith(p)));
+    return month >= 0 ? toMonth(Number(match[2]), month + 1) : null;
+  }
+  return null;
+};
+
+// "2018 - 2021", "03.2019 – obecnie", "2018/2019", "od 2019", "2020" -> { start, end }; null if not understood
+export const parsePeriod = (text: string): DatedEntry | null => {
+  const since = SINCE_PREFIX.test(text.trim());
+  const value = text.trim().replace(SINCE_PREFIX, "");
+  if (!value) return null;
+  for (const separator of RANGE_SEPARATORS) {
+    const parts = value.split(separator);
+    if (parts.length !== 2) continue;
+    const start = parseMonth(parts[0]);
+    const end = parseMonth(parts[1]);
+    if (start && end && start !== PRESENT) return { start, end };
+  }
+  const single = parseMonth(value);
+  if (!single || single === PRESENT) return null;
+  return { start: single, end: since ? PRESENT : single };
+};
+
+// --- Helper: Comparison ---
+// Months since year 0; a bare year covers January (as start) to December (as end)
+const monthIndex = (value: string, edge: "start" | "end", now: number) => {
+  if (value === PRESENT) return now;
+  const [year, month] = value.split("-").map(Number);
+  if (!year) return null;
+  return year * 12 + (month ? month - 1 : edge === "start" ? 0 : 11);
+};
+
+const isYearOnly = (value: string) => /^\d{4}$/.test(value);
+
+const currentMonthIndex = (now: Date) => now.getFullYear() * 12 + now.getMonth();
+
+const interval = (entry: DatedEntry, now: number) => {
+  const start = entry.start ? monthIndex(entry.start, "start", now) : null;
+  const end = monthIndex(entry.end || entry.start, "end", now);
+  return start === null || end === null ? null : { start, end };
+};
+
+// --- Formatting ---
+export const formatMonth = (value: string, locale: DateLocale = "pl", format: PeriodFormat = "short") => {
+  if (value === PRESENT) return PRESENT_LABELS[locale];
+  const [year, month] = value.split("-");
+  if (!month || format === "iso") return value;
+  if (format === "numeric") return locale === "en" ? `${month}/${year}` : `${month}.${year}`;
+  return new Intl.DateTimeFormat(INTL_LOCALES[locale], { month: format, year: "numeric" }).format(
+    new Date(Number(year), Number(month) - 1, 1),
+  );
+};
+
+export const formatPeriod = (entry: DatedEntry, locale: DateLocale = "pl", format: PeriodFormat = "short") => {
+  const { start, end } = entry;
+  if (!start && !end) return "";
+  if (!start || !end || start === end) return formatMonth(start || end, locale, format);
+  const separator = format === "iso" ? " → " : " – ";
+  return `${formatMonth(start, locale, format)}${separator}${formatMonth(end, locale, format)}`;
+};
+
+// What templates and exports show: the dates, or the legacy text when there are none
+export const periodText = (entry: Experience | Education, locale?: DateLocale, format?: PeriodFormat) =>
+  formatPeriod(entry, locale, format) || ("duration" in entry ? entry.duration : entry.year);
+
+// Polish plural: 1 rok, 2-4 lata (but 12-14 lat), 5+ lat
+export const formatTenure = (months: number) => {
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  const yearWord =
+    years === 1 ? "rok" : [2, 3, 4].includes(years % 10) && ![12, 13, 14].includes(years % 100) ? "lata" : "lat";
+  const parts = [years > 0 ? `${years} ${yearWord}` : "", rest > 0 ? `${rest} mies.` : ""].filter(Boolean);
+  return parts.join(" ") || "0 mies.";
+};
+
+// --- Sorting: newest first (current jobs on top), undated entries keep their order at the end ---
+export const sortByDate = <T extends DatedEntry>(entries: T[]): T[] => {
+  const now = Number.MAX_SAFE_INTEGER;
+  return entries
+    .map((entry, index) => ({ entry, index, span: interval(entry, now) }))
+    .sort((a, b) => {
+      if (!a.span || !b.span) return a.span ? -1 : b.span ? 1 : a.index - b.index;
+      return b.span.end - a.span.end || b.span.start - a.span.start || a.index - b.index;
+    })
+    .map(({ entry }) => entry);
+};
+
+// --- Main: Total tenure and suspicious periods in the work history ---
+export const analyzeTimeline = (experience: Experience[], now = new Date()): TimelineReport => {
+  const current = currentMonthIndex(now);
+  const label = (exp: Experience) => [exp.role, exp.company].filter(Boolean).join(" @ ") || "Bez nazwy";
+  const issues: TimelineIssue[] = [];
+  const spans: { exp: Experience; start: number; end: number }[] = [];
+
+  for (const exp of experience) {
+    const span = interval(exp, current);
+    if (!span) {
+      issues.push({ kind: "undated", message: `Brak dat: ${label(exp)}${exp.duration ? ` („${exp.duration}”)` : ""}` });
+    } else if (span.end < span.start) {
+      issues.push({ kind: "order", message: `Koniec przed początkiem: ${label(exp)}` });
+    } else {
+      spans.push({ exp, ...span });
+    }
+  }
+  spans.sort((a, b) => a.start - b.start);
+
+  for (let i = 0; i < spans.length; i++) {
+    for (let j = i + 1; j < spans.length && spans[j].start <= spans[i].end; j++) {
+      // "2018 - 2021" then "2021 - obecnie": a year shared at a year-only boundary is a switch
+      const earlierEnd = spans[i].exp.end || spans[i].exp.start;
+      const yearOnlyBoundary = isYearOnly(earlierEnd) || (earlierEnd !== PRESENT && isYearOnly(spans[j].exp.start));
+      if (yearOnlyBoundary && Math.floor(spans[i].end / 12) === Math.floor(spans[j].start / 12)) continue;
+      const overlap = Math.min(spans[i].end, spans[j].end) - spans[j].start + 1;
+      if (overlap >= MIN_OVERLAP_MONTHS) {
+        issues.push({
+          kind: "overlap",
+          message: `Nakładające się okresy (${formatTenure(overlap)}): ${label(spans[i].exp)} i ${label(spans[j].exp)}`,
+        });
+      }
+    }
+  }
+
+  // Periods merged, so parallel jobs count once and gaps are between merged blocks
+  let months = 0;
+  let block: { start: number; end: number } | null = null;
+  for (const span of spans) {
+    if (block && span.start <= block.end + 1) {
+      block.end = Math.max(block.end, span.end);
+      continue;
+    }
+    if (block) {
+      months += block.end - block.start + 1;
+      const gap = span.start - block.end - 1;
+      if (gap >= MIN_GAP_MONTHS) {
+        issues.push({ kind: "gap", message: `Przerwa ${formatTenure(gap)} przed: ${label(span.exp)}` });
+      }
+    }
+    block = { start: span.start, end: span.end };
+  }
+  if (block) months += block.end - block.start + 1;
+
+  return { months, issues };
+};
@@ -0,0 +1,708 @@
+import React, { useMemo, useState } from "react";
+import {
+  type CVData,
+  type CVLabels,
+  type ContactInfo,
+  type Education,
+  type Experience,
+  type ExtraSectionItem,
+  type Language,
+  type SummaryItem,
+  DEFAULT_LABELS,
+  EXTRA_SECTION_KINDS,
+  SECTION_KEYS,
+} from "./CVSchema";
+import { type CVStyle, CV_TEMPLATES } from "./CVTemplates";
+import { CONSENT_KIND_NAMES } from "./CVConsent";
+import type { HistoryItem } from "./HistoryStore";
+
+// --- Structural diff between two CV versions ---
+// Changes are listed per section, from version A to version B. Each change knows how
+// to bring B's side of it into any CV (`apply`), which is what cherry-picking does:
+// entries are found by id (languages by name, bullets by text), not by position,
+// so a pick still lands in the right place after the current CV was edited.
+
+// --- Types ---
+export type DiffSection =
+  | "style"
+  | "labels"
+  | "header"
+  | "contact"
+  | "aboutMe"
+  | "experience"
+  | "education"
+  | "skills"
+  | "languages"
+  | "interests"
+  | "sections";
+
+export interface WordToken {
+  text: string;
+  op: "same" | "added" | "removed";
+}
+
+export interface DiffTarget {
+  data: CVData;
+  style: CVStyle;
+}
+
+export interface CVChange {
+  key: string;
+  section: DiffSection;
+  kind: "added" | "removed" | "changed";
+  label: string;
+  before: string;
+  after: string;
+  words?: WordToken[]; // Word-level diff for changed text
+  apply: (target: DiffTarget) => DiffTarget;
+}
+
+export const DIFF_SECTION_LABELS: Record<DiffSection, string> = {
+  style: "Szablon",
+  labels: "Nagłówki sekcji",
+  header: "Dane podstawowe",
+  contact: "Kontakt",
+  aboutMe: "O mnie",
+  experience: "Doświadczenie",
+  education: "Edukacja",
+  skills: "Umiejętności",
+  languages: "Języki",
+  interests: "Zainteresowania",
+  sections: "Sekcje dodatkowe, widoczność i RODO",
+};
+
+// --- Helper: Word-level diff (LCS over words, whitespace kept with the word before it) ---
+const splitWords = (text: string) => text.match(/\S+\s*/g) || [];
+
+const lcsTable = <T,>(a: T[], b: T[], same: (x: T, y: T) => boolean) => {
+  const table = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = same(a[i], b[j]) ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  return table;
+};
+
+// Walks the LCS table: pairs of [indexInA | null, indexInB | null]
+const alignSequences = <T,>(a: T[], b: T[], same: (x: T, y: T) => boolean) => {
+  const table = lcsTable(a, b, same);
+  const steps: [number | null, number | null][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (same(a[i], b[j])) steps.push([i++, j++]);
+    else if (table[i + 1][j] >= table[i][j + 1]) steps.push([i++, null]);
+    else steps.push([null, j++]);
+  }
+  while (i < a.length) steps.push([i++, null]);
+  while (j < b.length) steps.push([null, j++]);
+  return steps;
+};
+
+export const diffWords = (before: string, after: string): WordToken[] => {
+  const a = splitWords(before);
+  const b = splitWords(after);
+  return alignSequences(a, b, (x, y) => x.trim() === y.trim()).map(([i, j]) =>
+    i !== null && j !== null
+      ? { text: b[j], op: "same" }
+      : i !== null
+        ? { text: a[i], op: "removed" }
+        : { text: b[j!], op: "added" },
+  );
+};
+
+// --- Helper: Apply on a deep copy ---
+const clone = <T,>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const onData =
+  (mutate: (data: CVData) => void) =>
+  (target: DiffTarget): DiffTarget => {
+    const data = clone(target.data);
+    mutate(data);
+    return { ...target, data };
+  };
+
+// Inserts near its position in B, but never twice
+const insertEntry = <T,>(list: T[], entry: T, index: number, exists: (item: T) => boolean) => {
+  if (!list.some(exists)) list.splice(Math.min(index, list.length), 0, clone(entry));
+};
+
+// --- Diff builders ---
+const textChange = (
+  key: string,
+  section: DiffSection,
+  label: string,
+  before: string | undefined,
+  after: string | undefined,
+  apply: (target: DiffTarget) => DiffTarget,
+): CVChange[] => {
+  if ((before ?? "") === (after ?? "")) return [];
+  const kind = !before ? "added" : !after ? "removed" : "changed";
+  return [
+    {
+      key,
+      section,
+      kind,
+      label,
+      before: before ?? "",
+      after: after ?? "",
+      words: kind === "changed" ? diffWords(before!, after!) : undefined,
+      apply,
+    },
+  ];
+};
+
+const scalarChanges = (a: CVData, b: CVData): CVChange[] => {
+  const changes: CVChange[] = [];
+  changes.push(
+    ...textChange(
+      "fullName",
+      "header",
+      "Imię i nazwisko",
+      a.fullName,
+      b.fullName,
+      onData((d) => (d.fullName = b.fullName)),
+    ),
+    ...textChange(
+      "title",
+      "header",
+      "Stanowisko",
+      a.title,
+      b.title,
+      onData((d) => (d.title = b.title)),
+    ),
+  );
+  const contactFields: [keyof ContactInfo, string][] = [
+    ["email", "E-mail"],
+    ["phone", "Telefon"],
+    ["location", "Lokalizacja"],
+    ["linkedin", "LinkedIn"],
+  ];
+  for (const [field, label] of contactFields) {
+    changes.push(
+      ...textChange(
+        `contact.${field}`,
+        "contact",
+        label,
+        a.contact[field],
+        b.contact[field],
+        onData((d) => {
+          if (b.contact[field] === undefined) delete d.contact[field];
+          else d.contact[field] = b.contact[field]!;
+        }),
+      ),
+    );
+  }
+  for (const field of Object.keys(b.labels) as (keyof CVLabels)[]) {
+    changes.push(
+      ...textChange(
+        `labels.${field}`,
+        "labels",
+        DEFAULT_LABELS[field],
+        a.labels[field],
+        b.labels[field],
+        onData((d) => (d.labels[field] = b.labels[field])),
+      ),
+    );
+  }
+  return changes;
+};
+
+// skills / interests: plain string sets (a repeated item is one change, keys stay unique)
+const unique = (items: string[]) => Array.from(new Set(items));
+
+const stringListChanges = (section: "skills" | "interests", a: string[], b: string[]): CVChange[] => [
+  ...unique(b)
+    .filter((item) => !a.includes(item))
+    .map((item): CVChange => ({
+      key: `${section}+${item}`,
+      section,
+      kind: "added",
+      label: item,
+      before: "",
+      after: item,
+      apply: onData((d) => !d[section].includes(item) && d[section].push(item)),
+    })),
+  ...unique(a)
+    .filter((item) => !b.includes(item))
+    .map((item): CVChange => ({
+      key: `${section}-${item}`,
+      section,
+      kind: "removed",
+      label: item,
+      before: item,
+      after: "",
+      apply: onData((d) => (d[section] = d[section].filter((x) => x !== item))),
+    })),
+];
+
+// Entries in keyed lists (aboutMe, experience, education, languages)
+interface KeyedList<T> {
+  section: "aboutMe" | "experience" | "education" | "languages" | "sections";
+  keyOf: (item: T) => string;
+  describe: (item: T) => string;
+  fields: { field: keyof T & string; label: string }[];
+  list: (data: CVData) => T[];
+}
+
+const keyedListChanges = <T,>(spec: KeyedList<T>, a: CVData, b: CVData): CVChange[] => {
+  const { section, keyOf, describe, fields, list } = spec;
+  const before = list(a);
+  const after = list(b);
+  const changes: CVChange[] = [];
+  const find = (data: CVData, key: string) => list(data).find((item) => keyOf(item) === key);
+  // Only the first entry with a key is compared; repeats would produce duplicate change keys
+  const firstOfKey = (items: T[]) => (entry: T, index: number) =>
+    items.findIndex((item) => keyOf(item) === keyOf(entry)) === index;
+
+  after.forEach((entry, index) => {
+    if (!firstOfKey(after)(entry, index)) return;
+    const key = keyOf(entry);
+    const previous = before.find((item) => keyOf(item) === key);
+    if (!previous) {
+      changes.push({
+        key: `${section}+${key}`,
+        section,
+        kind: "added",
+        label: describe(entry),
+        before: "",
+        after: describe(entry),
+        apply: onData((d) => insertEntry(list(d), entry, index, (item) => keyOf(item) === key)),
+      });
+      return;
+    }
+    for (const { field, label } of fields) {
+      const oldValue = previous[field];
+      const newValue = entry[field];
+      if (typeof newValue === "string" && typeof oldValue === "string") {
+        changes.push(
+          ...textChange(
+            `${section}.${key}.${field}`,
+            section,
+            `${describe(previous)} · ${label}`,
+            oldValue,
+            newValue,
+            onData((d) => {
+              const target = find(d, key);
+              if (target) Object.assign(target, { [field]: newValue });
+            }),
+          ),
+        );
+      }
+    }
+  });
+
+  for (const entry of before.filter(firstOfKey(before))) {
+    const key = keyOf(entry);
+    if (after.some((item) => keyOf(item) === key)) continue;
+    changes.push({
+      key: `${section}-${key}`,
+      section,
+      kind: "removed",
+      label: describe(entry),
+      before: describe(entry),
+      after: "",
+      apply: onData((d) => {
+        const items = list(d);
+        const index = items.findIndex((item) => keyOf(item) === key);
+        if (index >= 0) items.splice(index, 1);
+      }),
+    });
+  }
+  return changes;
+};
+
+// Bullets of experience entries present in both versions: aligned by text, a
+// removed+added pair at the same spot reads as an edited bullet
+const bulletChanges = (a: Experience, b: Experience): CVChange[] => {
+  const entryLabel = [a.role, a.company].filter(Boolean).join(" @ ");
+  const findEntry = (data: CVData) => data.experience.find((item) => item.id === b.id);
+  const steps = alignSequences(a.description, b.description, (x, y) => x === y);
+  const changes: CVChange[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+      const oldText = n < removed.length ? a.description[removed[n]] : undefined;
+      const newIndex = n < added.length ? added[n] : undefined;
+      const newText = newIndex !== undefined ? b.description[newIndex] : undefined;
+      const label = `${entryLabel} · punkt ${(newIndex ?? removed[n]) + 1}`;
+      const apply = onData((d) => {
+        const bullets = findEntry(d)?.description;
+        if (!bullets) return;
+        const at = oldText !== undefined ? bullets.indexOf(oldText) : -1;
+        if (newText === undefined) {
+          if (at >= 0) bullets.splice(at, 1);
+        } else if (at >= 0) {
+          bullets[at] = newText;
+        } else if (!bullets.includes(newText)) {
+          bullets.splice(Math.min(newIndex!, bullets.length), 0, newText);
+        }
+      });
+      changes.push(
+        ...textChange(
+          `experience.${b.id}.bullet.${n < paired ? "~" : ""}${n}.${oldText ?? newText}`,
+          "experience",
+          label,
+          oldText,
+          newText,
+          apply,
+        ),
+      );
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const [i, j] of steps) {
+    if (i !== null && j !== null) flush();
+    else if (i !== null) removed.push(i);
+    else added.push(j!);
+  }
+  flush();
+  return changes;
+};
+
+// Extra sections (added or removed whole, items compared by id), section visibility and the consent clause
+const sectionChanges = (a: CVData, b: CVData): CVChange[] => {
+  const changes: CVChange[] = [];
+  for (const kind of EXTRA_SECTION_KINDS) {
+    const before = a.extraSections.find((section) => section.kind === kind);
+    const after = b.extraSections.find((section) => section.kind === kind);
+    if (after && !before) {
+      changes.push({
+        key: `sections+${kind}`,
+        section: "sections",
+        kind: "added",
+        label: DEFAULT_LABELS[kind],
+        before: "",
+        after: after.items.map((item) => item.title).join(", "),
+        apply: onData((d) => {
+          const index = b.extraSections.indexOf(after);
+          insertEntry(d.extraSections, after, index, (section) => section.kind === kind);
+        }),
+      });
+    } else if (before && !after) {
+      changes.push({
+        key: `sections-${kind}`,
+        section: "sections",
+        kind: "removed",
+        label: DEFAULT_LABELS[kind],
+        before: before.items.map((item) => item.title).join(", "),
+        after: "",
+        apply: onData((d) => (d.extraSections = d.extraSections.filter((section) => section.kind !== kind))),
+      });
+    } else if (before && after) {
+      changes.push(
+        ...keyedListChanges<ExtraSectionItem>(
+          {
+            section: "sections",
+            keyOf: (item) => item.id,
+            describe: (item) => `${DEFAULT_LABELS[kind]}: ${item.title}`,
+            fields: [
+              { field: "title", label: "nazwa" },
+              { field: "detail", label: "szczegóły" },
+            ],
+            // A target without this section has nowhere to put the item: the pick is a no-op
+            list: (d) => d.extraSections.find((section) => section.kind === kind)?.items ?? [],
+          },
+          a,
+          b,
+        ),
+      );
+    }
+  }
+  for (const key of SECTION_KEYS) {
+    const hidden = b.hiddenSections.includes(key);
+    if (a.hiddenSections.includes(key) === hidden) continue;
+    const visibility = (isHidden: boolean) => (isHidden ? "ukryta" : "widoczna");
+    changes.push({
+      key: `sections.visibility.${key}`,
+      section: "sections",
+      kind: "changed",
+      label: `${DEFAULT_LABELS[key]} · widoczność`,
+      before: visibility(!hidden),
+      after: visibility(hidden),
+      apply: onData((d) => {
+        d.hiddenSections = d.hiddenSections.filter((item) => item !== key);
+        if (hidden) d.hiddenSections.push(key);
+      }),
+    });
+  }
+  if (JSON.stringify(a.consent) !== JSON.stringify(b.consent)) {
+    const describe = ({ consent }: CVData) =>
+      consent.enabled
+        ? [consent.kind === "custom" ? consent.text : CONSENT_KIND_NAMES[consent.kind], consent.company]
+            .filter(Boolean)
+            .join(" · ")
+        : "wyłączona";
+    changes.push({
+      key: "sections.consent",
+      section: "sections",
+      kind: "changed",
+      label: "Klauzula RODO",
+      before: describe(a),
+      after: describe(b),
+      apply: onData((d) => (d.consent = { ...b.consent })),
+    });
+  }
+  return changes;
+};
+
+// --- Main: Diff two versions ---
+export const diffCV = (a: DiffTarget, b: DiffTarget): CVChange[] => {
+  const changes: CVChange[] = [];
+  if (a.style !== b.style) {
+    const label = (style: CVStyle) => CV_TEMPLATES.find((t) => t.id === style)?.label || style;
+    changes.push({
+      key: "style",
+      section: "style",
+      kind: "changed",
+      label: "Szablon",
+      before: label(a.style),
+      after: label(b.style),
+      apply: (target) => ({ ...target, style: b.style }),
+    });
+  }
+  changes.push(...scalarChanges(a.data, b.data));
+  changes.push(
+    ...keyedListChanges<SummaryItem>(
+      {
+        section: "aboutMe",
+        keyOf: (item) => item.id,
+        describe: (item) => item.main || item.text.slice(0, 40),
+        fields: [
+          { field: "main", label: "wyróżnienie" },
+          { field: "text", label: "treść" },
+        ],
+        list: (d) => d.aboutMe,
+      },
+      a.data,
+      b.data,
+    ),
+    ...keyedListChanges<Experience>(
+      {
+        section: "experience",
+        keyOf: (item) => item.id,
+        describe: (item) => [item.role, item.company].filter(Boolean).join(" @ "),
+        fields: [
+          { field: "role", label: "stanowisko" },
+          { field: "company", label: "firma" },
+          { field: "start", label: "od" },
+          { field: "end", label: "do" },
+          { field: "duration", label: "okres" },
+        ],
+        list: (d) => d.experience,
+      },
+      a.data,
+      b.data,
+    ),
+    ...b.data.experience.flatMap((entry) => {
+      const previous = a.data.experience.find((item) => item.id === entry.id);
+      return previous ? bulletChanges(previous, entry) : [];
+    }),
+    ...keyedListChanges<Education>(
+      {
+        section: "education",
+        keyOf: (item) => item.id,
+        describe: (item) => [item.degree, item.school].filter(Boolean).join(", "),
+        fields: [
+          { field: "degree", label: "kierunek" },
+          { field: "school", label: "uczelnia" },
+          { field: "start", label: "od" },
+          { field: "end", label: "do" },
+          { field: "year", label: "rok" },
+        ],
+        list: (d) => d.education,
+      },
+      a.data,
+      b.data,
+    ),
+    ...stringListChanges("skills", a.data.skills, b.data.skills),
+    ...keyedListChanges<Language>(
+      {
+        section: "languages",
+        keyOf: (item) => item.language.trim().toLowerCase(),
+        describe: (item) => `${item.language}: ${item.proficiency}`,
+        fields: [{ field: "proficiency", label: "poziom" }],
+        list: (d) => d.languages,
+      },
+      a.data,
+      b.data,
+    ),
+    ...stringListChanges("interests", a.data.interests, b.data.interests),
+    ...sectionChanges(a.data, b.data),
+  );
+  return changes;
+};
+
+// --- COMPONENT: Side-by-side diff with cherry-pick ---
+const CURRENT_ID = "current";
+
+interface HistoryDiffModalProps {
+  history: HistoryItem[];
+  current: DiffTarget;
+  initialVersionId: string | null; // Compared with the current CV when opened
+  onApply: (target: DiffTarget) => void;
+  onClose: () => void;
+}
+
+const WordDiff = ({ change, side }: { change: CVChange; side: "before" | "after" }) => {
+  if (!change.words) {
+    const text = change[side];
+    const tone = side === "before" ? "bg-red-50 text-red-800" : "bg-green-50 text-green-800";
+    return text ? <span className={change.kind === "changed" ? "" : tone}>{text}</span> : null;
+  }
+  const hidden = side === "before" ? "added" : "removed";
+  return (
+    <>
+      {change.words
+        .filter((w) => w.op !== hidden)
+        .map((w, i) => (
+          <span
+            key={i}
+            className={
+              w.op === "removed"
+                ? "bg-red-100 text-red-800 line-through"
+                : w.op === "added"
+                  ? "bg-green-100 text-green-800"
+                  : ""
+            }
+          >
+            {w.text}
+          </span>
+        ))}
+    </>
+  );
+};
+
+export const HistoryDiffModal: React.FC<HistoryDiffModalProps> = ({
+  history,
+  current,
+  initialVersionId,
+  onApply,
+  onClose,
+}) => {
+  const [leftId, setLeftId] = useState(CURRENT_ID);
+  const [rightId, setRightId] = useState(initialVersionId || history[0]?.id || CURRENT_ID);
+
+  const resolve = (id: string): DiffTarget & { name: string } => {
+    const item = history.find((h) => h.id === id);
+    return item ? { name: item.name, data: item.data, style: item.style } : { name: "Obecne CV", ...current };
+  };
+  const left = resolve(leftId);
+  const right = resolve(rightId);
+  const changes = useMemo(() => diffCV(left, right), [left.data, left.style, right.data, right.style]);
+  const sections = (Object.keys(DIFF_SECTION_LABELS) as DiffSection[]).filter((s) =>
+    changes.some((c) => c.section === s),
+  );
+  // Picking from the current CV into itself would change nothing
+  const canApply = rightId !== CURRENT_ID;
+
+  const versionSelect = (value: string, onChange: (id: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full p-2 text-xs border border-gray-300 rounded focus:outline-none focus:border-blue-500"
+    >
+      <option value={CURRENT_ID}>Obecne CV</option>
+      {history.map((item) => (
+        <option key={item.id} value={item.id}>
+          {item.name} · {item.language.toUpperCase()} (
+          {new Date(item.timestamp).toLocaleString([], { dateStyle: "short", timeStyle: "short" })})
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 print:hidden">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl flex flex-col overflow-hidden max-h-[90vh]">
+        <div className="p-4 border-b flex justify-between items-center bg-gray-50">
+          <h2 className="font-bold text-gray-800">Porównanie wersji</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 hover:bg-gray-200 rounded-full p-1 transition"
+          >
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M18 6L6 18M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 border-b grid grid-cols-[1fr_auto_1fr] gap-3 items-end">
+          <div>
+            <label className="text-[10px] font-bold text-gray-500 mb-1 block">WERSJA A</label>
+            {versionSelect(leftId, setLeftId)}
+          </div>
+          <button
+            onClick={() => {
+              setLeftId(rightId);
+              setRightId(leftId);
+            }}
+            className="px-2 py-2 text-xs text-gray-600 border border-gray-300 rounded hover:bg-gray-50"
+            title="Zamień strony"
+          >
+            ⇄
+          </button>
+          <div>
+            <label className="text-[10px] font-bold text-gray-500 mb-1 block">WERSJA B</label>
+            {versionSelect(rightId, setRightId)}
+          </div>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-1 space-y-5">
+          {changes.length === 0 ? (
+            <p className="text-sm text-gray-400 italic text-center py-8">Wersje są identyczne.</p>
+          ) : (
+            sections.map((section) => (
+              <div key={section}>
+                <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">
+                  {DIFF_SECTION_LABELS[section]}
+                </h3>
+                <div className="space-y-2">
+                  {changes
+                    .filter((c) => c.section === section)
+                    .map((change) => (
+                      <div key={change.key} className="border border-gray-200 rounded-lg text-xs">
+                        <div className="flex justify-between items-center px-3 py-1.5 bg-gray-50 border-b border-gray-200">
+                          <span className="font-bold text-gray-600 truncate" title={change.label}>
+                            {change.kind === "added" ? "+ " : change.kind === "removed" ? "− " : ""}
+                            {change.label}
+                          </span>
+                          {canApply && (
+                            <button
+                              onClick={() => onApply(change.apply(current))}
+                              className="shrink-0 ml-2 font-bold text-blue-600 hover:underline"
+                              title="Przenieś tę zmianę z wersji B do obecnego CV"
+                            >
+                              Przenieś do CV
+                            </button>
+                          )}
+                        </div>
+                        <div className="grid grid-cols-2 divide-x divide-gray-200">
+                          <div className="p-2 text-gray-700 whitespace-pre-wrap">
+                            <WordDiff change={change} side="before" />
+                          </div>
+                          <div className="p-2 text-gray-700 whitespace-pre-wrap">
+                            <WordDiff change={change} side="after" />
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="px-4 py-2 border-t bg-gray-50 text-[10px] text-gray-500">
+          {changes.length} zmian · A: {left.name} → B: {right.name}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,467 @@
+import { PRESENT, parseMonth, parsePeriod } from "./CVDates";
+import { looksLikeConsentClause } from "./CVConsent";
+
+// --- CV Data Schema ---
+// One shape for every CV the generator stores: the editor JSON, `cv_data`,
+// history versions (IndexedDB) and AI answers all go through `migrateCVData`.
+//
+// Versions:
+//   1 - the retired standalone `app/` generator model: `summary: string`, `skills: SkillSet[]`,
+//       `labels.summary`, `contact.linkedin`
+//   2 - the original generator model without a version field: `aboutMe`
+//       (SummaryItem[] or string[]), `skills: string[]`
+//   3 - version 2 normalised, optional `contact.linkedin`, `schemaVersion`
+//   4 - `extraSections` (certificates, projects, volunteering) with their labels,
+//       `hiddenSections`
+//   5 - structured `start` / `end` on experience and education, parsed from
+//       `duration` / `year`, which stay only for text that does not parse
+//   6 - `language` of the content and parallel `variants` in other languages
+//   7 - current: `consent` (GDPR clause), moved out of `interests` / `aboutMe` where it was pasted
+// Unversioned JSON is detected by shape. Each step only upgrades by one version and
+// stamps `schemaVersion`, so old data travels the whole chain exactly once.
+
+export const CV_SCHEMA_VERSION = 7;
+
+// --- Types ---
+export interface ContactInfo {
+  email: string;
+  phone: string;
+  location: string;
+  linkedin?: string;
+}
+
+export interface Experience {
+  id: string;
+  role: string;
+  company: string;
+  start: string; // "YYYY-MM" or "YYYY", see CVDates
+  end: string; // Same, or "present"
+  duration: string; // Free-text fallback when there are no dates
+  description: string[];
+}
+
+export interface Education {
+  id: string;
+  degree: string;
+  school: string;
+  start: string;
+  end: string;
+  year: string; // Free-text fallback when there are no dates
+}
+
+export interface Language {
+  language: string;
+  proficiency: string;
+}
+
+export interface CVLabels {
+  aboutMe: string;
+  experience: string;
+  education: string;
+  skills: string;
+  languages: string;
+  interests: string;
+  certificates: string;
+  projects: string;
+  volunteering: string;
+}
+
+// Optional sections the user adds from the editor; each kind at most once
+export type ExtraSectionKind = "certificates" | "projects" | "volunteering";
+
+export interface ExtraSectionItem {
+  id: string;
+  title: string;
+  detail: string; // Issuer, date, link...
+}
+
+export interface ExtraSection {
+  kind: ExtraSectionKind;
+  items: ExtraSectionItem[];
+}
+
+export type SectionKey =
+  "aboutMe" | "experience" | "education" | "skills" | "languages" | "interests" | ExtraSectionKind;
+
+export interface SummaryItem {
+  id: string;
+  main: string;
+  text: string;
+}
+
+export type CVLanguage = "pl" | "en" | "de";
+
+// GDPR processing consent printed at the foot of the CV, see CVConsent
+export type ConsentKind = "current" | "future" | "custom";
+
+export interface ConsentClause {
+  enabled: boolean;
+  kind: ConsentKind; // Current recruitment, current and future ones, or the user's own text
+  company: string; // Interpolated into the clause; generic wording when empty
+  text: string; // Used when kind is "custom"
+}
+
+export interface CVData {
+  schemaVersion: number;
+  language: CVLanguage; // Language of the content below
+  labels: CVLabels;
+  fullName: string;
+  title: string;
+  aboutMe: SummaryItem[];
+  contact: ContactInfo;
+  skills: string[];
+  languages: Language[];
+  interests: string[];
+  experience: Experience[];
+  education: Education[];
+  extraSections: ExtraSection[];
+  hiddenSections: SectionKey[]; // Kept in the data, left out by every template and export
+  consent: ConsentClause; // Shared by all languages; the standard texts follow `language`
+  variants: Partial<Record<CVLanguage, CVContent>>; // The other languages, swapped in by the language switcher
+}
+
+// Everything that differs between language variants; name, contact, photo and visibility are shared
+export const TRANSLATABLE_KEYS = [
+  "labels",
+  "title",
+  "aboutMe",
+  "skills",
+  "languages",
+  "interests",
+  "experience",
+  "education",
+  "extraSections",
+] as const;
+
+export type CVContent = Pick<CVData, (typeof TRANSLATABLE_KEYS)[number]>;
+
+export const CV_LANGUAGES: CVLanguage[] = ["pl", "en", "de"];
+
+export const LABEL_DICTIONARIES: Record<CVLanguage, CVLabels> = {
+  pl: {
+    aboutMe: "O mnie",
+    experience: "Doświadczenie",
+    education: "Edukacja",
+    skills: "Umiejętności",
+    languages: "Języki",
+    interests: "Zainteresowania",
+    certificates: "Certyfikaty",
+    projects: "Projekty",
+    volunteering: "Wolontariat",
+  },
+  en: {
+    aboutMe: "About me",
+    experience: "Experience",
+    education: "Education",
+    skills: "Skills",
+    languages: "Languages",
+    interests: "Interests",
+    certificates: "Certificates",
+    projects: "Projects",
+    volunteering: "Volunteering",
+  },
+  de: {
+    aboutMe: "Über mich",
+    experience: "Berufserfahrung",
+    education: "Ausbildung",
+    skills: "Kenntnisse",
+    languages: "Sprachen",
+    interests: "Interessen",
+    certificates: "Zertifikate",
+    projects: "Projekte",
+    volunteering: "Ehrenamt",
+  },
+};
+
+export const DEFAULT_LABELS: CVLabels = LABEL_DICTIONARIES.pl;
+
+export const EXTRA_SECTION_KINDS: ExtraSectionKind[] = ["certificates", "projects", "volunteering"];
+export const SECTION_KEYS: SectionKey[] = [
+  "aboutMe",
+  "experience",
+  "education",
+  "skills",
+  "languages",
+  "interests",
+  ...EXTRA_SECTION_KINDS,
+];
+
+export const CONSENT_KINDS: ConsentKind[] = ["current", "future", "custom"];
+export const DEFAULT_CONSENT: ConsentClause = { enabled: false, kind: "current", company: "", text: "" };
+
+export const isSectionVisible = (data: CVData, section: SectionKey) => !data.hiddenSections.includes(section);
+
+// --- Helper: Blank entries for "add" actions in the preview, keyed by list path ---
+const newId = () => Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+const thisYear = () => String(new Date().getFullYear());
+
+export const createEmptyEntry = (path: (string | number)[]): unknown => {
+  const [list, , nested] = path;
+  if (list === "experience" && nested === "description") return "Nowy punkt...";
+  if (list === "extraSections") return { id: newId(), title: "Nazwa", detail: "Szczegóły" };
+  switch (list) {
+    case "aboutMe":
+      return { id: newId(), main: "Nowe wyróżnienie.", text: "Opis..." };
+    case "experience":
+      return {
+        id: newId(),
+        role: "Stanowisko",
+        company: "Firma",
+        start: thisYear(),
+        end: PRESENT,
+        duration: "",
+        description: ["Opis obowiązków..."],
+      };
+    case "education":
+      return { id: newId(), degree: "Kierunek", school: "Uczelnia", start: thisYear(), end: thisYear(), year: "" };
+    case "languages":
+      return { language: "Język", proficiency: "B2" };
+    case "skills":
+      return "Nowa umiejętność";
+    case "interests":
+      return "Nowe zainteresowanie";
+    default:
+      throw new Error(`Unknown CV list: ${path.join(".")}`);
+  }
+};
+
+// --- Helpers ---
+const asString = (value: unknown) => (value === undefined || value === null ? "" : String(value));
+const asArray = (value: unknown): any[] => (Array.isArray(value) ? value : []);
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+// A single value where a list is expected becomes a one-item list
+const asList = (value: unknown): any[] =>
+  Array.isArray(value) ? value : value === undefined || value === null || value === "" ? [] : [value];
+
+// Free text -> start / end; the text is kept only when it does not parse
+const withPeriod = (entry: Record<string, any>, textField: "duration" | "year") => {
+  if (entry.start !== undefined || entry.end !== undefined) return entry;
+  const period = parsePeriod(asString(entry[textField]));
+  return period ? { ...entry, ...period, [textField]: "" } : { ...entry, start: "", end: "" };
+};
+
+// Stored dates in any accepted spelling become "YYYY-MM" / "YYYY" / "present"; unknown ones are dropped
+const asMonth = (value: unknown) => parseMonth(asString(value)) ?? "";
+
+// SkillSet { category, items } -> "Category: a, b" so nothing is dropped
+const flattenSkill = (skill: unknown) => {
+  if (!isObject(skill)) return asString(skill);
+  const items = asArray(skill.items).map(asString).join(", ");
+  return skill.category ? `${skill.category}: ${items}` : items;
+};
+
+// "Lead sentence. Rest of the text." -> { main: "Lead sentence.", text: "Rest of the text." }
+const splitSummary = (summary: string, id: string): SummaryItem => {
+  const match = summary.trim().match(/^(.+?[.!?])\s+(.+)$/s);
+  return match ? { id, main: match[1], text: match[2] } : { id, main: "", text: summary.trim() };
+};
+
+// --- Version detection ---
+export const detectSchemaVersion = (raw: Record<string, any>): number => {
+  if (typeof raw.schemaVersion === "number") return raw.schemaVersion;
+  if (raw.aboutMe !== undefined) return 2;
+  // The AI endpoint sometimes answers with `summary` holding version 2 items
+  if (Array.isArray(raw.summary)) return 2;
+  if (
+    typeof raw.summary === "string" ||
+    isObject(asArray(raw.skills)[0]) ||
+    (isObject(raw.labels) && "summary" in raw.labels)
+  ) {
+    return 1;
+  }
+  return 2;
+};
+
+// --- Migrations (index = version they upgrade from) ---
+const MIGRATIONS: Record<number, (data: Record<string, any>) => Record<string, any>> = {
+  1: (data) => {
+    const { summary, labels, ...rest } = data;
+    const { summary: summaryLabel, ...otherLabels } = isObject(labels) ? labels : ({} as Record<string, any>);
+    return {
+      ...rest,
+      labels: { ...otherLabels, aboutMe: otherLabels.aboutMe ?? summaryLabel },
+      aboutMe: summary ? [splitSummary(asString(summary), "1")] : [],
+      skills: asArray(data.skills).map(flattenSkill),
+      schemaVersion: 2,
+    };
+  },
+  // String / single-value lists, the `summary` alias and stray SkillSet objects
+  2: (data) => {
+    const { summary, ...rest } = data;
+    const aboutMe = asList(data.aboutMe ?? summary).map((item, idx) =>
+      isObject(item)
+        ? { id: asString(item.id || idx + 1), main: asString(item.main), text: asString(item.text) }
+        : splitSummary(asString(item), String(idx + 1)),
+    );
+    const experience = asArray(data.experience).map((exp) =>
+      isObject(exp) ? { ...exp, description: asList(exp.description) } : exp,
+    );
+    return { ...rest, aboutMe, experience, skills: asList(data.skills).map(flattenSkill), schemaVersion: 3 };
+  },
+  // New sections start empty and visible
+  3: (data) => ({
+    ...data,
+    extraSections: data.extraSections ?? [],
+    hiddenSections: data.hiddenSections ?? [],
+    schemaVersion: 4,
+  }),
+  // Non-list values are left for the validator to report
+  4: (data) => {
+    const dated = (list: unknown, textField: "duration" | "year") =>
+      Array.isArray(list) ? list.map((entry) => (isObject(entry) ? withPeriod(entry, textField) : entry)) : list;
+    return {
+      ...data,
+      experience: dated(data.experience, "duration"),
+      education: dated(data.education, "year"),
+      schemaVersion: 5,
+    };
+  },
+  // Existing CVs were written in Polish
+  5: (data) => ({ ...data, language: data.language ?? "pl", variants: data.variants ?? {}, schemaVersion: 6 }),
+  // Clauses pasted into interests / aboutMe to get them printed become the consent block
+  6: (data) => {
+    if (data.consent !== undefined) return { ...data, schemaVersion: 7 };
+    const pasted: string[] = [];
+    const keep = (text: string) => {
+      if (!looksLikeConsentClause(text)) return true;
+      pasted.push(text.trim());
+      return false;
+    };
+    const interests = Array.isArray(data.interests)
+      ? data.interests.filter((item) => typeof item !== "string" || keep(item))
+      : data.interests;
+    const aboutMe = Array.isArray(data.aboutMe)
+      ? data.aboutMe.filter((item) => !isObject(item) || keep(`${asString(item.main)} ${asString(item.text)}`))
+      : data.aboutMe;
+    const consent = pasted.length
+      ? { ...DEFAULT_CONSENT, enabled: true, kind: "custom", text: pasted.join(" ") }
+      : DEFAULT_CONSENT;
+    return { ...data, interests, aboutMe, consent, schemaVersion: 7 };
+  },
+};
+
+// --- Normalisation (fills missing fields of a current-version object) ---
+const normalizeConsent = (value: unknown): ConsentClause => {
+  const consent = isObject(value) ? value : {};
+  return {
+    enabled: consent.enabled === true,
+    kind: CONSENT_KINDS.includes(consent.kind) ? consent.kind : DEFAULT_CONSENT.kind,
+    company: asString(consent.company),
+    text: asString(consent.text),
+  };
+};
+
+// Missing labels come from the dictionary of the content's language
+const normalizeContent = (data: Record<string, any>, language: CVLanguage): CVContent => {
+  const source = isObject(data.labels) ? data.labels : {};
+  const labels = { ...LABEL_DICTIONARIES[language] };
+  (Object.keys(labels) as (keyof CVLabels)[]).forEach((key) => (labels[key] = asString(source[key] ?? labels[key])));
+
+  return {
+    labels,
+    title: asString(data.title),
+    aboutMe: asArray(data.aboutMe)
+      .filter(isObject)
+      .map((item, idx) => ({ id: asString(item.id || idx + 1), main: asString(item.main), text: asString(item.text) })),
+    skills: asArray(data.skills).map(asString),
+    languages: asArray(data.languages)
+      .filter(isObject)
+      .map((lang) => ({ language: asString(lang.language), proficiency: asString(lang.proficiency) })),
+    interests: asArray(data.interests).map(asString),
+    experience: asArray(data.experience)
+      .filter(isObject)
+      .map((exp, idx) => ({
+        id: asString(exp.id || idx + 1),
+        role: asString(exp.role),
+        company: asString(exp.company),
+        start: asMonth(exp.start),
+        end: asMonth(exp.end),
+        duration: asString(exp.duration),
+        description: asArray(exp.description).map(asString),
+      })),
+    education: asArray(data.education)
+      .filter(isObject)
+      .map((edu, idx) => ({
+        id: asString(edu.id || idx + 1),
+        degree: asString(edu.degree),
+        school: asString(edu.school),
+        start: asMonth(edu.start),
+        end: asMonth(edu.end),
+        year: asString(edu.year),
+      })),
+    extraSections: asArray(data.extraSections)
+      .filter((section) => isObject(section) && EXTRA_SECTION_KINDS.includes(section.kind))
+      .filter((section, idx, all) => all.findIndex((other) => other.kind === section.kind) === idx)
+      .map((section) => ({
+        kind: section.kind,
+        items: asArray(section.items)
+          .filter(isObject)
+          .map((item, idx) => ({
+            id: asString(item.id || idx + 1),
+            title: asString(item.title),
+            detail: asString(item.detail),
+          })),
+      })),
+  };
+};
+
+// Expects an upgraded object; callers that already ran `upgradeCVData` use it directly
+export const normalizeCVData = (data: Record<string, any>): CVData => {
+  const contact = isObject(data.contact) ? data.contact : {};
+  const language: CVLanguage = CV_LANGUAGES.includes(data.language) ? data.language : "pl";
+  const content = normalizeContent(data, language);
+  const variants = isObject(data.variants) ? data.variants : {};
+
+  return {
+    schemaVersion: CV_SCHEMA_VERSION,
+    language,
+    labels: content.labels,
+    fullName: asString(data.fullName),
+    title: content.title,
+    aboutMe: content.aboutMe,
+    contact: {
+      email: asString(contact.email),
+      phone: asString(contact.phone),
+      location: asString(contact.location),
+      ...(contact.linkedin ? { linkedin: asString(contact.linkedin) } : {}),
+    },
+    skills: content.skills,
+    languages: content.languages,
+    interests: content.interests,
+    experience: content.experience,
+    education: content.education,
+    extraSections: content.extraSections,
+    hiddenSections: asArray(data.hiddenSections).filter((key): key is SectionKey => SECTION_KEYS.includes(key)),
+    consent: normalizeConsent(data.consent),
+    // The active language never also lives among the variants
+    variants: Object.fromEntries(
+      CV_LANGUAGES.filter((lang) => lang !== language && isObject(variants[lang])).map((lang) => [
+        lang,
+        normalizeContent(variants[lang], lang),
+      ]),
+    ),
+  };
+};
+
+// --- Upgrade only: runs the migration chain without filling defaults ---
+// The validator inspects this shape, so type errors are reported instead of coerced away.
+export const upgradeCVData = (raw: unknown): Record<string, any> => {
+  if (!isObject(raw)) throw new Error("Dane CV muszą być obiektem JSON");
+
+  let data: Record<string, any> = raw;
+  let version = detectSchemaVersion(raw);
+  if (version > CV_SCHEMA_VERSION) {
+    console.warn(`CV schema version ${version} is newer than supported (${CV_SCHEMA_VERSION})`);
+  }
+  while (version < CV_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`Brak migracji dla wersji schematu ${version}`);
+    data = migrate(data);
+    version += 1;
+  }
+  return data;
+};
+
+// --- Main: Upgrade any stored / pasted / generated CV JSON ---
+export const migrateCVData = (raw: unknown): CVData => normalizeCVData(upgradeCVData(raw));
@@ -0,0 +1,2359 @@
+import React, { createContext, useContext, useRef, useState } from "react";
+import {
+  type CVData,
+  type Education,
+  type Experience,
+  type SectionKey,
+  DEFAULT_LABELS,
+  isSectionVisible,
+} from "./CVSchema";
+import { type DateLocale, type PeriodFormat, periodText } from "./CVDates";
+import { consentText } from "./CVConsent";
+
+// --- TYPES ---
+export type CVStyle =
+  | "marketing-1"
+  | "marketing-2"
+  | "logistics-1"
+  | "logistics-2"
+  | "engineering-1"
+  | "engineering-2"
+  | "ecommerce-1"
+  | "ecommerce-2";
+
+// --- CONSTANTS ---
+const WRAPPER_ID = "printable-cv";
+const COMMON_STYLES = { width: "210mm", minHeight: "297mm", boxSizing: "border-box" as const };
+const BASE_CLASS =
+  "bg-white text-[#1f2937] shadow-2xl mx-auto rounded-none lg:rounded-md transition-all duration-300 overflow-hidden";
+
+// Thumbnails render the same template, but must not claim the printable id
+const wrapperId = (thumbnail?: boolean) => (thumbnail ? undefined : WRAPPER_ID);
+
+// --- HELPER COMPONENT: Editable Text ---
+interface EditableProps {
+  value: string;
+  onUpdate: (newValue: string) => void;
+  tag?: keyof JSX.IntrinsicElements;
+  className?: string;
+  placeholder?: string;
+}
+
+export const Editable: React.FC<EditableProps> = ({
+  value,
+  onUpdate,
+  tag: Tag = "span",
+  className = "",
+  placeholder = "...",
+}) => {
+  const handleBlur = (e: React.FocusEvent<HTMLElement>) => {
+    const text = e.currentTarget.textContent;
+    if (text !== null && text !== value) {
+      onUpdate(text);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLElement>) => {
+    if (
+      e.key === "Enter" &&
+      Tag !== "p" &&
+      Tag !== "div" &&
+      Tag !== "h1" &&
+      Tag !== "h2" &&
+      Tag !== "h3" &&
+      Tag !== "h4" &&
+      Tag !== "li"
+    ) {
+      e.preventDefault();
+      e.currentTarget.blur();
+    }
+  };
+
+  return (
+    <Tag
+      contentEditable
+      suppressContentEditableWarning
+      onBlur={handleBlur}
+      onKeyDown={handleKeyDown}
+      className={`outline-none min-w-[20px] cursor-text transition-all border-b border-transparent hover:border-blue-300 hover:bg-blue-50/30 empty:before:content-[attr(placeholder)] empty:before:text-gray-300 ${className}`}
+      placeholder={placeholder}
+    >
+      {value}
+    </Tag>
+  );
+};
+
+// --- HELPER COMPONENT: Removable Wrapper ---
+interface RemovableProps {
+  children: React.ReactNode;
+  onRemove: () => void;
+  className?: string;
+}
+
+const RemoveButton = ({ onRemove }: { onRemove: () => void }) => (
+  <button
+    onClick={(e) => {
+      e.stopPropagation();
+      onRemove();
+    }}
+    contentEditable={false}
+    className="absolute -right-6 top-0 opacity-0 group-hover:opacity-100 bg-red-500 text-white hover:bg-red-600 transition-opacity p-1 no-print z-50 cursor-pointer flex items-center justify-center rounded-full shadow-md h-5 w-5 border border-red-700"
+    title="Usuń element"
+  >
+    <span className="text-xs font-bold leading-none">✕</span>
+  </button>
+);
+
+export const Removable: React.FC<RemovableProps> = ({ children, onRemove, className = "" }) => {
+  return (
+    // Removable items are also the units the PDF export keeps on one page
+    <div data-pdf-block className={`relative group transition-all ${className}`}>
+      {children}
+      <RemoveButton onRemove={onRemove} />
+    </div>
+  );
+};
+
+// --- EDITING CONTEXT: list actions shared by every template ---
+// Provided by `TemplateRenderer`; thumbnails get no move/add, so they show no handles.
+type ListPath = (string | number)[];
+
+interface TemplateActions {
+  onRemove: (path: ListPath, index: number) => void;
+  onMove?: (path: ListPath, from: number, to: number) => void;
+  onAdd?: (path: ListPath, index: number) => void;
+  onUpdatePeriod?: (path: ListPath, text: string) => void;
+  dateLocale: DateLocale;
+}
+
+const TemplateActionsContext = createContext<TemplateActions>({ onRemove: () => {}, dateLocale: "pl" });
+
+// The drag in progress: dragover events cannot read dataTransfer, and an entry
+// only accepts items of its own list (a bullet never lands among jobs)
+let activeDrag: { list: string; index: number } | null = null;
+
+const DROP_INDICATOR = {
+  before: "shadow-[0_-2px_0_0_#3b82f6]",
+  after: "shadow-[0_2px_0_0_#3b82f6]",
+  beforeRow: "shadow-[-2px_0_0_0_#3b82f6]",
+  afterRow: "shadow-[2px_0_0_0_#3b82f6]",
+};
+
+// --- HELPER COMPONENT: Sortable list entry (remove, drag to reorder, insert below) ---
+// Inside <ul> / <ol> it renders as the <li> itself, so the list keeps valid markup.
+interface SortableItemProps {
+  path: ListPath;
+  index: number;
+  children: React.ReactNode;
+  className?: string;
+  as?: "div" | "li";
+}
+
+export const SortableItem: React.FC<SortableItemProps> = ({
+  path,
+  index,
+  children,
+  className = "",
+  as: Tag = "div",
+}) => {
+  const { onRemove, onMove, onAdd } = useContext(TemplateActionsContext);
+  const ref = useRef<HTMLDivElement & HTMLLIElement>(null); // Whichever tag `as` picks
+  const [drop, setDrop] = useState<keyof typeof DROP_INDICATOR | null>(null);
+  const list = path.join(".");
+  const accepts = () => !!onMove && activeDrag?.list === list;
+
+  const handleDragOver = (e: React.DragEvent<HTMLElement>) => {
+    if (!accepts()) return; // Bubbles up to the entry that owns this kind of item
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const parent = e.currentTarget.parentElement;
+    const parentStyle = parent ? getComputedStyle(parent) : null;
+    // Chips in a wrapping row are reordered left/right, everything else up/down
+    const inRow = !!parentStyle?.display.includes("flex") && !parentStyle.flexDirection.startsWith("column");
+    const before = inRow ? e.clientX < rect.left + rect.width / 2 : e.clientY < rect.top + rect.height / 2;
+    setDrop(inRow ? (before ? "beforeRow" : "afterRow") : before ? "before" : "after");
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLElement>) => {
+    if (!accepts() || !drop) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const from = activeDrag!.index;
+    let to = drop.startsWith("after") ? index + 1 : index;
+    if (from < to) to -= 1;
+    activeDrag = null;
+    setDrop(null);
+    if (from !== to) onMove!(path, from, to);
+  };
+
+  return (
+    <Tag
+      ref={ref}
+      data-pdf-block
+      onDragOver={handleDragOver}
+      onDragLeave={() => setDrop(null)}
+      onDrop={handleDrop}
+      className={`relative group transition-all ${drop ? DROP_INDICATOR[drop] : ""} ${className}`}
+    >
+      {onMove && (
+        <span
+          draggable
+          onDragStart={(e) => {
+            e.stopPropagation();
+            activeDrag = { list, index };
+            e.dataTransfer.effectAllowed = "move";
+            e.dataTransfer.setData("text/plain", list);
+            if (ref.current) e.dataTransfer.setDragImage(ref.current, 0, 0);
+          }}
+          onDragEnd={() => (activeDrag = null)}
+          contentEditable={false}
+          className="absolute -left-5 top-0 opacity-0 group-hover:opacity-100 transition-opacity no-print z-50 cursor-grab active:cursor-grabbing text-gray-400 hover:text-blue-500 text-sm leading-5 select-none"
+          title="Przeciągnij, aby zmienić kolejność"
+        >
+          ⠿
+        </span>
+      )}
+      {children}
+      <RemoveButton onRemove={() => onRemove(path, index)} />
+      {onAdd && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onAdd(path, index + 1);
+          }}
+          contentEditable={false}
+          className="absolute -right-6 top-6 opacity-0 group-hover:opacity-100 bg-blue-500 text-white hover:bg-blue-600 transition-opacity no-print z-50 cursor-pointer flex items-center justify-center rounded-full shadow-md h-5 w-5 border border-blue-700"
+          title="Dodaj poniżej"
+        >
+          <span className="text-xs font-bold leading-none">+</span>
+        </button>
+      )}
+    </Tag>
+  );
+};
+
+// --- HELPER COMPONENT: Add button for an emptied list ---
+// Entries carry their own "insert below" button, so a list needs this only when it has none.
+interface AddFirstItemProps {
+  path: ListPath;
+  count: number;
+  as?: "div" | "li";
+}
+
+const AddFirstItem: React.FC<AddFirstItemProps> = ({ path, count, as: Tag = "div" }) => {
+  const { onAdd } = useContext(TemplateActionsContext);
+  if (!onAdd || count > 0) return null;
+  return (
+    <Tag className="no-print list-none">
+      <button
+        onClick={() => onAdd(path, 0)}
+        contentEditable={false}
+        className="text-xs px-2 py-0.5 border border-dashed border-blue-300 rounded text-blue-500 hover:border-blue-500 hover:text-blue-600 cursor-pointer"
+      >
+        + Dodaj
+      </button>
+    </Tag>
+  );
+};
+
+// --- HELPER COMPONENT: Period (experience / education dates) ---
+// Shows the structured dates in the template's format; typed text is parsed back by the editor.
+interface PeriodProps {
+  entry: Experience | Education;
+  path: ListPath; // The entry, e.g. ["experience", 0]
+  format: PeriodFormat;
+  tag?: EditableProps["tag"];
+  className?: string;
+}
+
+const Period: React.FC<PeriodProps> = ({ entry, path, format, tag, className }) => {
+  const { onUpdatePeriod, dateLocale } = useContext(TemplateActionsContext);
+  return (
+    <Editable
+      tag={tag}
+      className={className}
+      value={periodText(entry, dateLocale, format)}
+      onUpdate={(v) => onUpdatePeriod?.(path, v)}
+    />
+  );
+};
+
+// --- ICONS ---
+const MailIcon = () => (
+  <svg
+    width="12"
+    height="12"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  >
+    <rect width="20" height="16" x="2" y="4" rx="2" />
+    <path d="m22 7-8.97 5.7a1.94 1.94 0 0 1-2.06 0L2 7" />
+  </svg>
+);
+const PhoneIcon = () => (
+  <svg
+    width="12"
+    height="12"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  >
+    <path d="M22 16.92v3a2 2 0 0 1-2.18 2 19.79 19.79 0 0 1-8.63-3.07 19.5 19.5 0 0 1-6-6 19.79 19.79 0 0 1-3.07-8.67A2 2 0 0 1 4.11 2h3a2 2 0 0 1 2 1.72 12.84 12.84 0 0 0 .7 2.81 2 2 0 0 1-.45 2.11L8.09 9.91a16 16 0 0 0 6 6l1.27-1.27a2 2 0 0 1 2.11-.45 12.84 12.84 0 0 0 2.81.7A2 2 0 0 1 22 16.92z" />
+  </svg>
+);
+const MapPinIcon = () => (
+  <svg
+    width="12"
+    height="12"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  >
+    <path d="M20 10c0 6-8 12-8 12s-8-6-8-12a8 8 0 0 1 16 0Z" />
+    <circle cx="12" cy="10" r="3" />
+  </svg>
+);
+
+// --- SHARED PROPS INTERFACE ---
+export interface TemplateProps {
+  data: CVData;
+  image: string | null;
+  onUpdate: (path: (string | number)[], val: string) => void;
+  onRemove: (path: (string | number)[], index: number) => void;
+  onMove?: (path: (string | number)[], from: number, to: number) => void;
+  onAdd?: (path: (string | number)[], index: number) => void;
+  onUpdatePeriod?: (path: (string | number)[], text: string) => void;
+  thumbnail?: boolean;
+}
+
+// --- HELPER COMPONENT: Extra sections (certificates, projects, volunteering) ---
+// Each template places them where they fit and supplies its own heading.
+interface ExtraSectionsProps {
+  data: CVData;
+  onUpdate: TemplateProps["onUpdate"];
+  heading: (label: string, update: (value: string) => void) => React.ReactNode;
+  className?: string;
+  itemClassName?: string;
+  titleClassName?: string;
+  detailClassName?: string;
+}
+
+const ExtraSections: React.FC<ExtraSectionsProps> = ({
+  data,
+  onUpdate,
+  heading,
+  className = "",
+  itemClassName = "mb-2",
+  titleClassName = "font-bold",
+  detailClassName = "text-sm text-gray-500",
+}) => {
+  const labels = data.labels || DEFAULT_LABELS;
+  return (
+    <>
+      {data.extraSections.map((section, sectionIdx) =>
+        isSectionVisible(data, section.kind) ? (
+          <section key={section.kind} className={className}>
+            {heading(labels[section.kind], (v) => onUpdate(["labels", section.kind], v))}
+            {section.items.map((item, idx) => (
+              <SortableItem
+                key={item.id}
+                path={["extraSections", sectionIdx, "items"]}
+                index={idx}
+                className={itemClassName}
+              >
+                <div>
+                  <Editable
+                    className={`block ${titleClassName}`}
+                    value={item.title}
+                    onUpdate={(v) => onUpdate(["extraSections", sectionIdx, "items", idx, "title"], v)}
+                  />
+                  <Editable
+                    className={`block ${detailClassName}`}
+                    value={item.detail}
+                    onUpdate={(v) => onUpdate(["extraSections", sectionIdx, "items", idx, "detail"], v)}
+                  />
+                </div>
+              </SortableItem>
+            ))}
+            <AddFirstItem path={["extraSections", sectionIdx, "items"]} count={section.items.length} />
+          </section>
+        ) : null,
+      )}
+    </>
+  );
+};
+
+// --- HELPER COMPONENT: GDPR consent clause ---
+// Closes the document, so it prints on the last page; edited from the sidebar, not inline.
+const ConsentFooter: React.FC<{ data: CVData; className?: string }> = ({ data, className = "" }) => {
+  const text = consentText(data);
+  if (!text) return null;
+  return (
+    <p data-pdf-block className={`mt-10 text-[8px] leading-snug text-gray-400 text-justify ${className}`}>
+      {text}
+    </p>
+  );
+};
+
+// --- TEMPLATE COMPONENTS ---
+
+// Scale (Clean, Metric Focused)
+const Ecommerce1: React.FC<TemplateProps> = ({ data, image, onUpdate, thumbnail }) => {
+  const labels = data.labels || DEFAULT_LABELS;
+  const show = (key: SectionKey) => isSectionVisible(data, key);
+  return (
+    <div id={wrapperId(thumbnail)} className={BASE_CLASS} style={{ ...COMMON_STYLES, padding: "40px" }}>
+      <header className="border-b-2 border-black pb-6 mb-8 flex justify-between items-center">
+        <div className="flex-1">
+          <Editable
+            tag="h1"
+            className="text-5xl font-black uppercase tracking-tight leading-none mb-2"
+            value={data.fullName}
+            onUpdate={(v) => onUpdate(["fullName"], v)}
+          />
+          <Editable
+            tag="p"
+            className="text-xl font-medium text-gray-600"
+            value={data.title}
+            onUpdate={(v) => onUpdate(["title"], v)}
+          />
+        </div>
+        <div className="text-right text-sm font-medium text-gray-800 space-y-1">
+          <Editable className="block" value={data.contact.email} onUpdate={(v) => onUpdate(["contact", "email"], v)} />
+          <Editable className="block" value={data.contact.phone} onUpdate={(v) => onUpdate(["contact", "phone"], v)} />
+          <Editable
+            className="block"
+            value={data.contact.location}
+            onUpdate={(v) => onUpdate(["contact", "location"], v)}
+          />
+        </div>
+        {image && <img src={image} alt="Profile" className="w-24 h-24 object-cover border-2 border-black ml-6" />}
+      </header>
+      {show("aboutMe") && (
+        <section className="mb-8">
+          <Editable
+            tag="h3"
+            className="text-sm font-bold bg-black text-white inline-block px-2 py-1 mb-3 uppercase"
+            value={labels.aboutMe}
+            onUpdate={(v) => onUpdate(["labels", "aboutMe"], v)}
+          />
+          <ol className="list-decimal list-outside ml-5 text-gray-800 text-sm leading-relaxed font-light space-y-2">
+            {data.aboutMe.map((item, idx) => (
+              <SortableItem key={item.id} path={["aboutMe"]} index={idx} as="li" className="pl-3">
+                <span className="font-bold mr-1">
+                  <Editable value={item.main} onUpdate={(v) => onUpdate(["aboutMe", idx, "main"], v)} />
+                </span>
+                <span className="block md:inline">
+                  <Editable value={item.text} onUpdate={(v) => onUpdate(["aboutMe", idx, "text"], v)} />
+                </span>
+              </SortableItem>
+            ))}
+            <AddFirstItem path={["aboutMe"]} count={data.aboutMe.length} as="li" />
+          </ol>
+        </section>
+      )}
+      <div className="grid grid-cols-12 gap-8">
+        <div className="col-span-8">
+          {show("experience") && (
+            <section className="mb-8">
+              <Editable
+                tag="h3"
+                className="text-sm font-bold bg-black text-white inline-block px-2 py-1 mb-4 uppercase"
+                value={labels.experience}
+                onUpdate={(v) => onUpdate(["labels", "experience"], v)}
+              />
+              <div className="space-y-8">
+                {data.experience.map((exp, idx) => (
+                  <SortableItem key={exp.id} path={["experience"]} index={idx}>
+                    <div>
+                      <div className="flex justify-between items-baseline border-b border-gray-200 pb-1 mb-2">
+                        <Editable
+                          tag="h4"
+                          className="text-xl font-bold"
+                          value={exp.role}
+                          onUpdate={(v) => onUpdate(["experience", idx, "role"], v)}
+                        />
+                        <Period
+                          tag="span"
+                          className="text-sm font-bold"
+                          entry={exp}
+                          path={["experience", idx]}
+                          format="short"
+                        />
+                      </div>
+                      <Editable
+                        className="text-sm font-bold text-gray-500 uppercase tracking-widest mb-2 block"
+                        value={exp.company}
+                        onUpdate={(v) => onUpdate(["experience", idx, "company"], v)}
+                      />
+                      <ul className="list-disc list-outside ml-4 text-gray-700 space-y-1">
+                        {exp.description.map((desc, i) => (
+                          <SortableItem key={i} path={["experience", idx, "description"]} index={i} as="li">
+                            <Editable
+                              value={desc}
+                              onUpdate={(v) => onUpdate(["experience", idx, "description", i], v)}
+                            />
+                          </SortableItem>
+                        ))}
+                        <AddFirstItem
+                          path={["experience", idx, "description"]}
+                          count={exp.description.length}
+                          as="li"
+                        />
+                      </ul>
+                    </div>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["experience"]} count={data.experience.length} />
+              </div>
+            </section>
+          )}
+          <ExtraSections
+            data={data}
+            onUpdate={onUpdate}
+            heading={(label, update) => (
+              <Editable
+                tag="h3"
+                className="text-sm font-bold bg-black text-white inline-block px-2 py-1 mb-4 uppercase"
+                value={label}
+                onUpdate={update}
+              />
+            )}
+            className="mb-8"
+            titleClassName="font-bold text-lg text-black"
+            detailClassName="text-sm text-gray-600"
+          />
+        </div>
+        <div className="col-span-4 space-y-8">
+          {show("skills") && (
+            <section>
+              <Editable
+                tag="h3"
+                className="text-sm font-bold bg-black text-white inline-block px-2 py-1 mb-4 uppercase"
+                value={labels.skills}
+                onUpdate={(v) => onUpdate(["labels", "skills"], v)}
+              />
+              <div className="flex flex-wrap gap-2 text-sm text-gray-600">
+                {data.skills.map((skill, idx) => (
+                  <SortableItem key={idx} path={["skills"]} index={idx}>
+                    <span className="bg-gray-100 px-2 py-1 rounded border border-gray-200 inline-block">
+                      <Editable value={skill} onUpdate={(v) => onUpdate(["skills", idx], v)} />
+                    </span>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["skills"]} count={data.skills.length} />
+              </div>
+            </section>
+          )}
+          {show("languages") && (
+            <section>
+              <Editable
+                tag="h3"
+                className="text-sm font-bold bg-black text-white inline-block px-2 py-1 mb-4 uppercase"
+                value={labels.languages}
+                onUpdate={(v) => onUpdate(["labels", "languages"], v)}
+              />
+              <div className="space-y-2">
+                {data.languages.map((lang, idx) => (
+                  <SortableItem key={idx} path={["languages"]} index={idx}>
+                    <div className="flex justify-between items-center text-sm border-b border-gray-100 pb-1">
+                      <Editable
+                        className="font-bold"
+                        value={lang.language}
+                        onUpdate={(v) => onUpdate(["languages", idx, "language"], v)}
+                      />
+                      <Editable
+                        className="text-gray-500 italic"
+                        value={lang.proficiency}
+                        onUpdate={(v) => onUpdate(["languages", idx, "proficiency"], v)}
+                      />
+                    </div>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["languages"]} count={data.languages.length} />
+              </div>
+            </section>
+          )}
+          {/* Added Interests Section */}
+          {show("interests") && (
+            <section>
+              <Editable
+                tag="h3"
+                className="text-sm font-bold bg-black text-white inline-block px-2 py-1 mb-4 uppercase"
+                value={labels.interests}
+                onUpdate={(v) => onUpdate(["labels", "interests"], v)}
+              />
+              <div className="flex flex-wrap gap-x-2 gap-y-1 text-sm text-gray-600">
+                {data.interests.map((interest, idx) => (
+                  <SortableItem key={idx} path={["interests"]} index={idx} className="inline-block">
+                    <span className="after:content-[','] last:after:content-['']">
+                      <Editable value={interest} onUpdate={(v) => onUpdate(["interests", idx], v)} />
+                    </span>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["interests"]} count={data.interests.length} />
+              </div>
+            </section>
+          )}
+          {show("education") && (
+            <section>
+              <Editable
+                tag="h3"
+                className="text-sm font-bold bg-black text-white inline-block px-2 py-1 mb-4 uppercase"
+                value={labels.education}
+                onUpdate={(v) => onUpdate(["labels", "education"], v)}
+              />
+              {data.education.map((edu, idx) => (
+                <SortableItem key={edu.id} path={["education"]} index={idx} className="mb-3">
+                  <div>
+                    <Editable
+                      className="font-bold block"
+                      value={edu.school}
+                      onUpdate={(v) => onUpdate(["education", idx, "school"], v)}
+                    />
+                    <Editable
+                      className="text-sm text-gray-600 block"
+                      value={edu.degree}
+                      onUpdate={(v) => onUpdate(["education", idx, "degree"], v)}
+                    />
+                    <Period
+                      className="text-xs text-gray-400 block"
+                      entry={edu}
+                      path={["education", idx]}
+                      format="short"
+                    />
+                  </div>
+                </SortableItem>
+              ))}
+              <AddFirstItem path={["education"]} count={data.education.length} />
+            </section>
+          )}
+        </div>
+      </div>
+      <ConsentFooter data={data} />
+    </div>
+  );
+};
+
+// Brand (Creative Sidebar)
+const Ecommerce2: React.FC<TemplateProps> = ({ data, image, onUpdate, thumbnail }) => {
+  const labels = data.labels || DEFAULT_LABELS;
+  const show = (key: SectionKey) => isSectionVisible(data, key);
+  return (
+    <div id={wrapperId(thumbnail)} className={BASE_CLASS} style={{ ...COMMON_STYLES, display: "flex" }}>
+      {/* Sidebar */}
+      <div className="w-[30%] bg-gray-900 text-white p-8 flex flex-col gap-8">
+        <div className="text-center">
+          {image && (
+            <img
+              src={image}
+              alt="Profile"
+              className="w-32 h-32 rounded-full object-cover mx-auto mb-4 border-4 border-gray-700"
+            />
+          )}
+          <div className="text-sm space-y-2 opacity-90">
+            <Editable
+              value={data.contact.email}
+              onUpdate={(v) => onUpdate(["contact", "email"], v)}
+              className="block"
+            />
+            <Editable
+              value={data.contact.phone}
+              onUpdate={(v) => onUpdate(["contact", "phone"], v)}
+              className="block"
+            />
+            <Editable
+              value={data.contact.location}
+              onUpdate={(v) => onUpdate(["contact", "location"], v)}
+              className="block"
+            />
+          </div>
+        </div>
+
+        {/* Skills Section (Simplified) */}
+        {show("skills") && (
+          <div>
+            <Editable
+              tag="h3"
+              className="text-xs font-bold uppercase tracking-widest text-gray-400 mb-4 border-b border-gray-700 pb-1"
+              value={labels.skills}
+              onUpdate={(v) => onUpdate(["labels", "skills"], v)}
+            />
+            <div className="flex flex-wrap gap-2">
+              {data.skills.map((skill, idx) => (
+                <SortableItem key={idx} path={["skills"]} index={idx}>
+                  <span className="text-xs bg-gray-800 px-2 py-1 rounded text-gray-300 inline-block">
+                    <Editable value={skill} onUpdate={(v) => onUpdate(["skills", idx], v)} />
+                  </span>
+                </SortableItem>
+              ))}
+              <AddFirstItem path={["skills"]} count={data.skills.length} />
+            </div>
+          </div>
+        )}
+
+        {/* Languages Section */}
+        {show("languages") && (
+          <div>
+            <Editable
+              tag="h3"
+              className="text-xs font-bold uppercase tracking-widest text-gray-400 mb-4 border-b border-gray-700 pb-1"
+              value={labels.languages}
+              onUpdate={(v) => onUpdate(["labels", "languages"], v)}
+            />
+            <div className="space-y-2">
+              {data.languages.map((lang, idx) => (
+                <SortableItem key={idx} path={["languages"]} index={idx}>
+                  <div className="flex justify-between items-center text-sm">
+                    <Editable
+                      className="font-bold text-white"
+                      value={lang.language}
+                      onUpdate={(v) => onUpdate(["languages", idx, "language"], v)}
+                    />
+                    <Editable
+                      className="text-gray-400 italic text-xs"
+                      value={lang.proficiency}
+                      onUpdate={(v) => onUpdate(["languages", idx, "proficiency"], v)}
+                    />
+                  </div>
+                </SortableItem>
+              ))}
+              <AddFirstItem path={["languages"]} count={data.languages.length} />
+            </div>
+          </div>
+        )}
+
+        {/* Added Interests Section */}
+        {show("interests") && (
+          <div>
+            <Editable
+              tag="h3"
+              className="text-xs font-bold uppercase tracking-widest text-gray-400 mb-4 border-b border-gray-700 pb-1"
+              value={labels.interests}
+              onUpdate={(v) => onUpdate(["labels", "interests"], v)}
+            />
+            <div className="flex flex-wrap gap-2">
+              {data.interests.map((interest, idx) => (
+                <SortableItem key={idx} path={["interests"]} index={idx}>
+                  <span className="text-xs bg-gray-800 px-2 py-1 rounded text-gray-300 inline-block border border-gray-700">
+                    <Editable value={interest} onUpdate={(v) => onUpdate(["interests", idx], v)} />
+                  </span>
+                </SortableItem>
+              ))}
+              <AddFirstItem path={["interests"]} count={data.interests.length} />
+            </div>
+          </div>
+        )}
+
+        {/* Education Section */}
+        {show("education") && (
+          <div>
+            <Editable
+              tag="h3"
+              className="text-xs font-bold uppercase tracking-widest text-gray-400 mb-4 border-b border-gray-700 pb-1"
+              value={labels.education}
+              onUpdate={(v) => onUpdate(["labels", "education"], v)}
+            />
+            {data.education.map((edu, idx) => (
+              <SortableItem key={idx} path={["education"]} index={idx} className="mb-4 text-sm">
+                <div>
+                  <Editable
+                    className="font-bold block text-white"
+                    value={edu.school}
+                    onUpdate={(v) => onUpdate(["education", idx, "school"], v)}
+                  />
+                  <Editable
+                    className="text-gray-400 block"
+                    value={edu.degree}
+                    onUpdate={(v) => onUpdate(["education", idx, "degree"], v)}
+                  />
+                  <Period
+                    className="text-xs text-gray-500 block"
+                    entry={edu}
+                    path={["education", idx]}
+                    format="short"
+                  />
+                </div>
+              </SortableItem>
+            ))}
+            <AddFirstItem path={["education"]} count={data.education.length} />
+          </div>
+        )}
+      </div>
+
+      {/* Main Content */}
+      <div className="flex-1 p-10 bg-white">
+        <header className="mb-10 border-b-2 border-gray-100 pb-8">
+          <Editable
+            tag="h1"
+            className="text-5xl font-bold text-gray-900 leading-tight mb-2"
+            value={data.fullName}
+            onUpdate={(v) => onUpdate(["fullName"], v)}
+          />
+          <Editable
+            tag="p"
+            className="text-2xl text-blue-600 font-light"
+            value={data.title}
+            onUpdate={(v) => onUpdate(["title"], v)}
+          />
+        </header>
+        {show("aboutMe") && (
+          <section className="mb-10">
+            <Editable
+              tag="h3"
+              className="text-sm font-bold uppercase tracking-widest text-gray-400 mb-4"
+              value={labels.aboutMe}
+              onUpdate={(v) => onUpdate(["labels", "aboutMe"], v)}
+            />
+            <div className="space-y-4">
+              {data.aboutMe.map((item, idx) => (
+                <SortableItem key={item.id} path={["aboutMe"]} index={idx}>
+                  <div>
+                    <p className="font-bold text-gray-900 text-sm mb-1">
+                      <Editable value={item.main} onUpdate={(v) => onUpdate(["aboutMe", idx, "main"], v)} />
+                    </p>
+                    <p className="text-gray-600 text-sm leading-relaxed">
+                      <Editable value={item.text} onUpdate={(v) => onUpdate(["aboutMe", idx, "text"], v)} />
+                    </p>
+                  </div>
+                </SortableItem>
+              ))}
+              <AddFirstItem path={["aboutMe"]} count={data.aboutMe.length} />
+            </div>
+          </section>
+        )}
+        {show("experience") && (
+          <section>
+            <Editable
+              tag="h3"
+              className="text-sm font-bold uppercase tracking-widest text-gray-400 mb-6"
+              value={labels.experience}
+              onUpdate={(v) => onUpdate(["labels", "experience"], v)}
+            />
+            <div className="space-y-8">
+              {data.experience.map((exp, idx) => (
+                <SortableItem key={exp.id} path={["experience"]} index={idx}>
+                  <div className="relative pl-6 border-l-2 border-gray-100">
+                    <div className="absolute -left-[9px] top-0 w-4 h-4 rounded-full bg-blue-50 border-2 border-blue-500"></div>
+                    <div className="flex justify-between items-baseline mb-1">
+                      <Editable
+                        tag="h4"
+                        className="text-lg font-bold text-gray-900"
+                        value={exp.role}
+                        onUpdate={(v) => onUpdate(["experience", idx, "role"], v)}
+                      />
+                      <Period
+                        tag="span"
+                        className="text-xs font-bold text-blue-600 bg-blue-50 px-2 py-1 rounded"
+                        entry={exp}
+                        path={["experience", idx]}
+                        format="short"
+                      />
+                    </div>
+                    <Editable
+                      className="text-sm font-semibold text-gray-500 mb-3 block"
+                      value={exp.company}
+                      onUpdate={(v) => onUpdate(["experience", idx, "company"], v)}
+                    />
+                    <ul className="list-disc list-outside ml-4 text-sm text-gray-600 space-y-1">
+                      {exp.description.map((desc, i) => (
+                        <SortableItem key={i} path={["experience", idx, "description"]} index={i} as="li">
+                          <Editable value={desc} onUpdate={(v) => onUpdate(["experience", idx, "description", i], v)} />
+                        </SortableItem>
+                      ))}
+                      <AddFirstItem path={["experience", idx, "description"]} count={exp.description.length} as="li" />
+                    </ul>
+                  </div>
+                </SortableItem>
+              ))}
+              <AddFirstItem path={["experience"]} count={data.experience.length} />
+            </div>
+          </section>
+        )}
+        <ExtraSections
+          data={data}
+          onUpdate={onUpdate}
+          heading={(label, update) => (
+            <Editable
+              tag="h3"
+              className="text-sm font-bold uppercase tracking-widest text-gray-400 mb-6"
+              value={label}
+              onUpdate={update}
+            />
+          )}
+          className="mt-10"
+          titleClassName="font-bold text-gray-900"
+          detailClassName="text-sm text-blue-600"
+        />
+        <ConsentFooter data={data} />
+      </div>
+    </div>
+  );
+};
+
+// Spotlight (Centered, Creative)
+const Marketing1: React.FC<TemplateProps> = ({ data, image, onUpdate, thumbnail }) => {
+  const labels = data.labels || DEFAULT_LABELS;
+  const show = (key: SectionKey) => isSectionVisible(data, key);
+  return (
+    <div id={wrapperId(thumbnail)} className={BASE_CLASS} style={{ ...COMMON_STYLES, padding: "40px" }}>
+      <header className="flex flex-col items-center mb-10 border-b-4 border-purple-600 pb-8">
+        {image && (
+          <img
+            src={image}
+            alt="Profile"
+            className="w-32 h-32 rounded-full object-cover border-4 border-purple-100 mb-4 shadow-sm"
+          />
+        )}
+        <Editable
+          tag="h1"
+          className="text-5xl font-extrabold text-gray-900 tracking-tight mb-2 text-center"
+          value={data.fullName}
+          onUpdate={(v) => onUpdate(["fullName"], v)}
+        />
+        <Editable
+          tag="p"
+          className="text-xl text-purple-600 font-medium mb-4 tracking-wide uppercase"
+          value={data.title}
+          onUpdate={(v) => onUpdate(["title"], v)}
+        />
+        <div className="flex flex-wrap justify-center gap-4 text-sm text-gray-500">
+          <span className="flex items-center gap-1 bg-gray-50 px-3 py-1 rounded-full">
+            <MailIcon /> <Editable value={data.contact.email} onUpdate={(v) => onUpdate(["contact", "email"], v)} />
+          </span>
+          <span className="flex items-center gap-1 bg-gray-50 px-3 py-1 rounded-full">
+            <PhoneIcon /> <Editable value={data.contact.phone} onUpdate={(v) => onUpdate(["contact", "phone"], v)} />
+          </span>
+          <span className="flex items-center gap-1 bg-gray-50 px-3 py-1 rounded-full">
+            <MapPinIcon />{" "}
+            <Editable value={data.contact.location} onUpdate={(v) => onUpdate(["contact", "location"], v)} />
+          </span>
+        </div>
+      </header>
+      {show("aboutMe") && (
+        <section className="mb-10 bg-purple-50 p-6 rounded-xl border border-purple-100">
+          <Editable
+            tag="h3"
+            className="text-xs font-bold uppercase tracking-widest text-purple-600 mb-3"
+            value={labels.aboutMe}
+            onUpdate={(v) => onUpdate(["labels", "aboutMe"], v)}
+          />
+          <div className="space-y-3">
+            {data.aboutMe.map((item, idx) => (
+              <SortableItem key={item.id} path={["aboutMe"]} index={idx}>
+                <p className="text-gray-700 leading-relaxed text-center italic text-lg">
+                  <span className="font-bold not-italic mr-1">
+                    <Editable value={item.main} onUpdate={(v) => onUpdate(["aboutMe", idx, "main"], v)} />
+                  </span>
+                  <Editable value={item.text} onUpdate={(v) => onUpdate(["aboutMe", idx, "text"], v)} />
+                </p>
+              </SortableItem>
+            ))}
+            <AddFirstItem path={["aboutMe"]} count={data.aboutMe.length} />
+          </div>
+        </section>
+      )}
+      <div className="grid grid-cols-12 gap-8">
+        <div className="col-span-8">
+          {show("experience") && (
+            <section className="mb-8">
+              <div className="flex items-center gap-2 mb-6">
+                <span className="text-purple-500 text-xl font-bold">#</span>
+                <Editable
+                  tag="h3"
+                  className="text-xl font-bold text-gray-800"
+                  value={labels.experience}
+                  onUpdate={(v) => onUpdate(["labels", "experience"], v)}
+                />
+              </div>
+              <div className="space-y-8">
+                {data.experience.map((exp, idx) => (
+                  <SortableItem key={exp.id} path={["experience"]} index={idx}>
+                    <div className="relative pl-6 border-l-2 border-purple-200">
+                      <div className="absolute -left-[9px] top-0 w-4 h-4 rounded-full bg-purple-500 border-4 border-white"></div>
+                      <Editable
+                        tag="h4"
+                        className="text-lg font-bold text-gray-900 block"
+                        value={exp.role}
+                        onUpdate={(v) => onUpdate(["experience", idx, "role"], v)}
+                      />
+                      <div className="text-purple-600 font-medium text-sm mb-2">
+                        <Editable value={exp.company} onUpdate={(v) => onUpdate(["experience", idx, "company"], v)} /> •{" "}
+                        <Period entry={exp} path={["experience", idx]} format="long" />
+                      </div>
+                      <ul className="list-disc list-outside ml-4 text-gray-600 text-sm space-y-1">
+                        {exp.description.map((desc, i) => (
+                          <SortableItem key={i} path={["experience", idx, "description"]} index={i} as="li">
+                            <Editable
+                              value={desc}
+                              onUpdate={(v) => onUpdate(["experience", idx, "description", i], v)}
+                            />
+                          </SortableItem>
+                        ))}
+                        <AddFirstItem
+                          path={["experience", idx, "description"]}
+                          count={exp.description.length}
+                          as="li"
+                        />
+                      </ul>
+                    </div>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["experience"]} count={data.experience.length} />
+              </div>
+            </section>
+          )}
+          <ExtraSections
+            data={data}
+            onUpdate={onUpdate}
+            heading={(label, update) => (
+              <div className="flex items-center gap-2 mb-6">
+                <span className="text-purple-500 text-xl font-bold">#</span>
+                <Editable tag="h3" className="text-xl font-bold text-gray-800" value={label} onUpdate={update} />
+              </div>
+            )}
+            className="mb-8"
+            titleClassName="font-bold text-gray-800"
+            detailClassName="text-sm text-purple-600"
+          />
+        </div>
+        <div className="col-span-4 space-y-8">
+          {show("skills") && (
+            <section>
+              <div className="flex items-center gap-2 mb-6">
+                <span className="text-purple-500 text-xl font-bold">#</span>
+                <Editable
+                  tag="h3"
+                  className="text-xl font-bold text-gray-800"
+                  value={labels.skills}
+                  onUpdate={(v) => onUpdate(["labels", "skills"], v)}
+                />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {data.skills.map((skill, idx) => (
+                  <SortableItem key={idx} path={["skills"]} index={idx}>
+                    <span className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded font-medium inline-block">
+                      <Editable value={skill} onUpdate={(v) => onUpdate(["skills", idx], v)} />
+                    </span>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["skills"]} count={data.skills.length} />
+              </div>
+            </section>
+          )}
+          {show("languages") && (
+            <section>
+              <div className="flex items-center gap-2 mb-6">
+                <span className="text-purple-500 text-xl font-bold">#</span>
+                <Editable
+                  tag="h3"
+                  className="text-xl font-bold text-gray-800"
+                  value={labels.languages}
+                  onUpdate={(v) => onUpdate(["labels", "languages"], v)}
+                />
+              </div>
+              <div className="space-y-2">
+                {data.languages.map((lang, idx) => (
+                  <SortableItem key={idx} path={["languages"]} index={idx}>
+                    <div className="flex justify-between text-sm">
+                      <Editable
+                        className="font-medium text-gray-700"
+                        value={lang.language}
+                        onUpdate={(v) => onUpdate(["languages", idx, "language"], v)}
+                      />
+                      <Editable
+                        className="text-gray-500"
+                        value={lang.proficiency}
+                        onUpdate={(v) => onUpdate(["languages", idx, "proficiency"], v)}
+                      />
+                    </div>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["languages"]} count={data.languages.length} />
+              </div>
+            </section>
+          )}
+          {show("education") && (
+            <section>
+              <div className="flex items-center gap-2 mb-6">
+                <span className="text-purple-500 text-xl font-bold">#</span>
+                <Editable
+                  tag="h3"
+                  className="text-xl font-bold text-gray-800"
+                  value={labels.education}
+                  onUpdate={(v) => onUpdate(["labels", "education"], v)}
+                />
+              </div>
+              {data.education.map((edu, idx) => (
+                <SortableItem key={edu.id} path={["education"]} index={idx} className="mb-4">
+                  <div>
+                    <Editable
+                      className="font-bold text-gray-800 text-sm block"
+                      value={edu.school}
+                      onUpdate={(v) => onUpdate(["education", idx, "school"], v)}
+                    />
+                    <Editable
+                      className="text-xs text-gray-500 block"
+                      value={edu.degree}
+                      onUpdate={(v) => onUpdate(["education", idx, "degree"], v)}
+                    />
+                    <Period
+                      className="text-xs text-purple-500 font-medium mt-1 block"
+                      entry={edu}
+                      path={["education", idx]}
+                      format="long"
+                    />
+                  </div>
+                </SortableItem>
+              ))}
+              <AddFirstItem path={["education"]} count={data.education.length} />
+            </section>
+          )}
+          {show("interests") && (
+            <section>
+              <div className="flex items-center gap-2 mb-6">
+                <span className="text-purple-500 text-xl font-bold">#</span>
+                <Editable
+                  tag="h3"
+                  className="text-xl font-bold text-gray-800"
+                  value={labels.interests}
+                  onUpdate={(v) => onUpdate(["labels", "interests"], v)}
+                />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {data.interests.map((interest, idx) => (
+                  <SortableItem key={idx} path={["interests"]} index={idx}>
+                    <span className="text-xs bg-purple-50 text-purple-700 px-2 py-1 rounded inline-block">
+                      <Editable value={interest} onUpdate={(v) => onUpdate(["interests", idx], v)} />
+                    </span>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["interests"]} count={data.interests.length} />
+              </div>
+            </section>
+          )}
+        </div>
+      </div>
+      <ConsentFooter data={data} />
+    </div>
+  );
+};
+
+// Studio (Dark Sidebar)
+const Marketing2: React.FC<TemplateProps> = ({ data, image, onUpdate, thumbnail }) => {
+  const labels = data.labels || DEFAULT_LABELS;
+  const show = (key: SectionKey) => isSectionVisible(data, key);
+  return (
+    <div id={wrapperId(thumbnail)} className={BASE_CLASS} style={COMMON_STYLES}>
+      <div className="flex h-full min-h-[297mm]">
+        <div className="w-[35%] bg-gray-900 text-white p-8 flex flex-col">
+          <div className="flex flex-col items-center mb-10">
+            {image && (
+              <img
+                src={image}
+                alt="Profile"
+                className="w-36 h-36 rounded-full object-cover border-4 border-gray-700 mb-6"
+              />
+            )}
+            <Editable
+              tag="h1"
+              className="text-2xl font-bold text-center leading-tight mb-2"
+              value={data.fullName}
+              onUpdate={(v) => onUpdate(["fullName"], v)}
+            />
+            <Editable
+              tag="p"
+              className="text-purple-400 text-sm font-medium tracking-widest uppercase"
+              value={data.title}
+              onUpdate={(v) => onUpdate(["title"], v)}
+            />
+          </div>
+          <div className="space-y-8 flex-1">
+            <div className="space-y-3 text-sm text-gray-300">
+              <div className="flex items-center gap-3">
+                <MailIcon /> <Editable value={data.contact.email} onUpdate={(v) => onUpdate(["contact", "email"], v)} />
+              </div>
+              <div className="flex items-center gap-3">
+                <PhoneIcon />{" "}
+                <Editable value={data.contact.phone} onUpdate={(v) => onUpdate(["contact", "phone"], v)} />
+              </div>
+              <div className="flex items-center gap-3">
+                <MapPinIcon />{" "}
+                <Editable value={data.contact.location} onUpdate={(v) => onUpdate(["contact", "location"], v)} />
+              </div>
+            </div>
+            {show("skills") && (
+              <div>
+                <Editable
+                  tag="h3"
+                  className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-4 border-b border-gray-700 pb-1 block"
+                  value={labels.skills}
+                  onUpdate={(v) => onUpdate(["labels", "skills"], v)}
+                />
+                <div className="flex flex-wrap gap-1">
+                  {data.skills.map((skill, idx) => (
+                    <SortableItem key={idx} path={["skills"]} index={idx}>
+                      <span className="text-[10px] border border-gray-600 px-1.5 py-0.5 rounded text-gray-300 inline-block">
+                        <Editable value={skill} onUpdate={(v) => onUpdate(["skills", idx], v)} />
+                      </span>
+                    </SortableItem>
+                  ))}
+                  <AddFirstItem path={["skills"]} count={data.skills.length} />
+                </div>
+              </div>
+            )}
+            {show("languages") && (
+              <div>
+                <Editable
+                  tag="h3"
+                  className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-4 border-b border-gray-700 pb-1 block"
+                  value={labels.languages}
+                  onUpdate={(v) => onUpdate(["labels", "languages"], v)}
+                />
+                <div className="text-sm text-gray-300 space-y-1">
+                  {data.languages.map((lang, idx) => (
+                    <SortableItem key={idx} path={["languages"]} index={idx}>
+                      <div className="flex justify-between">
+                        <Editable value={lang.language} onUpdate={(v) => onUpdate(["languages", idx, "language"], v)} />
+                        <Editable
+                          className="text-gray-500 text-xs"
+                          value={lang.proficiency}
+                          onUpdate={(v) => onUpdate(["languages", idx, "proficiency"], v)}
+                        />
+                      </div>
+                    </SortableItem>
+                  ))}
+                  <AddFirstItem path={["languages"]} count={data.languages.length} />
+                </div>
+              </div>
+            )}
+            {show("education") && (
+              <div>
+                <Editable
+                  tag="h3"
+                  className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-4 border-b border-gray-700 pb-1 block"
+                  value={labels.education}
+                  onUpdate={(v) => onUpdate(["labels", "education"], v)}
+                />
+                {data.education.map((edu, idx) => (
+                  <SortableItem key={edu.id} path={["education"]} index={idx} className="mb-4">
+                    <div>
+                      <Editable
+                        className="font-bold text-white text-sm block"
+                        value={edu.school}
+                        onUpdate={(v) => onUpdate(["education", idx, "school"], v)}
+                      />
+                      <Editable
+                        className="text-xs text-gray-400 block"
+                        value={edu.degree}
+                        onUpdate={(v) => onUpdate(["education", idx, "degree"], v)}
+                      />
+                      <Period
+                        className="text-xs text-purple-400 mt-1 block"
+                        entry={edu}
+                        path={["education", idx]}
+                        format="long"
+                      />
+                    </div>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["education"]} count={data.education.length} />
+              </div>
+            )}
+            {show("interests") && (
+              <div>
+                <Editable
+                  tag="h3"
+                  className="text-xs font-bold uppercase tracking-widest text-gray-500 mb-4 border-b border-gray-700 pb-1 block"
+                  value={labels.interests}
+                  onUpdate={(v) => onUpdate(["labels", "interests"], v)}
+                />
+                <div className="flex flex-wrap gap-2">
+                  {data.interests.map((interest, idx) => (
+                    <SortableItem key={idx} path={["interests"]} index={idx}>
+                      <span className="text-[10px] bg-gray-800 px-2 py-1 rounded text-gray-300 inline-block">
+                        <Editable value={interest} onUpdate={(v) => onUpdate(["interests", idx], v)} />
+                      </span>
+                    </SortableItem>
+                  ))}
+                  <AddFirstItem path={["interests"]} count={data.interests.length} />
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+        <div className="w-[65%] p-10 bg-white">
+          {show("aboutMe") && (
+            <section className="mb-10">
+              <Editable
+                tag="h2"
+                className="text-4xl font-black text-gray-900 mb-6"
+                value={labels.aboutMe}
+                onUpdate={(v) => onUpdate(["labels", "aboutMe"], v)}
+              />
+              <div className="border-l-4 border-purple-500 pl-4 space-y-3">
+                {data.aboutMe.map((item, idx) => (
+                  <SortableItem key={item.id} path={["aboutMe"]} index={idx}>
+                    <p className="text-gray-600 leading-loose text-justify">
+                      <span className="font-bold text-gray-900 mr-1">
+                        <Editable value={item.main} onUpdate={(v) => onUpdate(["aboutMe", idx, "main"], v)} />
+                      </span>
+                      <Editable value={item.text} onUpdate={(v) => onUpdate(["aboutMe", idx, "text"], v)} />
+                    </p>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["aboutMe"]} count={data.aboutMe.length} />
+              </div>
+            </section>
+          )}
+          {show("experience") && (
+            <section>
+              <Editable
+                tag="h3"
+                className="text-xl font-bold text-gray-900 mb-8 border-b-2 border-gray-100 pb-2"
+                value={labels.experience}
+                onUpdate={(v) => onUpdate(["labels", "experience"], v)}
+              />
+              <div className="space-y-8">
+                {data.experience.map((exp, idx) => (
+                  <SortableItem key={exp.id} path={["experience"]} index={idx}>
+                    <div>
+                      <div className="flex justify-between items-start mb-1">
+                        <Editable
+                          tag="h4"
+                          className="text-xl font-bold text-gray-800"
+                          value={exp.role}
+                          onUpdate={(v) => onUpdate(["experience", idx, "role"], v)}
+                        />
+                        <Period
+                          tag="span"
+                          className="text-sm font-bold bg-gray-100 px-2 py-1 rounded"
+                          entry={exp}
+                          path={["experience", idx]}
+                          format="long"
+                        />
+                      </div>
+                      <Editable
+                        className="text-purple-600 font-medium mb-3 block"
+                        value={exp.company}
+                        onUpdate={(v) => onUpdate(["experience", idx, "company"], v)}
+                      />
+                      <ul className="list-disc list-outside ml-4 text-gray-600 text-sm space-y-2">
+                        {exp.description.map((desc, i) => (
+                          <SortableItem key={i} path={["experience", idx, "description"]} index={i} as="li">
+                            <Editable
+                              value={desc}
+                              onUpdate={(v) => onUpdate(["experience", idx, "description", i], v)}
+                            />
+                          </SortableItem>
+                        ))}
+                        <AddFirstItem
+                          path={["experience", idx, "description"]}
+                          count={exp.description.length}
+                          as="li"
+                        />
+                      </ul>
+                    </div>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["experience"]} count={data.experience.length} />
+              </div>
+            </section>
+          )}
+          <ExtraSections
+            data={data}
+            onUpdate={onUpdate}
+            heading={(label, update) => (
+              <Editable
+                tag="h3"
+                className="text-xl font-bold text-gray-900 mb-8 border-b-2 border-gray-100 pb-2"
+                value={label}
+                onUpdate={update}
+              />
+            )}
+            className="mt-10"
+            titleClassName="font-bold text-gray-900"
+            detailClassName="text-sm text-gray-500"
+          />
+          <ConsentFooter data={data} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Corporate (Blue Header Band)
+const Logistics1: React.FC<TemplateProps> = ({ data, image, onUpdate, thumbnail }) => {
+  const labels = data.labels || DEFAULT_LABELS;
+  const show = (key: SectionKey) => isSectionVisible(data, key);
+  return (
+    <div id={wrapperId(thumbnail)} className={BASE_CLASS} style={{ ...COMMON_STYLES, padding: "40px" }}>
+      <div className="bg-blue-900 text-white p-8 -m-[40px] mb-8 flex items-center gap-6">
+        {image && (
+          <img src={image} alt="Profile" className="w-24 h-24 rounded-lg object-cover border-2 border-blue-400" />
+        )}
+        <div className="flex-1">
+          <Editable
+            tag="h1"
+            className="text-4xl font-bold uppercase tracking-wider block"
+            value={data.fullName}
+            onUpdate={(v) => onUpdate(["fullName"], v)}
+          />
+          <Editable
+            tag="p"
+            className="text-lg text-blue-200 font-medium mt-1 block"
+            value={data.title}
+            onUpdate={(v) => onUpdate(["title"], v)}
+          />
+        </div>
+        <div className="text-right text-sm text-blue-100 space-y-1 text-xs">
+          <Editable className="block" value={data.contact.email} onUpdate={(v) => onUpdate(["contact", "email"], v)} />
+          <Editable className="block" value={data.contact.phone} onUpdate={(v) => onUpdate(["contact", "phone"], v)} />
+          <Editable
+            className="block"
+            value={data.contact.location}
+            onUpdate={(v) => onUpdate(["contact", "location"], v)}
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-3 gap-8 pt-6">
+        <div className="col-span-2 space-y-8">
+          {show("aboutMe") && (
+            <section>
+              <Editable
+                tag="h3"
+                className="text-sm font-bold uppercase tracking-wider text-blue-800 border-b-2 border-blue-800 mb-4 pb-1"
+                value={labels.aboutMe}
+                onUpdate={(v) => onUpdate(["labels", "aboutMe"], v)}
+              />
+              <div className="space-y-2">
+                {data.aboutMe.map((item, idx) => (
+                  <SortableItem key={item.id} path={["aboutMe"]} index={idx}>
+                    <p className="text-gray-700 text-justify text-sm leading-relaxed">
+                      <span className="font-bold text-gray-900 mr-1">
+                        <Editable value={item.main} onUpdate={(v) => onUpdate(["aboutMe", idx, "main"], v)} />
+                      </span>
+                      <Editable value={item.text} onUpdate={(v) => onUpdate(["aboutMe", idx, "text"], v)} />
+                    </p>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["aboutMe"]} count={data.aboutMe.length} />
+              </div>
+            </section>
+          )}
+          {show("experience") && (
+            <section>
+              <Editable
+                tag="h3"
+                className="text-sm font-bold uppercase tracking-wider text-blue-800 border-b-2 border-blue-800 mb-4 pb-1"
+                value={labels.experience}
+                onUpdate={(v) => onUpdate(["labels", "experience"], v)}
+              />
+              <div className="space-y-6">
+                {data.experience.map((exp, idx) => (
+                  <SortableItem key={exp.id} path={["experience"]} index={idx}>
+                    <div>
+                      <div className="flex justify-between items-baseline">
+                        <Editable
+                          tag="h4"
+                          className="text-lg font-bold text-gray-900"
+                          value={exp.role}
+                          onUpdate={(v) => onUpdate(["experience", idx, "role"], v)}
+                        />
+                        <Period
+                          tag="span"
+                          className="text-sm font-bold text-blue-700"
+                          entry={exp}
+                          path={["experience", idx]}
+                          format="numeric"
+                        />
+                      </div>
+                      <Editable
+                        className="text-sm text-gray-600 font-semibold mb-2 uppercase block"
+                        value={exp.company}
+                        onUpdate={(v) => onUpdate(["experience", idx, "company"], v)}
+                      />
+                      <ul className="list-square list-inside text-gray-700 text-sm space-y-1">
+                        {exp.description.map((desc, i) => (
+                          <SortableItem
+                            key={i}
+                            path={["experience", idx, "description"]}
+                            index={i}
+                            as="li"
+                            className="pl-2 border-l-2 border-gray-200 ml-1"
+                          >
+                            <Editable
+                              value={desc}
+                              onUpdate={(v) => onUpdate(["experience", idx, "description", i], v)}
+                            />
+                          </SortableItem>
+                        ))}
+                        <AddFirstItem
+                          path={["experience", idx, "description"]}
+                          count={exp.description.length}
+                          as="li"
+                        />
+                      </ul>
+                    </div>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["experience"]} count={data.experience.length} />
+              </div>
+            </section>
+          )}
+          <ExtraSections
+            data={data}
+            onUpdate={onUpdate}
+            heading={(label, update) => (
+              <Editable
+                tag="h3"
+                className="text-sm font-bold uppercase tracking-wider text-blue-800 border-b-2 border-blue-800 mb-4 pb-1"
+                value={label}
+                onUpdate={update}
+              />
+            )}
+            className="mt-8"
+            titleClassName="font-bold text-gray-900"
+            detailClassName="text-sm text-blue-800"
+          />
+        </div>
+        <div className="col-span-1 bg-gray-50 p-4 -my-4 rounded border border-gray-100 h-full">
+          {show("skills") && (
+            <section className="mb-8">
+              <Editable
+                tag="h3"
+                className="text-sm font-bold uppercase tracking-wider text-blue-800 mb-4 block"
+                value={labels.skills}
+                onUpdate={(v) => onUpdate(["labels", "skills"], v)}
+              />
+              <div className="space-y-1">
+                {data.skills.map((skill, idx) => (
+                  <SortableItem key={idx} path={["skills"]} index={idx}>
+                    <div className="text-sm text-gray-700 flex items-center gap-2">
+                      <span className="w-1.5 h-1.5 bg-blue-500 rounded-full shrink-0"></span>{" "}
+                      <Editable value={skill} onUpdate={(v) => onUpdate(["skills", idx], v)} />
+                    </div>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["skills"]} count={data.skills.length} />
+              </div>
+            </section>
+          )}
+          {show("languages") && (
+            <section className="mb-8">
+              <Editable
+                tag="h3"
+                className="text-sm font-bold uppercase tracking-wider text-blue-800 mb-4 block"
+                value={labels.languages}
+                onUpdate={(v) => onUpdate(["labels", "languages"], v)}
+              />
+              <div className="space-y-2 text-sm text-gray-700">
+                {data.languages.map((lang, idx) => (
+                  <SortableItem key={idx} path={["languages"]} index={idx}>
+                    <div className="flex justify-between border-b border-gray-200 pb-1">
+                      <Editable value={lang.language} onUpdate={(v) => onUpdate(["languages", idx, "language"], v)} />
+                      <Editable
+                        className="font-bold text-blue-600"
+                        value={lang.proficiency}
+                        onUpdate={(v) => onUpdate(["languages", idx, "proficiency"], v)}
+                      />
+                    </div>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["languages"]} count={data.languages.length} />
+              </div>
+            </section>
+          )}
+          {show("education") && (
+            <section className="mb-8">
+              <Editable
+                tag="h3"
+                className="text-sm font-bold uppercase tracking-wider text-blue-800 mb-4 block"
+                value={labels.education}
+                onUpdate={(v) => onUpdate(["labels", "education"], v)}
+              />
+              {data.education.map((edu, idx) => (
+                <SortableItem
+                  key={edu.id}
+                  path={["education"]}
+                  index={idx}
+                  className="mb-4 border-b border-gray-200 pb-2 last:border-0"
+                >
+                  <div>
+                    <Editable
+                      className="font-bold text-gray-900 text-sm block"
+                      value={edu.school}
+                      onUpdate={(v) => onUpdate(["education", idx, "school"], v)}
+                    />
+                    <Editable
+                      className="text-xs text-gray-600 block"
+                      value={edu.degree}
+                      onUpdate={(v) => onUpdate(["education", idx, "degree"], v)}
+                    />
+                    <Period
+                      className="text-xs text-blue-600 font-medium mt-1 block"
+                      entry={edu}
+                      path={["education", idx]}
+                      format="numeric"
+                    />
+                  </div>
+                </SortableItem>
+              ))}
+              <AddFirstItem path={["education"]} count={data.education.length} />
+            </section>
+          )}
+          {show("interests") && (
+            <section className="mb-8">
+              <Editable
+                tag="h3"
+                className="text-sm font-bold uppercase tracking-wider text-blue-800 mb-4 block"
+                value={labels.interests}
+                onUpdate={(v) => onUpdate(["labels", "interests"], v)}
+              />
+              <div className="flex flex-wrap gap-2">
+                {data.interests.map((interest, idx) => (
+                  <SortableItem key={idx} path={["interests"]} index={idx}>
+                    <span className="text-xs bg-gray-200 px-2 py-1 rounded text-gray-700 inline-block">
+                      <Editable value={interest} onUpdate={(v) => onUpdate(["interests", idx], v)} />
+                    </span>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["interests"]} count={data.interests.length} />
+              </div>
+            </section>
+          )}
+        </div>
+      </div>
+      <ConsentFooter data={data} />
+    </div>
+  );
+};
+
+// Compact (Dense, One-Page)
+const Logistics2: React.FC<TemplateProps> = ({ data, image, onUpdate, thumbnail }) => {
+  const labels = data.labels || DEFAULT_LABELS;
+  const show = (key: SectionKey) => isSectionVisible(data, key);
+  return (
+    <div id={wrapperId(thumbnail)} className={BASE_CLASS} style={{ ...COMMON_STYLES, padding: "30px" }}>
+      <div className="border-b-4 border-gray-800 mb-6 pb-6 flex justify-between items-end">
+        <div>
+          <Editable
+            tag="h1"
+            className="text-3xl font-black uppercase tracking-tighter mb-1 block"
+            value={data.fullName}
+            onUpdate={(v) => onUpdate(["fullName"], v)}
+          />
+          <Editable
+            tag="div"
+            className="text-sm font-bold bg-gray-800 text-white inline-block px-2 py-0.5"
+            value={data.title}
+            onUpdate={(v) => onUpdate(["title"], v)}
+          />
+        </div>
+        {image && <img src={image} alt="Profile" className="w-16 h-16 object-cover border border-gray-300" />}
+      </div>
+      <div className="grid grid-cols-4 gap-4 mb-6 text-xs border-b border-gray-200 pb-6">
+        <div className="col-span-3 space-y-1">
+          {show("aboutMe") && (
+            <>
+              <span className="font-bold text-gray-800 uppercase block">
+                <Editable tag="span" value={labels.aboutMe} onUpdate={(v) => onUpdate(["labels", "aboutMe"], v)} />:
+              </span>
+              {data.aboutMe.map((item, idx) => (
+                <SortableItem key={item.id} path={["aboutMe"]} index={idx}>
+                  <p className="text-gray-600">
+                    <span className="font-bold text-gray-800 mr-1">
+                      <Editable value={item.main} onUpdate={(v) => onUpdate(["aboutMe", idx, "main"], v)} />
+                    </span>
+                    <Editable value={item.text} onUpdate={(v) => onUpdate(["aboutMe", idx, "text"], v)} />
+                  </p>
+                </SortableItem>
+              ))}
+              <AddFirstItem path={["aboutMe"]} count={data.aboutMe.length} />
+            </>
+          )}
+        </div>
+        <div className="col-span-1 space-y-1 text-right text-gray-600">
+          <Editable className="block" value={data.contact.email} onUpdate={(v) => onUpdate(["contact", "email"], v)} />
+          <Editable className="block" value={data.contact.phone} onUpdate={(v) => onUpdate(["contact", "phone"], v)} />
+          <Editable
+            className="block"
+            value={data.contact.location}
+            onUpdate={(v) => onUpdate(["contact", "location"], v)}
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-3 gap-8">
+        <div className="col-span-2">
+          {show("experience") && (
+            <>
+              <Editable
+                tag="h3"
+                className="text-sm font-black uppercase border-b-2 border-gray-300 mb-4 block"
+                value={labels.experience}
+                onUpdate={(v) => onUpdate(["labels", "experience"], v)}
+              />
+              <div className="space-y-5">
+                {data.experience.map((exp, idx) => (
+                  <SortableItem key={exp.id} path={["experience"]} index={idx}>
+                    <div>
+                      <div className="flex justify-between text-sm mb-1">
+                        <Editable
+                          className="font-bold text-gray-900"
+                          value={exp.company}
+                          onUpdate={(v) => onUpdate(["experience", idx, "company"], v)}
+                        />
+                        <Period
+                          className="font-mono text-gray-500"
+                          entry={exp}
+                          path={["experience", idx]}
+                          format="numeric"
+                        />
+                      </div>
+                      <Editable
+                        className="text-xs font-bold text-gray-700 uppercase mb-1 block"
+                        value={exp.role}
+                        onUpdate={(v) => onUpdate(["experience", idx, "role"], v)}
+                      />
+                      <ul className="list-disc list-outside ml-4 text-xs text-gray-600 space-y-0.5">
+                        {exp.description.map((desc, i) => (
+                          <SortableItem key={i} path={["experience", idx, "description"]} index={i} as="li">
+                            <Editable
+                              value={desc}
+                              onUpdate={(v) => onUpdate(["experience", idx, "description", i], v)}
+                            />
+                          </SortableItem>
+                        ))}
+                        <AddFirstItem
+                          path={["experience", idx, "description"]}
+                          count={exp.description.length}
+                          as="li"
+                        />
+                      </ul>
+                    </div>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["experience"]} count={data.experience.length} />
+              </div>
+            </>
+          )}
+          <ExtraSections
+            data={data}
+            onUpdate={onUpdate}
+            heading={(label, update) => (
+              <Editable
+                tag="h3"
+                className="text-sm font-black uppercase border-b-2 border-gray-300 mb-4 block"
+                value={label}
+                onUpdate={update}
+              />
+            )}
+            className="mt-6"
+            titleClassName="text-sm font-bold text-gray-900"
+            detailClassName="text-xs text-gray-600"
+          />
+        </div>
+        <div className="col-span-1 bg-gray-50 p-4 border border-gray-100">
+          {show("skills") && (
+            <>
+              <Editable
+                tag="h3"
+                className="text-sm font-black uppercase border-b-2 border-gray-300 mb-4 block"
+                value={labels.skills}
+                onUpdate={(v) => onUpdate(["labels", "skills"], v)}
+              />
+              <div className="text-xs text-gray-600 leading-relaxed space-y-0.5">
+                {data.skills.map((skill, idx) => (
+                  <SortableItem key={idx} path={["skills"]} index={idx}>
+                    <div>
+                      • <Editable value={skill} onUpdate={(v) => onUpdate(["skills", idx], v)} />
+                    </div>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["skills"]} count={data.skills.length} />
+              </div>
+            </>
+          )}
+          {show("languages") && (
+            <div className="mt-8">
+              <Editable
+                tag="h3"
+                className="text-sm font-black uppercase border-b-2 border-gray-300 mb-4 block"
+                value={labels.languages}
+                onUpdate={(v) => onUpdate(["labels", "languages"], v)}
+              />
+              <div className="text-xs space-y-1">
+                {data.languages.map((lang, idx) => (
+                  <SortableItem key={idx} path={["languages"]} index={idx}>
+                    <div>
+                      <Editable value={lang.language} onUpdate={(v) => onUpdate(["languages", idx, "language"], v)} /> (
+                      <Editable
+                        value={lang.proficiency}
+                        onUpdate={(v) => onUpdate(["languages", idx, "proficiency"], v)}
+                      />
+                      )
+                    </div>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["languages"]} count={data.languages.length} />
+              </div>
+            </div>
+          )}
+          {show("education") && (
+            <>
+              <Editable
+                tag="h3"
+                className="text-sm font-black uppercase border-b-2 border-gray-300 mb-4 mt-8 block"
+                value={labels.education}
+                onUpdate={(v) => onUpdate(["labels", "education"], v)}
+              />
+              {data.education.map((edu, idx) => (
+                <SortableItem key={edu.id} path={["education"]} index={idx} className="mb-2">
+                  <div>
+                    <Editable
+                      className="font-bold text-gray-900 text-xs block"
+                      value={edu.school}
+                      onUpdate={(v) => onUpdate(["education", idx, "school"], v)}
+                    />
+                    <Editable
+                      className="text-xs text-gray-600 block"
+                      value={edu.degree}
+                      onUpdate={(v) => onUpdate(["education", idx, "degree"], v)}
+                    />
+                    <Period
+                      className="text-xs text-gray-400 block"
+                      entry={edu}
+                      path={["education", idx]}
+                      format="numeric"
+                    />
+                  </div>
+                </SortableItem>
+              ))}
+              <AddFirstItem path={["education"]} count={data.education.length} />
+            </>
+          )}
+          {show("interests") && (
+            <div className="mt-8">
+              <Editable
+                tag="h3"
+                className="text-sm font-black uppercase border-b-2 border-gray-300 mb-4 block"
+                value={labels.interests}
+                onUpdate={(v) => onUpdate(["labels", "interests"], v)}
+              />
+              <div className="text-xs text-gray-600 flex flex-wrap gap-1">
+                {data.interests.map((interest, idx) => (
+                  <SortableItem key={idx} path={["interests"]} index={idx} className="inline-block">
+                    <span className="after:content-[','] after:mr-1">
+                      <Editable value={interest} onUpdate={(v) => onUpdate(["interests", idx], v)} />
+                    </span>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["interests"]} count={data.interests.length} />
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+      <ConsentFooter data={data} />
+    </div>
+  );
+};
+
+// Terminal (Monospace, Left Column)
+const Engineering1: React.FC<TemplateProps> = ({ data, image, onUpdate, thumbnail }) => {
+  const labels = data.labels || DEFAULT_LABELS;
+  const show = (key: SectionKey) => isSectionVisible(data, key);
+  return (
+    <div id={wrapperId(thumbnail)} className={BASE_CLASS} style={{ ...COMMON_STYLES, padding: "40px" }}>
+      <header className="flex justify-between items-start border-b border-gray-300 pb-6 mb-8 font-mono">
+        <div>
+          <Editable
+            tag="h1"
+            className="text-3xl font-bold text-gray-900 mb-2 block"
+            value={data.fullName}
+            onUpdate={(v) => onUpdate(["fullName"], v)}
+          />
+          <div className="text-lg text-gray-600 flex items-center">
+            &lt;
+            <Editable value={data.title} onUpdate={(v) => onUpdate(["title"], v)} /> /&gt;
+          </div>
+          <div className="flex flex-wrap gap-4 text-xs text-gray-500 mt-4 font-sans">
+            <Editable value={data.contact.email} onUpdate={(v) => onUpdate(["contact", "email"], v)} /> |{" "}
+            <Editable value={data.contact.phone} onUpdate={(v) => onUpdate(["contact", "phone"], v)} /> |{" "}
+            <Editable value={data.contact.location} onUpdate={(v) => onUpdate(["contact", "location"], v)} />
+          </div>
+        </div>
+        {image && <img src={image} alt="Profile" className="w-24 h-24 object-cover grayscale opacity-90" />}
+      </header>
+      <div className="grid grid-cols-12 gap-6">
+        <div className="col-span-4 pr-6 border-r border-gray-200">
+          {show("skills") && (
+            <section className="mb-8">
+              <Editable
+                tag="h3"
+                className="font-mono text-sm font-bold text-gray-900 uppercase mb-4 tracking-tight block"
+                value={labels.skills}
+                onUpdate={(v) => onUpdate(["labels", "skills"], v)}
+              />
+              <div className="flex flex-wrap gap-1">
+                {data.skills.map((skill, idx) => (
+                  <SortableItem key={idx} path={["skills"]} index={idx}>
+                    <span className="text-xs border border-gray-300 px-1 py-0.5 rounded text-gray-600 font-mono inline-block">
+                      <Editable value={skill} onUpdate={(v) => onUpdate(["skills", idx], v)} />
+                    </span>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["skills"]} count={data.skills.length} />
+              </div>
+            </section>
+          )}
+          {show("languages") && (
+            <section className="mb-8">
+              <Editable
+                tag="h3"
+                className="font-mono text-sm font-bold text-gray-900 uppercase mb-4 tracking-tight block"
+                value={labels.languages}
+                onUpdate={(v) => onUpdate(["labels", "languages"], v)}
+              />
+              <div className="text-xs font-mono space-y-2 text-gray-600">
+                {data.languages.map((lang, idx) => (
+                  <SortableItem key={idx} path={["languages"]} index={idx}>
+                    <div>
+                      [<Editable value={lang.language} onUpdate={(v) => onUpdate(["languages", idx, "language"], v)} />]
+                      ::{" "}
+                      <Editable
+                        value={lang.proficiency}
+                        onUpdate={(v) => onUpdate(["languages", idx, "proficiency"], v)}
+                      />
+                    </div>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["languages"]} count={data.languages.length} />
+              </div>
+            </section>
+          )}
+          {show("education") && (
+            <section className="mb-8">
+              <Editable
+                tag="h3"
+                className="font-mono text-sm font-bold text-gray-900 uppercase mb-4 tracking-tight block"
+                value={labels.education}
+                onUpdate={(v) => onUpdate(["labels", "education"], v)}
+              />
+              {data.education.map((edu, idx) => (
+                <SortableItem key={edu.id} path={["education"]} index={idx} className="mb-4">
+                  <div>
+                    <Editable
+                      className="font-bold text-gray-900 text-sm block"
+                      value={edu.school}
+                      onUpdate={(v) => onUpdate(["education", idx, "school"], v)}
+                    />
+                    <Editable
+                      className="text-xs text-gray-600 italic block"
+                      value={edu.degree}
+                      onUpdate={(v) => onUpdate(["education", idx, "degree"], v)}
+                    />
+                    <div className="text-xs text-gray-400 font-mono mt-1">
+                      [<Period entry={edu} path={["education", idx]} format="iso" />]
+                    </div>
+                  </div>
+                </SortableItem>
+              ))}
+              <AddFirstItem path={["education"]} count={data.education.length} />
+            </section>
+          )}
+          {show("interests") && (
+            <section>
+              <Editable
+                tag="h3"
+                className="font-mono text-sm font-bold text-gray-900 uppercase mb-4 tracking-tight block"
+                value={labels.interests}
+                onUpdate={(v) => onUpdate(["labels", "interests"], v)}
+              />
+              <div className="text-xs font-mono text-gray-600 flex flex-wrap gap-1">
+                {data.interests.map((interest, idx) => (
+                  <SortableItem key={idx} path={["interests"]} index={idx} className="inline-block">
+                    <span>
+                      "<Editable value={interest} onUpdate={(v) => onUpdate(["interests", idx], v)} />"
+                    </span>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["interests"]} count={data.interests.length} />
+              </div>
+            </section>
+          )}
+        </div>
+        <div className="col-span-8">
+          {show("aboutMe") && (
+            <section className="mb-8">
+              <h3 className="font-mono text-sm font-bold text-gray-900 uppercase mb-3 tracking-tight">
+                git commit -m "<Editable value={labels.aboutMe} onUpdate={(v) => onUpdate(["labels", "aboutMe"], v)} />"
+              </h3>
+              <div className="space-y-2">
+                {data.aboutMe.map((item, idx) => (
+                  <SortableItem key={item.id} path={["aboutMe"]} index={idx}>
+                    <p className="text-gray-700 text-sm leading-relaxed">
+                      <span className="font-mono font-bold text-gray-900 mr-1">
+                        <Editable value={item.main} onUpdate={(v) => onUpdate(["aboutMe", idx, "main"], v)} />
+                      </span>
+                      <Editable value={item.text} onUpdate={(v) => onUpdate(["aboutMe", idx, "text"], v)} />
+                    </p>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["aboutMe"]} count={data.aboutMe.length} />
+              </div>
+            </section>
+          )}
+          {show("experience") && (
+            <section>
+              <h3 className="font-mono text-sm font-bold text-gray-900 uppercase mb-6 tracking-tight">
+                ./
+                <Editable value={labels.experience} onUpdate={(v) => onUpdate(["labels", "experience"], v)} />
+                .log
+              </h3>
+              <div className="space-y-8">
+                {data.experience.map((exp, idx) => (
+                  <SortableItem key={exp.id} path={["experience"]} index={idx}>
+                    <div>
+                      <div className="flex justify-between items-baseline mb-1">
+                        <Editable
+                          tag="h4"
+                          className="text-base font-bold text-gray-800"
+                          value={exp.role}
+                          onUpdate={(v) => onUpdate(["experience", idx, "role"], v)}
+                        />
+                        <Period
+                          tag="span"
+                          className="text-xs font-mono text-gray-500"
+                          entry={exp}
+                          path={["experience", idx]}
+                          format="iso"
+                        />
+                      </div>
+                      <div className="text-sm font-medium mb-2 font-mono text-blue-600">
+                        @ <Editable value={exp.company} onUpdate={(v) => onUpdate(["experience", idx, "company"], v)} />
+                      </div>
+                      <ul className="list-disc list-outside ml-4 text-gray-600 text-sm space-y-1 marker:text-gray-400">
+                        {exp.description.map((desc, i) => (
+                          <SortableItem key={i} path={["experience", idx, "description"]} index={i} as="li">
+                            <Editable
+                              value={desc}
+                              onUpdate={(v) => onUpdate(["experience", idx, "description", i], v)}
+                            />
+                          </SortableItem>
+                        ))}
+                        <AddFirstItem
+                          path={["experience", idx, "description"]}
+                          count={exp.description.length}
+                          as="li"
+                        />
+                      </ul>
+                    </div>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["experience"]} count={data.experience.length} />
+              </div>
+            </section>
+          )}
+          <ExtraSections
+            data={data}
+            onUpdate={onUpdate}
+            heading={(label, update) => (
+              <h3 className="font-mono text-sm font-bold text-gray-900 uppercase mb-6 tracking-tight">
+                ./
+                <Editable value={label} onUpdate={update} />
+                .log
+              </h3>
+            )}
+            className="mt-8"
+            titleClassName="font-mono font-bold text-gray-900"
+            detailClassName="text-sm text-gray-600"
+          />
+        </div>
+      </div>
+      <ConsentFooter data={data} />
+    </div>
+  );
+};
+
+// Minimal (Slate, Timeline)
+const Engineering2: React.FC<TemplateProps> = ({ data, image, onUpdate, thumbnail }) => {
+  const labels = data.labels || DEFAULT_LABELS;
+  const show = (key: SectionKey) => isSectionVisible(data, key);
+  return (
+    <div id={wrapperId(thumbnail)} className={BASE_CLASS} style={{ ...COMMON_STYLES, padding: "40px" }}>
+      <header className="flex gap-6 items-center mb-10">
+        {image && <img src={image} alt="Profile" className="w-24 h-24 rounded-2xl object-cover" />}
+        <div>
+          <Editable
+            tag="h1"
+            className="text-4xl font-bold tracking-tight text-gray-900 block"
+            value={data.fullName}
+            onUpdate={(v) => onUpdate(["fullName"], v)}
+          />
+          <Editable
+            tag="p"
+            className="text-lg text-slate-500 font-medium block"
+            value={data.title}
+            onUpdate={(v) => onUpdate(["title"], v)}
+          />
+          <div className="flex gap-4 text-sm text-slate-400 mt-2">
+            <Editable value={data.contact.email} onUpdate={(v) => onUpdate(["contact", "email"], v)} />
+            <Editable value={data.contact.phone} onUpdate={(v) => onUpdate(["contact", "phone"], v)} />
+            <Editable value={data.contact.location} onUpdate={(v) => onUpdate(["contact", "location"], v)} />
+          </div>
+        </div>
+      </header>
+      {show("aboutMe") && (
+        <section className="mb-8 bg-slate-50 p-4 rounded-lg space-y-2">
+          {data.aboutMe.map((item, idx) => (
+            <SortableItem key={item.id} path={["aboutMe"]} index={idx}>
+              <p className="text-slate-700">
+                <span className="font-bold text-slate-900 mr-1">
+                  <Editable value={item.main} onUpdate={(v) => onUpdate(["aboutMe", idx, "main"], v)} />
+                </span>
+                <Editable value={item.text} onUpdate={(v) => onUpdate(["aboutMe", idx, "text"], v)} />
+              </p>
+            </SortableItem>
+          ))}
+          <AddFirstItem path={["aboutMe"]} count={data.aboutMe.length} />
+        </section>
+      )}
+      <div className="grid grid-cols-12 gap-8">
+        <div className="col-span-8">
+          {show("experience") && (
+            <>
+              <Editable
+                tag="h3"
+                className="text-sm font-bold uppercase text-slate-400 tracking-wider mb-6 block"
+                value={labels.experience}
+                onUpdate={(v) => onUpdate(["labels", "experience"], v)}
+              />
+              <div className="space-y-8">
+                {data.experience.map((exp, idx) => (
+                  <SortableItem key={exp.id} path={["experience"]} index={idx}>
+                    <div className="relative pl-6 border-l border-slate-200">
+                      <div className="absolute -left-1.5 top-1.5 w-3 h-3 rounded-full bg-slate-300"></div>
+                      <div className="flex justify-between items-center mb-1">
+                        <Editable
+                          tag="h4"
+                          className="font-bold text-lg text-slate-800"
+                          value={exp.role}
+                          onUpdate={(v) => onUpdate(["experience", idx, "role"], v)}
+                        />
+                        <Period
+                          tag="span"
+                          className="text-xs font-medium text-slate-500 bg-slate-100 px-2 py-1 rounded"
+                          entry={exp}
+                          path={["experience", idx]}
+                          format="short"
+                        />
+                      </div>
+                      <Editable
+                        className="text-slate-600 font-medium mb-2 block"
+                        value={exp.company}
+                        onUpdate={(v) => onUpdate(["experience", idx, "company"], v)}
+                      />
+                      <ul className="text-sm text-slate-600 space-y-1.5">
+                        {exp.description.map((desc, i) => (
+                          <SortableItem key={i} path={["experience", idx, "description"]} index={i} as="li">
+                            •{" "}
+                            <Editable
+                              value={desc}
+                              onUpdate={(v) => onUpdate(["experience", idx, "description", i], v)}
+                            />
+                          </SortableItem>
+                        ))}
+                        <AddFirstItem
+                          path={["experience", idx, "description"]}
+                          count={exp.description.length}
+                          as="li"
+                        />
+                      </ul>
+                    </div>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["experience"]} count={data.experience.length} />
+              </div>
+            </>
+          )}
+          <ExtraSections
+            data={data}
+            onUpdate={onUpdate}
+            heading={(label, update) => (
+              <Editable
+                tag="h3"
+                className="text-sm font-bold uppercase text-slate-400 tracking-wider mb-6 block"
+                value={label}
+                onUpdate={update}
+              />
+            )}
+            className="mt-8"
+            titleClassName="font-bold text-slate-800"
+            detailClassName="text-sm text-slate-500"
+          />
+        </div>
+        <div className="col-span-4 space-y-8">
+          {show("skills") && (
+            <div>
+              <Editable
+                tag="h3"
+                className="text-sm font-bold uppercase text-slate-400 tracking-wider mb-4 block"
+                value={labels.skills}
+                onUpdate={(v) => onUpdate(["labels", "skills"], v)}
+              />
+              <div className="flex flex-wrap gap-2">
+                {data.skills.map((skill, idx) => (
+                  <SortableItem key={idx} path={["skills"]} index={idx}>
+                    <span className="text-xs bg-slate-800 text-white px-2 py-1 rounded-md inline-block">
+                      <Editable value={skill} onUpdate={(v) => onUpdate(["skills", idx], v)} />
+                    </span>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["skills"]} count={data.skills.length} />
+              </div>
+            </div>
+          )}
+          {show("languages") && (
+            <div>
+              <Editable
+                tag="h3"
+                className="text-sm font-bold uppercase text-slate-400 tracking-wider mb-4 block"
+                value={labels.languages}
+                onUpdate={(v) => onUpdate(["labels", "languages"], v)}
+              />
+              <div className="space-y-2">
+                {data.languages.map((lang, idx) => (
+                  <SortableItem key={idx} path={["languages"]} index={idx}>
+                    <div className="flex justify-between text-xs text-slate-700 border-b border-slate-100 pb-1">
+                      <Editable value={lang.language} onUpdate={(v) => onUpdate(["languages", idx, "language"], v)} />
+                      <Editable
+                        className="font-semibold text-slate-500"
+                        value={lang.proficiency}
+                        onUpdate={(v) => onUpdate(["languages", idx, "proficiency"], v)}
+                      />
+                    </div>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["languages"]} count={data.languages.length} />
+              </div>
+            </div>
+          )}
+          {show("education") && (
+            <div>
+              <Editable
+                tag="h3"
+                className="text-sm font-bold uppercase text-slate-400 tracking-wider mb-4 block"
+                value={labels.education}
+                onUpdate={(v) => onUpdate(["labels", "education"], v)}
+              />
+              {data.education.map((edu, idx) => (
+                <SortableItem key={edu.id} path={["education"]} index={idx} className="mb-4">
+                  <div>
+                    <Editable
+                      className="font-bold text-slate-800 text-sm block"
+                      value={edu.school}
+                      onUpdate={(v) => onUpdate(["education", idx, "school"], v)}
+                    />
+                    <Editable
+                      className="text-xs text-slate-500 block"
+                      value={edu.degree}
+                      onUpdate={(v) => onUpdate(["education", idx, "degree"], v)}
+                    />
+                    <Period
+                      className="text-xs text-slate-400 mt-1 block"
+                      entry={edu}
+                      path={["education", idx]}
+                      format="short"
+                    />
+                  </div>
+                </SortableItem>
+              ))}
+              <AddFirstItem path={["education"]} count={data.education.length} />
+            </div>
+          )}
+          {show("interests") && (
+            <div>
+              <Editable
+                tag="h3"
+                className="text-sm font-bold uppercase text-slate-400 tracking-wider mb-4 block"
+                value={labels.interests}
+                onUpdate={(v) => onUpdate(["labels", "interests"], v)}
+              />
+              <div className="flex flex-wrap gap-2">
+                {data.interests.map((interest, idx) => (
+                  <SortableItem key={idx} path={["interests"]} index={idx}>
+                    <span className="text-xs bg-slate-100 text-slate-600 px-2 py-1 rounded-full inline-block">
+                      <Editable value={interest} onUpdate={(v) => onUpdate(["interests", idx], v)} />
+                    </span>
+                  </SortableItem>
+                ))}
+                <AddFirstItem path={["interests"]} count={data.interests.length} />
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+      <ConsentFooter data={data} />
+    </div>
+  );
+};
+
+// --- TEMPLATE REGISTRY ---
+export type PhotoShape = "circle" | "square";
+
+export interface CVTemplate {
+  id: CVStyle;
+  label: string;
+  industry: string;
+  photoShape: PhotoShape; // Frame the template puts the photo in (the photo editor previews it)
+  component: React.FC<TemplateProps>;
+}
+
+export const CV_TEMPLATES: CVTemplate[] = [
+  { id: "ecommerce-1", label: "Scale", industry: "E-commerce", photoShape: "square", component: Ecommerce1 },
+  { id: "ecommerce-2", label: "Brand", industry: "E-commerce", photoShape: "circle", component: Ecommerce2 },
+  { id: "marketing-1", label: "Spotlight", industry: "Marketing", photoShape: "circle", component: Marketing1 },
+  { id: "marketing-2", label: "Studio", industry: "Marketing", photoShape: "circle", component: Marketing2 },
+  { id: "logistics-1", label: "Corporate", industry: "Logistyka", photoShape: "square", component: Logistics1 },
+  { id: "logistics-2", label: "Compact", industry: "Logistyka", photoShape: "square", component: Logistics2 },
+  { id: "engineering-1", label: "Terminal", industry: "Inżynieria", photoShape: "square", component: Engineering1 },
+  { id: "engineering-2", label: "Minimal", industry: "Inżynieria", photoShape: "square", component: Engineering2 },
+];
+
+export const isCVStyle = (value: unknown): value is CVStyle => CV_TEMPLATES.some((t) => t.id === value);
+
+// --- MAIN TEMPLATE RENDERER ---
+interface TemplateRendererProps extends TemplateProps {
+  style: CVStyle;
+}
+
+export const TemplateRenderer: React.FC<TemplateRendererProps> = ({ style, ...props }) => {
+  const Template = (CV_TEMPLATES.find((t) => t.id === style) || CV_TEMPLATES[0]).component;
+  const dateLocale = props.data.language;
+  const actions: TemplateActions = props.thumbnail
+    ? { onRemove: props.onRemove, dateLocale }
+    : {
+        onRemove: props.onRemove,
+        onMove: props.onMove,
+        onAdd: props.onAdd,
+        onUpdatePeriod: props.onUpdatePeriod,
+        dateLocale,
+      };
+  return (
+    <TemplateActionsContext.Provider value={actions}>
+      <Template {...props} />
+    </TemplateActionsContext.Provider>
+  );
+};
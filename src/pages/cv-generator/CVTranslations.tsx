@@ -0,0 +1,124 @@
+import { type CVContent, type CVData, type CVLanguage, LABEL_DICTIONARIES, TRANSLATABLE_KEYS } from "./CVSchema";
+
+// --- Language variants ---
+// The active language lives at the top level of CVData, the others in `variants`.
+// Switching swaps them; a language without a variant starts as a copy of the current
+// content with its own label dictionary, and every copied text is "missing" until edited.
+
+// --- Constants ---
+export const LANGUAGE_NAMES: Record<CVLanguage, string> = { pl: "Polski", en: "English", de: "Deutsch" };
+const HIGHLIGHT_NAME = "translation-missing";
+
+// --- Helper: Content of the active language ---
+const pickContent = (data: CVData) =>
+  Object.fromEntries(TRANSLATABLE_KEYS.map((key) => [key, data[key]])) as unknown as CVContent;
+
+// Target entries follow the current list (same entries, same order); entries it lacks are
+// copied over and show up as missing translations. Dates are shared, never translated.
+const alignById = <T extends { id: string }>(current: T[], target: T[], share: (from: T, to: T) => T = (_, to) => to) =>
+  current.map((entry) => {
+    const existing = target.find((item) => item.id === entry.id);
+    return existing ? share(entry, existing) : structuredClone(entry);
+  });
+
+const shareDates = <T extends { start: string; end: string }>(from: T, to: T): T => ({
+  ...to,
+  start: from.start,
+  end: from.end,
+});
+
+const alignContent = (current: CVContent, target: CVContent): CVContent => ({
+  ...target,
+  aboutMe: alignById(current.aboutMe, target.aboutMe),
+  experience: alignById(current.experience, target.experience, shareDates),
+  education: alignById(current.education, target.education, shareDates),
+  extraSections: current.extraSections.map((section) => {
+    const existing = target.extraSections.find((other) => other.kind === section.kind);
+    return existing ? { ...existing, items: alignById(section.items, existing.items) } : structuredClone(section);
+  }),
+});
+
+// --- Main: Switch the active language ---
+export const switchLanguage = (data: CVData, language: CVLanguage): CVData => {
+  if (language === data.language) return data;
+  const current = pickContent(data);
+  const { [language]: stored, ...others } = data.variants;
+  const content = stored
+    ? alignContent(current, stored)
+    : { ...structuredClone(current), labels: { ...LABEL_DICTIONARIES[language] } };
+  return { ...data, ...content, language, variants: { ...others, [data.language]: current } };
+};
+
+export const removeVariant = (data: CVData, language: CVLanguage): CVData => {
+  const { [language]: _removed, ...variants } = data.variants;
+  return { ...data, variants };
+};
+
+// --- Missing translations ---
+// Translatable text by a stable path (entries by id, so reordering does not matter)
+const textLeaves = (content: CVContent) => {
+  const leaves = new Map<string, string>();
+  Object.entries(content.labels).forEach(([key, value]) => leaves.set(`labels.${key}`, value));
+  leaves.set("title", content.title);
+  content.aboutMe.forEach((item) => {
+    leaves.set(`aboutMe.${item.id}.main`, item.main);
+    leaves.set(`aboutMe.${item.id}.text`, item.text);
+  });
+  content.skills.forEach((skill, idx) => leaves.set(`skills.${idx}`, skill));
+  content.interests.forEach((interest, idx) => leaves.set(`interests.${idx}`, interest));
+  content.languages.forEach((lang, idx) => {
+    leaves.set(`languages.${idx}.language`, lang.language);
+    leaves.set(`languages.${idx}.proficiency`, lang.proficiency);
+  });
+  content.experience.forEach((exp) => {
+    leaves.set(`experience.${exp.id}.role`, exp.role);
+    leaves.set(`experience.${exp.id}.duration`, exp.duration);
+    exp.description.forEach((desc, idx) => leaves.set(`experience.${exp.id}.description.${idx}`, desc));
+  });
+  content.education.forEach((edu) => {
+    leaves.set(`education.${edu.id}.degree`, edu.degree);
+    leaves.set(`education.${edu.id}.school`, edu.school);
+    leaves.set(`education.${edu.id}.year`, edu.year);
+  });
+  content.extraSections.forEach((section) =>
+    section.items.forEach((item) => {
+      leaves.set(`${section.kind}.${item.id}.title`, item.title);
+      leaves.set(`${section.kind}.${item.id}.detail`, item.detail);
+    }),
+  );
+  return leaves;
+};
+
+// Texts of the active language still identical to another variant at the same place
+export const findMissingTranslations = (data: CVData): string[] => {
+  const others = Object.values(data.variants).map((variant) => textLeaves(variant!));
+  if (others.length === 0) return [];
+  return Array.from(textLeaves(pickContent(data)))
+    .filter(([path, value]) => /\p{L}/u.test(value) && others.some((leaves) => leaves.get(path) === value))
+    .map(([, value]) => value);
+};
+
+// --- Preview markers (CSS Custom Highlight API, like the ATS keywords: not part of PDF or print) ---
+export const highlightMissingTranslations = (root: HTMLElement | null, texts: Set<string>) => {
+  if (typeof CSS === "undefined" || !("highlights" in CSS)) return;
+  CSS.highlights.delete(HIGHLIGHT_NAME);
+  if (!root || texts.size === 0) return;
+
+  const ranges: Range[] = [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) =>
+      node.parentElement?.closest(".no-print") ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT,
+  });
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    // Each editable field renders its value as one text node
+    if (!texts.has((node.textContent || "").trim())) continue;
+    const range = new Range();
+    range.selectNodeContents(node);
+    ranges.push(range);
+  }
+  CSS.highlights.set(HIGHLIGHT_NAME, new Highlight(...ranges));
+};
+
+export const clearMissingTranslationHighlights = () => {
+  if (typeof CSS !== "undefined" && "highlights" in CSS) CSS.highlights.delete(HIGHLIGHT_NAME);
+};
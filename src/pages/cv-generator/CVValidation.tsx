@@ -0,0 +1,462 @@
+import {
+  type CVData,
+  type CVLanguage,
+  CONSENT_KINDS,
+  CV_LANGUAGES,
+  EXTRA_SECTION_KINDS,
+  upgradeCVData,
+  normalizeCVData,
+} from "./CVSchema";
+import { parseMonth } from "./CVDates";
+
+// --- CV JSON Validation ---
+// Validates the editor text in two passes: a strict JSON scan that reports the
+// exact line/column of a syntax error (JSON.parse messages differ per browser
+// and often carry no position), then a schema check of the migrated object
+// that reports wrong types by field path. Both passes may offer a quick fix.
+
+// --- Types ---
+export interface QuickFix {
+  label: string;
+  apply: (text: string) => string; // Returns the repaired editor text
+}
+
+export interface JsonDiagnostic {
+  kind: "syntax" | "schema";
+  message: string;
+  path?: string; // e.g. "experience[2].description" (schema only)
+  offset: number;
+  line: number; // 1-based
+  column: number; // 1-based
+  fix?: QuickFix;
+}
+
+export interface ValidationResult {
+  data: CVData | null; // Only set when there are no diagnostics
+  diagnostics: JsonDiagnostic[];
+}
+
+type PathSegment = string | number;
+
+interface SchemaIssue {
+  segments: PathSegment[];
+  message: string;
+  fix?: { label: string; value?: unknown; remove?: boolean };
+}
+
+// --- Helper: Paths & Positions ---
+const formatPath = (segments: PathSegment[]) =>
+  segments.reduce<string>((acc, seg) => (typeof seg === "number" ? `${acc}[${seg}]` : acc ? `${acc}.${seg}` : seg), "");
+
+const positionAt = (text: string, offset: number) => {
+  const before = text.slice(0, offset);
+  const line = before.split("\n").length;
+  return { line, column: offset - before.lastIndexOf("\n") };
+};
+
+// --- Strict JSON scanner (positions only; values come from JSON.parse) ---
+class JsonSyntaxError extends Error {
+  constructor(
+    message: string,
+    public offset: number,
+  ) {
+    super(message);
+  }
+}
+
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const ESCAPE_PATTERN = /\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4})/y;
+
+// Returns the start offset of every value, keyed by its formatted path
+const scanJson = (text: string) => {
+  const offsets = new Map<string, number>();
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new JsonSyntaxError(message, pos);
+  };
+  const current = () => (pos >= text.length ? "koniec tekstu" : `'${text[pos]}'`);
+  const skipWhitespace = () => {
+    while (pos < text.length && " \t\n\r".includes(text[pos])) pos++;
+  };
+
+  const scanString = () => {
+    pos++;
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (ch === '"') {
+        pos++;
+        return;
+      }
+      if (ch === "\\") {
+        ESCAPE_PATTERN.lastIndex = pos;
+        if (!ESCAPE_PATTERN.test(text)) fail("Nieprawidłowa sekwencja ucieczki (\\) w tekście");
+        pos = ESCAPE_PATTERN.lastIndex;
+        continue;
+      }
+      if (ch < " ") fail("Niedozwolony znak w tekście (np. nowa linia) - użyj \\n");
+      pos++;
+    }
+    fail("Niezamknięty cudzysłów");
+  };
+
+  const scanValue = (segments: PathSegment[]) => {
+    skipWhitespace();
+    offsets.set(formatPath(segments), pos);
+    const ch = text[pos];
+
+    if (ch === "{") {
+      pos++;
+      skipWhitespace();
+      if (text[pos] === "}") {
+        pos++;
+        return;
+      }
+      while (true) {
+        skipWhitespace();
+        if (text[pos] !== '"') fail(`Oczekiwano klucza w cudzysłowie, znaleziono ${current()}`);
+        const keyStart = pos;
+        scanString();
+        const key = JSON.parse(text.slice(keyStart, pos));
+        skipWhitespace();
+        if (text[pos] !== ":") fail(`Oczekiwano ':' po kluczu "${key}", znaleziono ${current()}`);
+        pos++;
+        scanValue([...segments, key]);
+        skipWhitespace();
+        if (text[pos] === ",") {
+          pos++;
+          skipWhitespace();
+          if (text[pos] === "}") fail("Zbędny przecinek przed '}'");
+          continue;
+        }
+        if (text[pos] === "}") {
+          pos++;
+          return;
+        }
+        fail(`Oczekiwano ',' lub '}', znaleziono ${current()}`);
+      }
+    }
+
+    if (ch === "[") {
+      pos++;
+      skipWhitespace();
+      if (text[pos] === "]") {
+        pos++;
+        return;
+      }
+      for (let index = 0; ; index++) {
+        scanValue([...segments, index]);
+        skipWhitespace();
+        if (text[pos] === ",") {
+          pos++;
+          skipWhitespace();
+          if (text[pos] === "]") fail("Zbędny przecinek przed ']'");
+          continue;
+        }
+        if (text[pos] === "]") {
+          pos++;
+          return;
+        }
+        fail(`Oczekiwano ',' lub ']', znaleziono ${current()}`);
+      }
+    }
+
+    if (ch === '"') return scanString();
+
+    NUMBER_PATTERN.lastIndex = pos;
+    if (NUMBER_PATTERN.test(text)) {
+      pos = NUMBER_PATTERN.lastIndex;
+      return;
+    }
+    for (const literal of ["true", "false", "null"]) {
+      if (text.startsWith(literal, pos)) {
+        pos += literal.length;
+        return;
+      }
+    }
+    fail(pos >= text.length ? "Nieoczekiwany koniec tekstu" : `Nieoczekiwany znak ${current()}`);
+  };
+
+  scanValue([]);
+  skipWhitespace();
+  if (pos < text.length) fail(`Nieoczekiwany tekst po zakończeniu dokumentu: ${current()}`);
+  return offsets;
+};
+
+// --- Syntax quick fixes (offered only when the result parses) ---
+const SYNTAX_REPAIRS: { label: string; repair: (text: string) => string }[] = [
+  { label: "Usuń zbędne przecinki", repair: (text) => text.replace(/,(\s*[}\]])/g, "$1") },
+  { label: "Zamień cudzysłowy typograficzne", repair: (text) => text.replace(/[“”„″]/g, '"') },
+];
+
+const findSyntaxFix = (text: string): QuickFix | undefined => {
+  for (const { label, repair } of SYNTAX_REPAIRS) {
+    const repaired = repair(text);
+    if (repaired === text) continue;
+    try {
+      JSON.parse(repaired);
+      return { label, apply: repair };
+    } catch {
+      // Repair did not help, try the next one
+    }
+  }
+  return undefined;
+};
+
+// --- Schema checks (run on the migrated, not yet normalised object) ---
+const typeName = (value: unknown) => (value === null ? "null" : Array.isArray(value) ? "array" : typeof value);
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+const isPrimitive = (value: unknown) => ["number", "boolean"].includes(typeof value) || value === null;
+
+const mismatch = (segments: PathSegment[], expected: string, value: unknown, fix?: SchemaIssue["fix"]) => ({
+  segments,
+  message: `${formatPath(segments)} musi być typu ${expected} (jest: ${typeName(value)})`,
+  fix,
+});
+
+const REMOVE_ITEM = { label: "Usuń element", remove: true };
+
+const checkString = (issues: SchemaIssue[], value: unknown, segments: PathSegment[]) => {
+  if (value === undefined || typeof value === "string") return;
+  const fix = isPrimitive(value) ? { label: "Zamień na tekst", value: value === null ? "" : String(value) } : undefined;
+  issues.push(mismatch(segments, "string", value, fix));
+};
+
+const checkStringList = (issues: SchemaIssue[], value: unknown, segments: PathSegment[]) => {
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    const fix =
+      typeof value === "string"
+        ? { label: "Zamień na listę", value: [value] }
+        : { label: "Zastąp pustą listą", value: [] };
+    issues.push(mismatch(segments, "string[]", value, fix));
+    return;
+  }
+  value.forEach((item, index) => {
+    if (typeof item === "string") return;
+    const fix = isPrimitive(item) && item !== null ? { label: "Zamień na tekst", value: String(item) } : REMOVE_ITEM;
+    issues.push(mismatch([...segments, index], "string", item, fix));
+  });
+};
+
+// start / end: "YYYY-MM", "YYYY" or "present"; other spellings are fixed when they parse
+const checkMonth = (issues: SchemaIssue[], value: unknown, segments: PathSegment[]) => {
+  if (typeof value !== "string") return checkString(issues, value, segments);
+  if (value === "" || parseMonth(value) === value) return;
+  const parsed = parseMonth(value);
+  issues.push({
+    segments,
+    message: `${formatPath(segments)} musi mieć format RRRR-MM, RRRR lub "present" (jest: "${value}")`,
+    fix: parsed ? { label: `Zamień na "${parsed}"`, value: parsed } : { label: "Wyczyść datę", value: "" },
+  });
+};
+
+const checkObjectList = (
+  issues: SchemaIssue[],
+  value: unknown,
+  segments: PathSegment[],
+  checkItem: (item: Record<string, any>, itemSegments: PathSegment[]) => void,
+) => {
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    const fix = isObject(value)
+      ? { label: "Zamień na listę", value: [value] }
+      : { label: "Zastąp pustą listą", value: [] };
+    issues.push(mismatch(segments, "array", value, fix));
+    return;
+  }
+  value.forEach((item, index) => {
+    if (isObject(item)) checkItem(item, [...segments, index]);
+    else issues.push(mismatch([...segments, index], "object", item, REMOVE_ITEM));
+  });
+};
+
+const checkStringFields = (
+  issues: SchemaIssue[],
+  value: Record<string, any>,
+  segments: PathSegment[],
+  fields: string[],
+) => fields.forEach((field) => checkString(issues, value[field], [...segments, field]));
+
+const checkObject = (
+  issues: SchemaIssue[],
+  value: unknown,
+  segments: PathSegment[],
+  checkFields: (value: Record<string, any>) => void,
+) => {
+  if (value === undefined) return;
+  if (isObject(value)) checkFields(value);
+  else issues.push(mismatch(segments, "object", value, { label: "Zastąp pustym obiektem", value: {} }));
+};
+
+const LABEL_FIELDS = [
+  "aboutMe",
+  "experience",
+  "education",
+  "skills",
+  "languages",
+  "interests",
+  "certificates",
+  "projects",
+  "volunteering",
+];
+
+// Translatable part: checked at the top level and again inside every language variant
+const checkContent = (issues: SchemaIssue[], data: Record<string, any>, at: PathSegment[]) => {
+  checkString(issues, data.title, [...at, "title"]);
+  checkObject(issues, data.labels, [...at, "labels"], (labels) =>
+    checkStringFields(issues, labels, [...at, "labels"], LABEL_FIELDS),
+  );
+  checkObjectList(issues, data.aboutMe, [...at, "aboutMe"], (item, itemAt) =>
+    checkStringFields(issues, item, itemAt, ["main", "text"]),
+  );
+  checkStringList(issues, data.skills, [...at, "skills"]);
+  checkStringList(issues, data.interests, [...at, "interests"]);
+  checkObjectList(issues, data.languages, [...at, "languages"], (item, itemAt) =>
+    checkStringFields(issues, item, itemAt, ["language", "proficiency"]),
+  );
+  checkObjectList(issues, data.experience, [...at, "experience"], (item, itemAt) => {
+    checkStringFields(issues, item, itemAt, ["role", "company", "duration"]);
+    checkMonth(issues, item.start, [...itemAt, "start"]);
+    checkMonth(issues, item.end, [...itemAt, "end"]);
+    checkStringList(issues, item.description, [...itemAt, "description"]);
+  });
+  checkObjectList(issues, data.education, [...at, "education"], (item, itemAt) => {
+    checkStringFields(issues, item, itemAt, ["degree", "school", "year"]);
+    checkMonth(issues, item.start, [...itemAt, "start"]);
+    checkMonth(issues, item.end, [...itemAt, "end"]);
+  });
+  checkObjectList(issues, data.extraSections, [...at, "extraSections"], (section, sectionAt) => {
+    if (!EXTRA_SECTION_KINDS.includes(section.kind)) {
+      // Reported on the section itself, so the quick fix can drop it
+      issues.push({
+        segments: sectionAt,
+        message: `${formatPath([...sectionAt, "kind"])} musi być jednym z: ${EXTRA_SECTION_KINDS.join(", ")}`,
+        fix: { label: "Usuń sekcję", remove: true },
+      });
+    }
+    checkObjectList(issues, section.items, [...sectionAt, "items"], (item, itemAt) =>
+      checkStringFields(issues, item, itemAt, ["title", "detail"]),
+    );
+  });
+};
+
+const checkCVShape = (data: Record<string, any>) => {
+  const issues: SchemaIssue[] = [];
+
+  // Optional like every other field: a missing language defaults to "pl"
+  if (data.language !== undefined && !CV_LANGUAGES.includes(data.language)) {
+    issues.push({
+      segments: ["language"],
+      message: `language musi być jednym z: ${CV_LANGUAGES.join(", ")}`,
+      fix: { label: 'Zamień na "pl"', value: "pl" },
+    });
+  }
+  checkString(issues, data.fullName, ["fullName"]);
+  checkObject(issues, data.contact, ["contact"], (contact) =>
+    checkStringFields(issues, contact, ["contact"], ["email", "phone", "location", "linkedin"]),
+  );
+  checkContent(issues, data, []);
+  checkStringList(issues, data.hiddenSections, ["hiddenSections"]);
+  checkObject(issues, data.consent, ["consent"], (consent) => {
+    if (consent.enabled !== undefined && typeof consent.enabled !== "boolean") {
+      const enabled = consent.enabled === "true" || consent.enabled === 1;
+      issues.push(
+        mismatch(["consent", "enabled"], "boolean", consent.enabled, { label: `Zamień na ${enabled}`, value: enabled }),
+      );
+    }
+    if (consent.kind !== undefined && !CONSENT_KINDS.includes(consent.kind)) {
+      issues.push({
+        segments: ["consent", "kind"],
+        message: `consent.kind musi być jednym z: ${CONSENT_KINDS.join(", ")}`,
+        fix: { label: 'Zamień na "current"', value: "current" },
+      });
+    }
+    checkStringFields(issues, consent, ["consent"], ["company", "text"]);
+  });
+
+  checkObject(issues, data.variants, ["variants"], (variants) =>
+    Object.entries(variants).forEach(([language, variant]) => {
+      const at = ["variants", language];
+      if (!CV_LANGUAGES.includes(language as CVLanguage)) {
+        issues.push({
+          segments: at,
+          message: `${formatPath(at)}: nieznany język (dozwolone: ${CV_LANGUAGES.join(", ")})`,
+          fix: { label: "Usuń wariant", remove: true },
+        });
+      } else if (isObject(variant)) {
+        checkContent(issues, variant, at);
+      } else {
+        issues.push(mismatch(at, "object", variant, { label: "Usuń wariant", remove: true }));
+      }
+    }),
+  );
+
+  return issues;
+};
+
+// --- Helper: Apply a schema fix to the editor text ---
+const applySchemaFix = (text: string, segments: PathSegment[], fix: NonNullable<SchemaIssue["fix"]>) => {
+  const data = structuredClone(upgradeCVData(JSON.parse(text)));
+  let parent: any = data;
+  for (const seg of segments.slice(0, -1)) parent = parent[seg];
+  const last = segments[segments.length - 1];
+
+  if (fix.remove && Array.isArray(parent)) parent.splice(Number(last), 1);
+  else if (fix.remove) delete parent[last];
+  else parent[last] = fix.value;
+  return JSON.stringify(data, null, 2);
+};
+
+// Fixes are applied back to front so removals do not shift later paths
+export const applyAllQuickFixes = (text: string, diagnostics: JsonDiagnostic[]) =>
+  [...diagnostics].reverse().reduce((acc, diagnostic) => (diagnostic.fix ? diagnostic.fix.apply(acc) : acc), text);
+
+// --- Main: Validate the editor text ---
+export const validateCVJson = (text: string): ValidationResult => {
+  let offsets: Map<string, number>;
+  try {
+    offsets = scanJson(text);
+  } catch (e) {
+    if (!(e instanceof JsonSyntaxError)) throw e;
+    const { line, column } = positionAt(text, e.offset);
+    return {
+      data: null,
+      diagnostics: [{ kind: "syntax", message: e.message, offset: e.offset, line, column, fix: findSyntaxFix(text) }],
+    };
+  }
+
+  let upgraded: Record<string, any>;
+  try {
+    upgraded = upgradeCVData(JSON.parse(text));
+  } catch (e) {
+    return {
+      data: null,
+      diagnostics: [{ kind: "schema", message: (e as Error).message, path: "", offset: 0, line: 1, column: 1 }],
+    };
+  }
+
+  const issues = checkCVShape(upgraded);
+  // Already upgraded: only the defaults are filled in, the migrations do not run twice
+  if (issues.length === 0) return { data: normalizeCVData(upgraded), diagnostics: [] };
+
+  const diagnostics = issues.map<JsonDiagnostic>(({ segments, message, fix }) => {
+    // Migrated legacy fields may not exist in the text; point at the closest ancestor
+    let offset: number | undefined;
+    for (let depth = segments.length; offset === undefined && depth >= 0; depth--) {
+      offset = offsets.get(formatPath(segments.slice(0, depth)));
+    }
+    const { line, column } = positionAt(text, offset ?? 0);
+    return {
+      kind: "schema",
+      message,
+      path: formatPath(segments),
+      offset: offset ?? 0,
+      line,
+      column,
+      fix: fix && { label: fix.label, apply: (current: string) => applySchemaFix(current, segments, fix) },
+    };
+  });
+  return { data: null, diagnostics };
+};
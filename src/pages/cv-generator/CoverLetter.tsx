@@ -0,0 +1,260 @@
+import React from "react";
+import type { CVData } from "./CVSchema";
+import { type CVStyle, Editable, Removable } from "./CVTemplates";
+
+// --- Cover Letter ("List motywacyjny") ---
+// Only the letter body lives here; name, title and contact are read from the CV
+// (edits in the letter header write back to the CV), so both documents always match.
+
+// --- Types ---
+export interface CoverLetterData {
+  recipient: string;
+  company: string;
+  place: string; // "Warszawa, 19.10.2026" line above the subject
+  subject: string;
+  greeting: string;
+  paragraphs: string[];
+  closing: string;
+}
+
+export const INITIAL_COVER_LETTER: CoverLetterData = {
+  recipient: "Dział HR",
+  company: "Nazwa Firmy",
+  place: `Warszawa, ${new Date().toLocaleDateString("pl-PL")}`,
+  subject: "List motywacyjny",
+  greeting: "Szanowni Państwo,",
+  paragraphs: [
+    "Z zainteresowaniem przeczytałem ogłoszenie o pracy na stanowisku, które idealnie odpowiada moim kompetencjom.",
+    "W dotychczasowej pracy zdobyłem doświadczenie, które pozwoli mi szybko wnieść wartość do Państwa zespołu.",
+    "Chętnie opowiem więcej o swoich osiągnięciach podczas rozmowy kwalifikacyjnej.",
+  ],
+  closing: "Z wyrazami szacunku,",
+};
+
+// --- Helper: Normalise stored / generated letters ---
+const LETTER_TEXT_FIELDS = ["recipient", "company", "place", "subject", "greeting", "closing"] as const;
+
+export const validateCoverLetter = (raw: unknown): { data: CoverLetterData | null; problems: string[] } => {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { data: null, problems: ["List musi być obiektem JSON"] };
+  }
+  const value = raw as Record<string, unknown>;
+  const problems: string[] = [];
+  for (const field of LETTER_TEXT_FIELDS) {
+    if (value[field] !== undefined && typeof value[field] !== "string") problems.push(`${field} musi być typu string`);
+  }
+  const paragraphs = value.paragraphs;
+  if (!Array.isArray(paragraphs) || paragraphs.length === 0) {
+    problems.push("paragraphs musi być niepustą listą string[]");
+  } else {
+    paragraphs.forEach((p, i) => typeof p !== "string" && problems.push(`paragraphs[${i}] musi być typu string`));
+  }
+  if (problems.length) return { data: null, problems };
+
+  const data = { ...INITIAL_COVER_LETTER };
+  for (const field of LETTER_TEXT_FIELDS) {
+    if (typeof value[field] === "string") data[field] = value[field] as string;
+  }
+  data.paragraphs = paragraphs as string[];
+  return { data, problems: [] };
+};
+
+export const validateCoverLetterJson = (json: string) => {
+  try {
+    return validateCoverLetter(JSON.parse(json));
+  } catch (e) {
+    return { data: null, problems: [`Błędna składnia JSON: ${(e as Error).message}`] };
+  }
+};
+
+// --- AI prompt ---
+// The instructions travel in the user message: the generator endpoint replaces
+// system prompts with its own CV prompt.
+export const buildCoverLetterPrompt = (jobDescription: string, data: CVData, letter: CoverLetterData) => `
+Napisz list motywacyjny kandydata do poniższej oferty pracy, na podstawie jego CV.
+List ma 3-4 akapity, jest konkretny, odwołuje się do wymagań z oferty i doświadczenia z CV, bez powtarzania danych kontaktowych.
+Pisz w języku oferty. Zachowaj miejscowość i datę: "${letter.place}".
+Odpowiedz WYŁĄCZNIE obiektem JSON (bez markdown) o strukturze:
+{"recipient": "string", "company": "string", "place": "string", "subject": "string", "greeting": "string", "paragraphs": ["string"], "closing": "string"}
+
+<opis-oferty-pracy>
+${jobDescription}
+</opis-oferty-pracy>
+
+<cv-kandydata>
+${JSON.stringify({ fullName: data.fullName, title: data.title, aboutMe: data.aboutMe, skills: data.skills, experience: data.experience, education: data.education, languages: data.languages })}
+</cv-kandydata>
+`;
+
+// --- Header styles matching each CV template ---
+interface LetterHeaderStyle {
+  header: string;
+  name: string;
+  title: string;
+  contact: string;
+  accent: string; // Subject line
+}
+
+const LETTER_HEADERS: Record<CVStyle, LetterHeaderStyle> = {
+  "ecommerce-1": {
+    header: "mx-12 mt-12 border-b-2 border-black pb-6 mb-10",
+    name: "text-4xl font-black uppercase tracking-tight leading-none mb-2",
+    title: "text-lg font-medium text-gray-600",
+    contact: "text-sm font-medium text-gray-800",
+    accent: "text-black",
+  },
+  "ecommerce-2": {
+    header: "bg-gray-900 text-white px-12 py-10 mb-10",
+    name: "text-4xl font-bold leading-tight mb-1",
+    title: "text-xl text-blue-400 font-light",
+    contact: "text-sm text-gray-300",
+    accent: "text-blue-600",
+  },
+  "marketing-1": {
+    header: "mx-12 mt-12 border-b-4 border-purple-600 pb-6 mb-10 text-center",
+    name: "text-4xl font-extrabold text-gray-900 tracking-tight mb-1",
+    title: "text-lg text-purple-600 font-medium tracking-wide uppercase",
+    contact: "text-sm text-gray-500 justify-center",
+    accent: "text-purple-600",
+  },
+  "marketing-2": {
+    header: "bg-gray-900 text-white px-12 py-10 mb-10",
+    name: "text-3xl font-bold leading-tight mb-1",
+    title: "text-purple-400 text-sm font-medium tracking-widest uppercase",
+    contact: "text-sm text-gray-300",
+    accent: "text-purple-600",
+  },
+  "logistics-1": {
+    header: "bg-blue-900 text-white px-12 py-8 mb-10",
+    name: "text-3xl font-bold uppercase tracking-wider",
+    title: "text-lg text-blue-200 font-medium mt-1",
+    contact: "text-xs text-blue-100",
+    accent: "text-blue-800",
+  },
+  "logistics-2": {
+    header: "mx-12 mt-12 border-b-4 border-gray-800 pb-6 mb-10",
+    name: "text-3xl font-black uppercase tracking-tighter mb-1",
+    title: "text-sm font-bold bg-gray-800 text-white inline-block px-2 py-0.5",
+    contact: "text-xs text-gray-600",
+    accent: "text-gray-900",
+  },
+  "engineering-1": {
+    header: "mx-12 mt-12 border-b border-gray-300 pb-6 mb-10 font-mono",
+    name: "text-3xl font-bold text-gray-900 mb-2",
+    title: "text-lg text-gray-600",
+    contact: "text-xs text-gray-500 font-sans",
+    accent: "text-blue-600 font-mono",
+  },
+  "engineering-2": {
+    header: "mx-12 mt-12 pb-6 mb-10",
+    name: "text-4xl font-bold tracking-tight text-gray-900",
+    title: "text-lg text-slate-500 font-medium",
+    contact: "text-sm text-slate-400",
+    accent: "text-slate-700",
+  },
+};
+
+// --- COMPONENT: Cover Letter Document ---
+interface CoverLetterProps {
+  data: CVData;
+  letter: CoverLetterData;
+  style: CVStyle;
+  onUpdate: (path: (string | number)[], val: string) => void; // CV fields (header)
+  onLetterUpdate: (path: (string | number)[], val: string) => void;
+  onLetterRemove: (path: (string | number)[], index: number) => void;
+  onAddParagraph?: () => void;
+  thumbnail?: boolean; // Rendered off-screen for a combined export: no printable id
+}
+
+export const CoverLetterDocument: React.FC<CoverLetterProps> = ({
+  data,
+  letter,
+  style,
+  onUpdate,
+  onLetterUpdate,
+  onLetterRemove,
+  onAddParagraph,
+  thumbnail,
+}) => {
+  const theme = LETTER_HEADERS[style];
+  return (
+    <div
+      id={thumbnail ? undefined : "printable-cv"}
+      className="bg-white text-[#1f2937] shadow-2xl mx-auto rounded-none lg:rounded-md transition-all duration-300 overflow-hidden"
+      style={{ width: "210mm", minHeight: "297mm", boxSizing: "border-box" }}
+    >
+      <header className={theme.header}>
+        <Editable
+          tag="h1"
+          className={`block ${theme.name}`}
+          value={data.fullName}
+          onUpdate={(v) => onUpdate(["fullName"], v)}
+        />
+        <Editable tag="p" className={theme.title} value={data.title} onUpdate={(v) => onUpdate(["title"], v)} />
+        <div className={`flex flex-wrap gap-x-4 gap-y-1 mt-3 ${theme.contact}`}>
+          <Editable value={data.contact.email} onUpdate={(v) => onUpdate(["contact", "email"], v)} />
+          <Editable value={data.contact.phone} onUpdate={(v) => onUpdate(["contact", "phone"], v)} />
+          <Editable value={data.contact.location} onUpdate={(v) => onUpdate(["contact", "location"], v)} />
+        </div>
+      </header>
+
+      {/* Spacing lives on the sections: print styles strip the page padding */}
+      <div className="px-12 pb-12">
+        <div className="flex justify-between items-start mb-10 text-sm">
+          <div>
+            <Editable
+              className="block font-bold"
+              value={letter.recipient}
+              onUpdate={(v) => onLetterUpdate(["recipient"], v)}
+            />
+            <Editable
+              className="block text-gray-600"
+              value={letter.company}
+              onUpdate={(v) => onLetterUpdate(["company"], v)}
+            />
+          </div>
+          <Editable className="text-gray-500" value={letter.place} onUpdate={(v) => onLetterUpdate(["place"], v)} />
+        </div>
+
+        <Editable
+          tag="h2"
+          className={`block text-lg font-bold mb-6 ${theme.accent}`}
+          value={letter.subject}
+          onUpdate={(v) => onLetterUpdate(["subject"], v)}
+        />
+        <Editable
+          tag="p"
+          className="block mb-4"
+          value={letter.greeting}
+          onUpdate={(v) => onLetterUpdate(["greeting"], v)}
+        />
+
+        <div className="space-y-4 text-[15px] leading-relaxed text-gray-800 text-justify">
+          {letter.paragraphs.map((paragraph, idx) => (
+            <Removable key={idx} onRemove={() => onLetterRemove(["paragraphs"], idx)}>
+              <Editable tag="p" value={paragraph} onUpdate={(v) => onLetterUpdate(["paragraphs", idx], v)} />
+            </Removable>
+          ))}
+        </div>
+        {onAddParagraph && (
+          <button
+            onClick={onAddParagraph}
+            className="no-print mt-3 text-xs text-blue-600 hover:underline"
+            contentEditable={false}
+          >
+            + Dodaj akapit
+          </button>
+        )}
+
+        <div className="mt-10">
+          <Editable tag="p" className="block" value={letter.closing} onUpdate={(v) => onLetterUpdate(["closing"], v)} />
+          <Editable
+            className="block font-bold mt-2"
+            value={data.fullName}
+            onUpdate={(v) => onUpdate(["fullName"], v)}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,395 @@
+import JSZip from "jszip";
+import { type CVData, type CVLanguage, isSectionVisible } from "./CVSchema";
+import { periodText } from "./CVDates";
+import { consentText } from "./CVConsent";
+import type { CVStyle } from "./CVTemplates";
+
+// --- Constants ---
+// Word measures layout in twips (1/20 pt) and drawings in EMU
+const PAGE_WIDTH = 11906; // A4
+const PAGE_HEIGHT = 16838;
+const PAGE_MARGIN = 720; // 1.27 cm
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * PAGE_MARGIN;
+const EMU_PER_CM = 360000;
+const PHOTO_WIDTH_CM = 3;
+const IMAGE_REL_ID = "rIdPhoto";
+
+const DOCX_MIME = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+// --- Types ---
+interface DocxTheme {
+  layout: "columns" | "sidebar"; // Main content left + narrow right column, or dark sidebar on the left
+  sideRatio: number; // Share of the page width taken by the narrow column
+  accent: string; // Hex without "#"
+  headingFill?: string; // Section headings drawn as filled bars
+  headingColor: string;
+  sideFill?: string;
+  sideText?: string;
+}
+
+interface DocxPhoto {
+  data: Uint8Array;
+  extension: "png" | "jpeg";
+  widthEmu: number;
+  heightEmu: number;
+}
+
+interface RunOptions {
+  bold?: boolean;
+  italic?: boolean;
+  size?: number; // Half-points
+  color?: string;
+  caps?: boolean;
+}
+
+interface ParagraphOptions extends RunOptions {
+  bullet?: boolean;
+  align?: "left" | "right" | "center";
+  spaceBefore?: number;
+  spaceAfter?: number;
+  fill?: string;
+}
+
+// Mirrors the look of the on-screen templates
+const THEMES: Record<CVStyle, DocxTheme> = {
+  "ecommerce-1": {
+    layout: "columns",
+    sideRatio: 1 / 3,
+    accent: "4B5563",
+    headingFill: "000000",
+    headingColor: "FFFFFF",
+  },
+  "ecommerce-2": {
+    layout: "sidebar",
+    sideRatio: 0.3,
+    accent: "2563EB",
+    headingColor: "9CA3AF",
+    sideFill: "111827",
+    sideText: "FFFFFF",
+  },
+  "marketing-1": {
+    layout: "columns",
+    sideRatio: 1 / 3,
+    accent: "9333EA",
+    headingColor: "1F2937",
+  },
+  "marketing-2": {
+    layout: "sidebar",
+    sideRatio: 0.35,
+    accent: "9333EA",
+    headingColor: "6B7280",
+    sideFill: "111827",
+    sideText: "FFFFFF",
+  },
+  "logistics-1": {
+    layout: "columns",
+    sideRatio: 1 / 3,
+    accent: "1D4ED8",
+    headingColor: "1E40AF",
+  },
+  "logistics-2": {
+    layout: "columns",
+    sideRatio: 1 / 3,
+    accent: "6B7280",
+    headingColor: "1F2937",
+  },
+  "engineering-1": {
+    layout: "sidebar",
+    sideRatio: 1 / 3,
+    accent: "2563EB",
+    headingColor: "111827",
+  },
+  "engineering-2": {
+    layout: "columns",
+    sideRatio: 1 / 3,
+    accent: "475569",
+    headingColor: "94A3B8",
+  },
+};
+
+// --- Helper: XML ---
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Characters XML 1.0 does not allow at all
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+
+const run = (text: string, opts: RunOptions = {}) => {
+  const props = [
+    opts.bold ? "<w:b/>" : "",
+    opts.italic ? "<w:i/>" : "",
+    opts.caps ? "<w:caps/>" : "",
+    opts.color ? `<w:color w:val="${opts.color}"/>` : "",
+    opts.size ? `<w:sz w:val="${opts.size}"/><w:szCs w:val="${opts.size}"/>` : "",
+  ].join("");
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ""}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+};
+
+const paragraph = (content: string, opts: ParagraphOptions = {}) => {
+  const props = [
+    opts.bullet ? '<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>' : "",
+    opts.fill ? `<w:shd w:val="clear" w:color="auto" w:fill="${opts.fill}"/>` : "",
+    `<w:spacing w:before="${opts.spaceBefore ?? 0}" w:after="${opts.spaceAfter ?? 80}"/>`,
+    opts.align && opts.align !== "left" ? `<w:jc w:val="${opts.align}"/>` : "",
+  ].join("");
+  return `<w:p><w:pPr>${props}</w:pPr>${content}</w:p>`;
+};
+
+const textParagraph = (text: string, opts: ParagraphOptions = {}) => paragraph(run(text, opts), opts);
+
+const tableCell = (content: string, width: number, fill?: string) =>
+  `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${
+    fill ? `<w:shd w:val="clear" w:color="auto" w:fill="${fill}"/>` : ""
+  }<w:tcMar><w:top w:w="120" w:type="dxa"/><w:left w:w="160" w:type="dxa"/><w:bottom w:w="120" w:type="dxa"/><w:right w:w="160" w:type="dxa"/></w:tcMar></w:tcPr>${
+    content || "<w:p/>"
+  }</w:tc>`;
+
+const table = (widths: number[], cells: string[]) =>
+  `<w:tbl><w:tblPr><w:tblW w:w="${widths.reduce((a, b) => a + b, 0)}" w:type="dxa"/><w:tblBorders><w:top w:val="nil"/><w:left w:val="nil"/><w:bottom w:val="nil"/><w:right w:val="nil"/><w:insideH w:val="nil"/><w:insideV w:val="nil"/></w:tblBorders><w:tblLayout w:type="fixed"/></w:tblPr><w:tblGrid>${widths
+    .map((w) => `<w:gridCol w:w="${w}"/>`)
+    .join("")}</w:tblGrid><w:tr>${cells.join("")}</w:tr></w:tbl>`;
+
+const photoRun = (photo: DocxPhoto) =>
+  `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${photo.widthEmu}" cy="${photo.heightEmu}"/><wp:docPr id="1" name="Photo"/><a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic><pic:nvPicPr><pic:cNvPr id="1" name="photo.${photo.extension}"/><pic:cNvPicPr/></pic:nvPicPr><pic:blipFill><a:blip r:embed="${IMAGE_REL_ID}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill><pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${photo.widthEmu}" cy="${photo.heightEmu}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+
+// --- Helper: Photo ---
+// Accepts data URLs and same-origin paths (the default "/cv.png")
+const loadPhoto = async (src: string): Promise<DocxPhoto | null> => {
+  try {
+    const blob = await (await fetch(src)).blob();
+    const bitmap = await createImageBitmap(blob);
+    const extension = blob.type === "image/jpeg" ? "jpeg" : "png";
+    let data: Uint8Array;
+    if (blob.type === "image/png" || blob.type === "image/jpeg") {
+      data = new Uint8Array(await blob.arrayBuffer());
+    } else {
+      // Word cannot embed WebP/GIF reliably, re-encode as PNG
+      const canvas = document.createElement("canvas");
+      canvas.width = bitmap.width;
+      canvas.height = bitmap.height;
+      canvas.getContext("2d")?.drawImage(bitmap, 0, 0);
+      const png = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+      if (!png) return null;
+      data = new Uint8Array(await png.arrayBuffer());
+    }
+    const widthEmu = Math.round(PHOTO_WIDTH_CM * EMU_PER_CM);
+    const heightEmu = Math.round((widthEmu * bitmap.height) / bitmap.width);
+    bitmap.close();
+    return { data, extension, widthEmu, heightEmu };
+  } catch (e) {
+    console.error("Could not load profile image for DOCX", e);
+    return null;
+  }
+};
+
+// --- Helper: Sections ---
+const sectionHeading = (label: string, theme: DocxTheme) =>
+  textParagraph(label, {
+    bold: true,
+    caps: true,
+    size: 20,
+    color: theme.headingColor,
+    fill: theme.headingFill,
+    spaceBefore: 240,
+    spaceAfter: 120,
+  });
+
+// Sections hidden in the editor are left out of the document too
+const aboutMeSection = (data: CVData, theme: DocxTheme) =>
+  !isSectionVisible(data, "aboutMe")
+    ? ""
+    : sectionHeading(data.labels.aboutMe, theme) +
+      data.aboutMe
+        .map((item) => paragraph(run(`${item.main} `, { bold: true }) + run(item.text), { spaceAfter: 100 }))
+        .join("");
+
+const experienceSection = (data: CVData, theme: DocxTheme) =>
+  !isSectionVisible(data, "experience")
+    ? ""
+    : sectionHeading(data.labels.experience, theme) +
+      data.experience
+        .map(
+          (exp) =>
+            paragraph(
+              run(exp.role, { bold: true, size: 24 }) +
+                run(`   ${periodText(exp, data.language)}`, { bold: true, color: theme.accent }),
+              {
+                spaceBefore: 160,
+                spaceAfter: 40,
+              },
+            ) +
+            textParagraph(exp.company, { bold: true, caps: true, color: "6B7280", size: 18 }) +
+            exp.description.map((desc) => textParagraph(desc, { bullet: true, spaceAfter: 40 })).join(""),
+        )
+        .join("");
+
+const extraSections = (data: CVData, theme: DocxTheme) =>
+  data.extraSections
+    .filter((section) => isSectionVisible(data, section.kind))
+    .map(
+      (section) =>
+        sectionHeading(data.labels[section.kind], theme) +
+        section.items
+          .map(
+            (item) =>
+              textParagraph(item.title, { bold: true, spaceAfter: 0 }) +
+              textParagraph(item.detail, { color: "6B7280", spaceAfter: 120 }),
+          )
+          .join(""),
+    )
+    .join("");
+
+const mainSections = (data: CVData, theme: DocxTheme) => experienceSection(data, theme) + extraSections(data, theme);
+
+const sideSections = (data: CVData, theme: DocxTheme) => {
+  const text = theme.sideText;
+  const muted = theme.sideText ? "D1D5DB" : "4B5563";
+  const sections = {
+    skills: () =>
+      sectionHeading(data.labels.skills, theme) +
+      data.skills.map((skill) => textParagraph(skill, { bullet: true, color: text, spaceAfter: 40 })).join(""),
+    languages: () =>
+      sectionHeading(data.labels.languages, theme) +
+      data.languages
+        .map((lang) =>
+          paragraph(
+            run(`${lang.language} `, { bold: true, color: text }) +
+              run(lang.proficiency, { italic: true, color: muted }),
+          ),
+        )
+        .join(""),
+    interests: () =>
+      sectionHeading(data.labels.interests, theme) + textParagraph(data.interests.join(", "), { color: muted }),
+    education: () =>
+      sectionHeading(data.labels.education, theme) +
+      data.education
+        .map(
+          (edu) =>
+            textParagraph(edu.school, { bold: true, color: text, spaceAfter: 0 }) +
+            textParagraph(edu.degree, { color: muted, spaceAfter: 0 }) +
+            textParagraph(periodText(edu, data.language), { color: muted, size: 16, spaceAfter: 120 }),
+        )
+        .join(""),
+  };
+  return (Object.keys(sections) as (keyof typeof sections)[])
+    .filter((key) => isSectionVisible(data, key))
+    .map((key) => sections[key]())
+    .join("");
+};
+
+const contactParagraphs = (data: CVData, align: ParagraphOptions["align"], color?: string) =>
+  [data.contact.email, data.contact.phone, data.contact.location]
+    .filter(Boolean)
+    .map((line) => textParagraph(line, { align, color, spaceAfter: 20 }))
+    .join("");
+
+// --- Layouts ---
+// GDPR clause in small print after everything else, so it ends the last page
+const consentParagraph = (data: CVData) => {
+  const text = consentText(data);
+  return text ? textParagraph(text, { size: 14, color: "9CA3AF", spaceBefore: 240 }) : "";
+};
+
+const columnsBody = (data: CVData, theme: DocxTheme, photo: DocxPhoto | null) => {
+  const photoWidth = photo ? 1900 : 0;
+  const headerWidths = [CONTENT_WIDTH - 3200 - photoWidth, 3200, ...(photo ? [photoWidth] : [])];
+  const header = table(headerWidths, [
+    tableCell(
+      textParagraph(data.fullName, { bold: true, caps: true, size: 48, spaceAfter: 40 }) +
+        textParagraph(data.title, { size: 28, color: theme.accent }),
+      headerWidths[0],
+    ),
+    tableCell(contactParagraphs(data, "right"), headerWidths[1]),
+    ...(photo ? [tableCell(paragraph(photoRun(photo), { align: "right" }), photoWidth)] : []),
+  ]);
+
+  const sideWidth = Math.round(CONTENT_WIDTH * theme.sideRatio);
+  const body = table(
+    [CONTENT_WIDTH - sideWidth, sideWidth],
+    [tableCell(mainSections(data, theme), CONTENT_WIDTH - sideWidth), tableCell(sideSections(data, theme), sideWidth)],
+  );
+
+  return header + aboutMeSection(data, theme) + body;
+};
+
+const sidebarBody = (data: CVData, theme: DocxTheme, photo: DocxPhoto | null) => {
+  const sideWidth = Math.round(CONTENT_WIDTH * theme.sideRatio);
+  const mainWidth = CONTENT_WIDTH - sideWidth;
+  const sidebar =
+    (photo ? paragraph(photoRun(photo), { align: "center", spaceAfter: 160 }) : "") +
+    contactParagraphs(data, "center", theme.sideText) +
+    sideSections(data, theme);
+  const main =
+    textParagraph(data.fullName, { bold: true, size: 48, spaceAfter: 40 }) +
+    textParagraph(data.title, { size: 32, color: theme.accent, spaceAfter: 200 }) +
+    aboutMeSection(data, theme) +
+    mainSections(data, theme);
+
+  return table([sideWidth, mainWidth], [tableCell(sidebar, sideWidth, theme.sideFill), tableCell(main, mainWidth)]);
+};
+
+// --- Package Parts ---
+const contentTypesXml = (photo: DocxPhoto | null) =>
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/>${
+    photo ? `<Default Extension="${photo.extension}" ContentType="image/${photo.extension}"/>` : ""
+  }<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`;
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`;
+
+const documentRelsXml = (photo: DocxPhoto | null) =>
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/><Relationship Id="rIdNumbering" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>${
+    photo
+      ? `<Relationship Id="${IMAGE_REL_ID}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/photo.${photo.extension}"/>`
+      : ""
+  }</Relationships>`;
+
+// Proofing language of the document text
+const PROOFING_LANGUAGES: Record<CVLanguage, string> = { pl: "pl-PL", en: "en-GB", de: "de-DE" };
+
+const stylesXml = (language: CVLanguage) =>
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:sz w:val="20"/><w:szCs w:val="20"/><w:color w:val="1F2937"/><w:lang w:val="${PROOFING_LANGUAGES[language]}"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="80" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style></w:styles>`;
+
+const NUMBERING_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="singleLevel"/><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="360" w:hanging="240"/></w:pPr></w:lvl></w:abstractNum><w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num></w:numbering>`;
+
+const coreXml = (data: CVData) => {
+  const now = new Date().toISOString().replace(/\.\d{3}Z$/, "Z");
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${escapeXml(
+    `CV - ${data.fullName}`,
+  )}</dc:title><dc:subject>${escapeXml(data.title)}</dc:subject><dc:creator>${escapeXml(
+    data.fullName,
+  )}</dc:creator><dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created><dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified></cp:coreProperties>`;
+};
+
+const documentXml = (body: string) =>
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"><w:body>${body}<w:p/><w:sectPr><w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/><w:pgMar w:top="${PAGE_MARGIN}" w:right="${PAGE_MARGIN}" w:bottom="${PAGE_MARGIN}" w:left="${PAGE_MARGIN}" w:header="0" w:footer="0" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+// --- Main: Build a .docx Blob ---
+export const buildCVDocx = async (data: CVData, style: CVStyle, image: string | null): Promise<Blob> => {
+  const theme = THEMES[style];
+  const photo = image ? await loadPhoto(image) : null;
+  const body =
+    (theme.layout === "sidebar" ? sidebarBody(data, theme, photo) : columnsBody(data, theme, photo)) +
+    consentParagraph(data);
+
+  const zip = new JSZip();
+  zip.file("[Content_Types].xml", contentTypesXml(photo));
+  zip.file("_rels/.rels", ROOT_RELS_XML);
+  zip.file("docProps/core.xml", coreXml(data));
+  zip.file("word/document.xml", documentXml(body));
+  zip.file("word/styles.xml", stylesXml(data.language));
+  zip.file("word/numbering.xml", NUMBERING_XML);
+  zip.file("word/_rels/document.xml.rels", documentRelsXml(photo));
+  if (photo) zip.file(`word/media/photo.${photo.extension}`, photo.data);
+
+  return zip.generateAsync({ type: "blob", mimeType: DOCX_MIME });
+};
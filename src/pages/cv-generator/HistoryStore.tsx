@@ -0,0 +1,259 @@
+import { type CVData, type CVLanguage, migrateCVData } from "./CVSchema";
+import type { CVStyle } from "./CVTemplates";
+
+// --- IndexedDB storage for history versions and profile images ---
+// localStorage holds ~5 MB and every history version used to carry its own base64
+// photo. Here each version is a separate record and images are stored once, keyed by
+// a hash of their content, so fifty versions with the same photo cost one image.
+
+// --- Types ---
+export interface HistoryItem {
+  id: string;
+  name: string;
+  timestamp: number;
+  data: CVData;
+  language: CVLanguage; // Active language when the version was saved
+  style: CVStyle;
+  image: string | null;
+}
+
+// As persisted: the image is a reference into the images store
+interface HistoryRecord extends Omit<HistoryItem, "image"> {
+  imageHash: string | null;
+}
+
+interface ImageRecord {
+  hash: string;
+  dataUrl: string;
+}
+
+export interface StorageUsage {
+  versions: number;
+  versionBytes: number;
+  images: number;
+  imageBytes: number;
+  unusedImages: number; // Referenced neither by a version nor by the current photo
+  browserUsage: number | null; // Whole origin, from navigator.storage.estimate()
+  browserQuota: number | null;
+}
+
+// --- Constants ---
+const DB_NAME = "cv-generator";
+const DB_VERSION = 1;
+const HISTORY_STORE = "history";
+const IMAGE_STORE = "images";
+const META_STORE = "meta";
+const CURRENT_IMAGE_KEY = "currentImage";
+// Legacy localStorage keys, moved over once by `migrateFromLocalStorage`
+const LEGACY_HISTORY_KEY = "cv_history_list";
+const LEGACY_IMAGE_KEY = "cv_image";
+
+// --- Helper: Promisified IndexedDB ---
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") return reject(new Error("IndexedDB nie jest dostępne w tej przeglądarce"));
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(HISTORY_STORE, { keyPath: "id" }).createIndex("timestamp", "timestamp");
+        db.createObjectStore(IMAGE_STORE, { keyPath: "hash" });
+        db.createObjectStore(META_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // A failed open (private mode, blocked) may succeed on the next attempt
+    dbPromise.catch(() => (dbPromise = null));
+  }
+  return dbPromise;
+};
+
+const requestResult = <T,>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `work` in one transaction and resolves with its result once the transaction commits
+const transaction = async <T,>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T> | T,
+) => {
+  const db = await openDatabase();
+  const tx = db.transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transakcja przerwana"));
+  });
+  try {
+    const result = await work(tx);
+    await done;
+    return result;
+  } catch (e) {
+    done.catch(() => {}); // Reported through `e`
+    try {
+      tx.abort();
+    } catch {
+      // Already finished or aborted
+    }
+    throw e;
+  }
+};
+
+// --- Helper: Content hash ---
+// SHA-256 where available (secure contexts); FNV-1a otherwise, which is enough for dedup
+export const hashImage = async (dataUrl: string) => {
+  if (typeof crypto !== "undefined" && crypto.subtle) {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(dataUrl));
+    return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+  }
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < dataUrl.length; i++) {
+    hash ^= dataUrl.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `fnv-${hash.toString(16)}-${dataUrl.length}`;
+};
+
+// Writes the image if this content is not stored yet; returns its key
+const putImage = async (tx: IDBTransaction, dataUrl: string | null, hash: string | null) => {
+  if (!dataUrl || !hash) return null;
+  const images = tx.objectStore(IMAGE_STORE);
+  const existing = await requestResult(images.getKey(hash));
+  if (existing === undefined) images.put({ hash, dataUrl } satisfies ImageRecord);
+  return hash;
+};
+
+// --- History versions ---
+export const listHistory = () =>
+  transaction([HISTORY_STORE, IMAGE_STORE], "readonly", async (tx) => {
+    const records = await requestResult<HistoryRecord[]>(tx.objectStore(HISTORY_STORE).getAll());
+    const images = await requestResult<ImageRecord[]>(tx.objectStore(IMAGE_STORE).getAll());
+    const imageByHash = new Map(images.map((img) => [img.hash, img.dataUrl]));
+    return records
+      .flatMap(({ imageHash, ...record }): HistoryItem[] => {
+        // Versions saved by older releases are upgraded to the current schema;
+        // a record that cannot be read is skipped so the rest of the history still loads
+        try {
+          const data = migrateCVData(record.data);
+          return [
+            {
+              ...record,
+              data,
+              language: record.language ?? data.language,
+              image: imageHash ? (imageByHash.get(imageHash) ?? null) : null,
+            },
+          ];
+        } catch (e) {
+          console.error(`History version ${record.id} is corrupted and was skipped`, e);
+          return [];
+        }
+      })
+      .sort((a, b) => b.timestamp - a.timestamp);
+  });
+
+export const saveHistoryItem = async (item: HistoryItem) => {
+  const hash = item.image ? await hashImage(item.image) : null;
+  await transaction([HISTORY_STORE, IMAGE_STORE], "readwrite", async (tx) => {
+    const { image, ...rest } = item;
+    const imageHash = await putImage(tx, image, hash);
+    tx.objectStore(HISTORY_STORE).put({ ...rest, imageHash } satisfies HistoryRecord);
+  });
+};
+
+// The image stays until a cleanup: other versions may still point at it
+export const deleteHistoryItem = (id: string) =>
+  transaction([HISTORY_STORE], "readwrite", (tx) => {
+    tx.objectStore(HISTORY_STORE).delete(id);
+  });
+
+// --- Current profile photo ---
+export const loadCurrentImage = () =>
+  transaction([META_STORE, IMAGE_STORE], "readonly", async (tx) => {
+    const hash = await requestResult<string | undefined>(tx.objectStore(META_STORE).get(CURRENT_IMAGE_KEY));
+    if (hash === undefined) return undefined; // Never saved: caller keeps its default photo
+    if (hash === null) return null;
+    const record = await requestResult<ImageRecord | undefined>(tx.objectStore(IMAGE_STORE).get(hash));
+    return record?.dataUrl ?? null;
+  });
+
+export const saveCurrentImage = async (dataUrl: string | null) => {
+  const hash = dataUrl ? await hashImage(dataUrl) : null;
+  await transaction([META_STORE, IMAGE_STORE], "readwrite", async (tx) => {
+    tx.objectStore(META_STORE).put(await putImage(tx, dataUrl, hash), CURRENT_IMAGE_KEY);
+  });
+};
+
+// --- Migration from localStorage (first load after the update) ---
+// Keys are removed only after the data is safely in IndexedDB.
+export const migrateFromLocalStorage = async () => {
+  const savedHistory = localStorage.getItem(LEGACY_HISTORY_KEY);
+  const savedImage = localStorage.getItem(LEGACY_IMAGE_KEY);
+
+  if (savedHistory) {
+    let items: HistoryItem[] = [];
+    try {
+      items = JSON.parse(savedHistory);
+    } catch (e) {
+      console.error("Legacy history is corrupted and was skipped", e);
+    }
+    for (const item of Array.isArray(items) ? items : []) await saveHistoryItem(item);
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+  }
+
+  if (savedImage !== null) {
+    const valid = savedImage !== "undefined" && savedImage !== "null" && savedImage !== "";
+    await saveCurrentImage(valid ? savedImage : null);
+    localStorage.removeItem(LEGACY_IMAGE_KEY);
+  }
+};
+
+// --- Usage & cleanup ---
+// Sizes are UTF-16 string lengths, i.e. what the data would weigh serialised
+const byteSize = (value: unknown) => JSON.stringify(value).length * 2;
+
+const referencedHashes = async (tx: IDBTransaction) => {
+  const records = await requestResult<HistoryRecord[]>(tx.objectStore(HISTORY_STORE).getAll());
+  const current = await requestResult<string | null | undefined>(tx.objectStore(META_STORE).get(CURRENT_IMAGE_KEY));
+  const hashes = new Set(records.map((r) => r.imageHash).filter((h): h is string => !!h));
+  if (current) hashes.add(current);
+  return { records, hashes };
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const usage = await transaction([HISTORY_STORE, IMAGE_STORE, META_STORE], "readonly", async (tx) => {
+    const { records, hashes } = await referencedHashes(tx);
+    const images = await requestResult<ImageRecord[]>(tx.objectStore(IMAGE_STORE).getAll());
+    return {
+      versions: records.length,
+      versionBytes: records.reduce((sum, r) => sum + byteSize(r), 0),
+      images: images.length,
+      imageBytes: images.reduce((sum, img) => sum + img.dataUrl.length * 2, 0),
+      unusedImages: images.filter((img) => !hashes.has(img.hash)).length,
+    };
+  });
+  const estimate = await navigator.storage?.estimate?.().catch(() => undefined);
+  return { ...usage, browserUsage: estimate?.usage ?? null, browserQuota: estimate?.quota ?? null };
+};
+
+// Removes versions beyond the newest `keepVersions` (all kept when omitted), then every
+// image nothing points at any more. Returns how many records were deleted.
+export const cleanupStorage = (keepVersions?: number) =>
+  transaction([HISTORY_STORE, IMAGE_STORE, META_STORE], "readwrite", async (tx) => {
+    const history = tx.objectStore(HISTORY_STORE);
+    const all = await requestResult<HistoryRecord[]>(history.getAll());
+    const stale = keepVersions === undefined ? [] : all.sort((a, b) => b.timestamp - a.timestamp).slice(keepVersions);
+    stale.forEach((record) => history.delete(record.id));
+
+    const { hashes } = await referencedHashes(tx);
+    const images = tx.objectStore(IMAGE_STORE);
+    const imageKeys = await requestResult(images.getAllKeys());
+    const unused = imageKeys.filter((key) => !hashes.has(key as string));
+    unused.forEach((key) => images.delete(key));
+    return { versions: stale.length, images: unused.length };
+  });
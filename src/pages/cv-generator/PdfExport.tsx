@@ -0,0 +1,144 @@
+import html2canvas from "html2canvas";
+import { jsPDF } from "jspdf";
+
+// --- Constants ---
+const A4_WIDTH_MM = 210;
+const A4_HEIGHT_MM = 297;
+const PAGE_MARGIN_MM = 12; // Top margin of continuation pages and bottom margin of every page
+const RENDER_SCALE = 2;
+// Elements the page breaker must not cut through (experience entries etc.)
+const PDF_BLOCK_ATTRIBUTE = "data-pdf-block";
+
+interface PdfMetadata {
+  author: string;
+  title: string;
+  subject?: string;
+}
+
+// --- Helper: File Name from Full Name ---
+export const cvFileName = (fullName: string, extension: string, prefix = "CV") => {
+  const safe = fullName
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/ł/g, "l")
+    .replace(/Ł/g, "L")
+    .replace(/[^a-zA-Z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  return `${prefix}_${safe || "dokument"}.${extension}`;
+};
+
+// --- Helper: Page Break Positions ---
+// Returns the y offsets (CSS px, relative to the CV) where each page starts.
+// A break that would fall inside a block is moved up to the block's top,
+// unless the block is taller than a whole page.
+const computePageStarts = (element: HTMLElement, firstPageHeight: number, pageHeight: number) => {
+  const bounds = element.getBoundingClientRect();
+  // Undo the preview's CSS scale so offsets are in layout pixels
+  const layoutScale = bounds.width / element.offsetWidth || 1;
+  const blocks = Array.from(element.querySelectorAll<HTMLElement>(`[${PDF_BLOCK_ATTRIBUTE}]`)).map((el) => {
+    const rect = el.getBoundingClientRect();
+    return { top: (rect.top - bounds.top) / layoutScale, bottom: (rect.bottom - bounds.top) / layoutScale };
+  });
+  const totalHeight = element.scrollHeight;
+  const starts = [0];
+
+  let start = 0;
+  let available = firstPageHeight;
+  while (start + available < totalHeight) {
+    let pageEnd = start + available;
+    for (const block of blocks) {
+      const fitsOnPage = block.bottom - block.top <= pageHeight;
+      if (block.top > start && block.top < pageEnd && block.bottom > pageEnd && fitsOnPage) {
+        pageEnd = Math.min(pageEnd, block.top);
+      }
+    }
+    starts.push(pageEnd);
+    start = pageEnd;
+    available = pageHeight;
+  }
+  return starts;
+};
+
+// --- Helper: Capture one element and its page breaks ---
+const captureElement = async (element: HTMLElement) => {
+  // The preview is scaled down on smaller screens; measure and render at 1:1
+  const scaledWrapper = element.parentElement;
+  const previousTransform = scaledWrapper?.style.transform ?? "";
+  if (scaledWrapper) scaledWrapper.style.transform = "none";
+
+  const cssWidth = element.offsetWidth;
+  const pxPerMm = cssWidth / A4_WIDTH_MM;
+  try {
+    const firstPageHeight = (A4_HEIGHT_MM - PAGE_MARGIN_MM) * pxPerMm;
+    const pageHeight = (A4_HEIGHT_MM - 2 * PAGE_MARGIN_MM) * pxPerMm;
+    const pageStarts = computePageStarts(element, firstPageHeight, pageHeight);
+
+    const canvas = await html2canvas(element, {
+      scale: RENDER_SCALE,
+      useCORS: true,
+      backgroundColor: "#ffffff",
+      // Hover buttons (remove item etc.) never belong in the document
+      ignoreElements: (el) => el.classList.contains("no-print"),
+    });
+    return { canvas, pageStarts, cssWidth, pxPerMm, totalHeight: element.scrollHeight };
+  } finally {
+    if (scaledWrapper) scaledWrapper.style.transform = previousTransform;
+  }
+};
+
+// --- Main: Render elements to one multi-page A4 PDF (each element starts a new page) ---
+export const exportElementsToPdf = async (elements: HTMLElement[], fileName: string, metadata: PdfMetadata) => {
+  const captures = [];
+  for (const element of elements) captures.push(await captureElement(element));
+
+  const pdf = new jsPDF({ orientation: "portrait", unit: "mm", format: "a4", compress: true });
+  pdf.setProperties({
+    title: metadata.title,
+    author: metadata.author,
+    subject: metadata.subject || "",
+    creator: "CV Generator",
+  });
+
+  const pageCanvas = document.createElement("canvas");
+  const ctx = pageCanvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+
+  captures.forEach(({ canvas, pageStarts, cssWidth, pxPerMm, totalHeight }, captureIndex) => {
+    const pixelRatio = canvas.width / cssWidth;
+    pageStarts.forEach((start, index) => {
+      const end = pageStarts[index + 1] ?? totalHeight;
+      const sliceHeight = Math.max(1, Math.round((end - start) * pixelRatio));
+      pageCanvas.width = canvas.width;
+      pageCanvas.height = sliceHeight;
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(0, 0, pageCanvas.width, pageCanvas.height);
+      ctx.drawImage(
+        canvas,
+        0,
+        Math.round(start * pixelRatio),
+        canvas.width,
+        sliceHeight,
+        0,
+        0,
+        canvas.width,
+        sliceHeight,
+      );
+
+      if (captureIndex > 0 || index > 0) pdf.addPage();
+      const offsetY = index === 0 ? 0 : PAGE_MARGIN_MM;
+      pdf.addImage(
+        pageCanvas.toDataURL("image/jpeg", 0.92),
+        "JPEG",
+        0,
+        offsetY,
+        A4_WIDTH_MM,
+        sliceHeight / pixelRatio / pxPerMm,
+      );
+    });
+  });
+
+  pdf.save(fileName);
+};
+
+export const exportElementToPdf = (element: HTMLElement, fileName: string, metadata: PdfMetadata) =>
+  exportElementsToPdf([element], fileName, metadata);
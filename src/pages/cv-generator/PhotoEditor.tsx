@@ -0,0 +1,475 @@
+import React, { useEffect, useRef, useState } from "react";
+import type { PhotoShape } from "./CVTemplates";
+
+// --- Profile photo editor ---
+// Crops, rotates and adjusts the photo before it is stored, so templates get a small
+// square image instead of the raw upload. The mask only previews the template's frame
+// (templates round the photo themselves); the stored image is always square.
+// Background replacement runs locally on the pixels: "flood" fills the area connected
+// to the picked point (or to the edges), "chroma" replaces the key colour everywhere.
+
+// --- Types ---
+export type BackgroundMode = "flood" | "chroma";
+
+export interface BackgroundSettings {
+  enabled: boolean;
+  mode: BackgroundMode;
+  color: string; // Replacement, "#rrggbb"
+  tolerance: number; // RGB distance from the key colour (0-441)
+  seed: { x: number; y: number } | null; // Picked point as fractions of the frame; the edges when null
+}
+
+export interface PhotoSettings {
+  zoom: number; // 1 = the shorter side fills the frame
+  rotation: number; // Degrees
+  offsetX: number; // Pan as a fraction of the frame
+  offsetY: number;
+  brightness: number; // 1 = unchanged, like CSS brightness()
+  contrast: number; // 1 = unchanged, like CSS contrast()
+  background: BackgroundSettings;
+}
+
+// --- Constants ---
+const OUTPUT_SIZE = 600; // px; templates show the photo at most ~4 cm wide, print included
+const MIN_OUTPUT_SIZE = 64;
+const PREVIEW_SIZE = 280;
+const JPEG_QUALITY = 0.9;
+const FEATHER = 0.35; // Share of the tolerance blended at the border of the background
+
+export const DEFAULT_PHOTO_SETTINGS: PhotoSettings = {
+  zoom: 1,
+  rotation: 0,
+  offsetX: 0,
+  offsetY: 0,
+  brightness: 1,
+  contrast: 1,
+  background: { enabled: false, mode: "flood", color: "#ffffff", tolerance: 60, seed: null },
+};
+
+// --- Helper: Pixels (RGBA, `size` x `size`) ---
+const hexToRgb = (hex: string) => {
+  const value = parseInt(hex.slice(1), 16) || 0;
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const edgeIndices = (size: number) => {
+  const indices: number[] = [];
+  for (let i = 0; i < size; i++) indices.push(i, (size - 1) * size + i, i * size, i * size + size - 1);
+  return indices;
+};
+
+// The picked pixel, or the average of the covered edge pixels
+const keyColour = (pixels: Uint8ClampedArray, seeds: number[]) => {
+  const covered = seeds.filter((i) => pixels[i * 4 + 3] > 0);
+  if (covered.length === 0) return [255, 255, 255];
+  const sum = [0, 0, 0];
+  covered.forEach((i) => [0, 1, 2].forEach((c) => (sum[c] += pixels[i * 4 + c])));
+  return sum.map((value) => value / covered.length);
+};
+
+// Weight of the replacement colour per pixel: 1 inside the background, fading out at its border
+export const backgroundMask = (pixels: Uint8ClampedArray, size: number, background: BackgroundSettings) => {
+  const count = size * size;
+  const mask = new Float32Array(count);
+  const seeds = background.seed
+    ? [
+        Math.min(size - 1, Math.floor(background.seed.y * size)) * size +
+          Math.min(size - 1, Math.floor(background.seed.x * size)),
+      ]
+    : edgeIndices(size);
+  const [r, g, b] = keyColour(pixels, seeds);
+  const tolerance = Math.max(1, background.tolerance);
+  const weight = (i: number) => {
+    const o = i * 4;
+    if (pixels[o + 3] === 0) return 1; // Outside the rotated photo
+    const distance = Math.hypot(pixels[o] - r, pixels[o + 1] - g, pixels[o + 2] - b);
+    return distance >= tolerance ? 0 : Math.min(1, (tolerance - distance) / (tolerance * FEATHER));
+  };
+
+  if (background.mode === "chroma") {
+    for (let i = 0; i < count; i++) mask[i] = weight(i);
+    return mask;
+  }
+
+  // Flood fill: 4-connected from the seeds through pixels close to the key colour
+  const visited = new Uint8Array(count);
+  const queue = new Int32Array(count);
+  let head = 0;
+  let tail = 0;
+  const visit = (i: number) => {
+    if (visited[i]) return;
+    visited[i] = 1;
+    mask[i] = weight(i);
+    if (mask[i] > 0) queue[tail++] = i;
+  };
+  seeds.forEach(visit);
+  while (head < tail) {
+    const i = queue[head++];
+    const x = i % size;
+    if (x > 0) visit(i - 1);
+    if (x < size - 1) visit(i + 1);
+    if (i >= size) visit(i - size);
+    if (i < count - size) visit(i + size);
+  }
+  return mask;
+};
+
+// Brightness / contrast on the photo, the solid colour on the background and on uncovered corners
+export const processPixels = (pixels: Uint8ClampedArray, size: number, settings: PhotoSettings) => {
+  const { brightness, contrast, background } = settings;
+  const mask = background.enabled ? backgroundMask(pixels, size, background) : null;
+  const fill = background.enabled ? hexToRgb(background.color) : [255, 255, 255];
+  const adjust = (value: number) => ((value / 255) * brightness - 0.5) * contrast * 255 + 127.5;
+
+  for (let i = 0; i < size * size; i++) {
+    const o = i * 4;
+    const weight = Math.max(mask ? mask[i] : 0, 1 - pixels[o + 3] / 255);
+    for (let c = 0; c < 3; c++) pixels[o + c] = fill[c] * weight + adjust(pixels[o + c]) * (1 - weight);
+    pixels[o + 3] = 255;
+  }
+};
+
+// --- Helper: Rendering ---
+const renderPhoto = (image: HTMLImageElement, settings: PhotoSettings, size: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+
+  const { naturalWidth: width, naturalHeight: height } = image;
+  const scale = (size / Math.min(width, height)) * settings.zoom;
+  ctx.imageSmoothingQuality = "high";
+  ctx.translate(size / 2 + settings.offsetX * size, size / 2 + settings.offsetY * size);
+  ctx.rotate((settings.rotation * Math.PI) / 180);
+  ctx.scale(scale, scale);
+  ctx.drawImage(image, -width / 2, -height / 2);
+
+  const imageData = ctx.getImageData(0, 0, size, size);
+  processPixels(imageData.data, size, settings);
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+};
+
+// No larger than the visible part of the original: upscaling adds bytes, not detail
+const outputSize = (image: HTMLImageElement, zoom: number) =>
+  Math.max(
+    MIN_OUTPUT_SIZE,
+    Math.min(OUTPUT_SIZE, Math.round(Math.min(image.naturalWidth, image.naturalHeight) / zoom)),
+  );
+
+export const exportPhoto = (image: HTMLImageElement, settings: PhotoSettings) =>
+  renderPhoto(image, settings, outputSize(image, settings.zoom)).toDataURL("image/jpeg", JPEG_QUALITY);
+
+// --- HELPER COMPONENT: Labelled slider ---
+const Slider = ({
+  label,
+  value,
+  min,
+  max,
+  step,
+  format,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}) => (
+  <label className="block text-xs text-gray-600">
+    <span className="flex justify-between mb-1">
+      {label} <span className="font-bold text-gray-800">{format(value)}</span>
+    </span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full accent-blue-600"
+    />
+  </label>
+);
+
+// --- COMPONENT: Photo editor dialog ---
+interface PhotoEditorModalProps {
+  source: string; // Data or object URL of the photo to edit
+  shape: PhotoShape; // Frame of the current template
+  onSave: (dataUrl: string) => void;
+  onClose: () => void;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const PhotoEditorModal: React.FC<PhotoEditorModalProps> = ({ source, shape: initialShape, onSave, onClose }) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [settings, setSettings] = useState<PhotoSettings>(DEFAULT_PHOTO_SETTINGS);
+  const [shape, setShape] = useState<PhotoShape>(initialShape);
+  const [isPicking, setIsPicking] = useState(false);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number; offsetX: number; offsetY: number } | null>(null);
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setImage(img);
+    img.onerror = () => setLoadError(true);
+    img.src = source;
+  }, [source]);
+
+  useEffect(() => {
+    const ctx = previewRef.current?.getContext("2d");
+    if (!image || !ctx) return;
+    try {
+      ctx.drawImage(renderPhoto(image, settings, PREVIEW_SIZE), 0, 0);
+    } catch (e) {
+      console.error("Photo preview failed", e);
+    }
+  }, [image, settings]);
+
+  const update = (patch: Partial<PhotoSettings>) => setSettings((prev) => ({ ...prev, ...patch }));
+  const updateBackground = (patch: Partial<BackgroundSettings>) =>
+    setSettings((prev) => ({ ...prev, background: { ...prev.background, ...patch } }));
+
+  // Pointer position as a fraction of the frame
+  const framePoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (isPicking) {
+      updateBackground({ enabled: true, seed: framePoint(e) });
+      setIsPicking(false);
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, offsetX: settings.offsetX, offsetY: settings.offsetY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    update({
+      offsetX: drag.offsetX + (e.clientX - drag.x) / rect.width,
+      offsetY: drag.offsetY + (e.clientY - drag.y) / rect.height,
+    });
+  };
+
+  const handleSave = () => {
+    if (!image) return;
+    try {
+      onSave(exportPhoto(image, settings));
+    } catch (e) {
+      console.error("Photo export failed", e);
+      alert("Błąd przetwarzania zdjęcia.");
+    }
+  };
+
+  const rotateBy = (degrees: number) => update({ rotation: ((settings.rotation + degrees + 540) % 360) - 180 });
+  const { background } = settings;
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 print:hidden">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl flex flex-col overflow-hidden max-h-[90vh]">
+        <div className="p-4 border-b flex justify-between items-center bg-gray-50">
+          <h2 className="font-bold text-gray-800">Edycja zdjęcia</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 hover:bg-gray-200 rounded-full p-1 transition"
+          >
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M18 6L6 18M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-1 grid md:grid-cols-[auto_1fr] gap-6">
+          <div className="flex flex-col items-center gap-2">
+            <div className="relative overflow-hidden bg-gray-200" style={{ width: PREVIEW_SIZE, height: PREVIEW_SIZE }}>
+              {loadError ? (
+                <p className="p-6 text-xs text-red-600 text-center">Nie udało się wczytać zdjęcia.</p>
+              ) : (
+                <canvas
+                  ref={previewRef}
+                  width={PREVIEW_SIZE}
+                  height={PREVIEW_SIZE}
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={() => (dragRef.current = null)}
+                  className={`touch-none ${isPicking ? "cursor-crosshair" : "cursor-move"}`}
+                />
+              )}
+              {/* Frame of the template: everything outside is dimmed */}
+              <div
+                className={`pointer-events-none absolute inset-0 ${shape === "circle" ? "rounded-full" : ""}`}
+                style={{ boxShadow: "0 0 0 9999px rgba(0, 0, 0, 0.45)", outline: "2px solid rgba(255, 255, 255, 0.8)" }}
+              />
+            </div>
+            <div className="flex gap-1">
+              {(["circle", "square"] as const).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setShape(option)}
+                  className={`px-3 py-1 text-xs font-bold rounded-md ${
+                    shape === option ? "bg-gray-800 text-white" : "text-gray-600 border border-gray-300"
+                  }`}
+                >
+                  {option === "circle" ? "Koło" : "Kwadrat"}
+                  {option === initialShape && " (szablon)"}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] text-gray-400">
+              {isPicking ? "Kliknij w tło na podglądzie" : "Przeciągnij, aby przesunąć kadr"}
+            </p>
+          </div>
+
+          <div className="space-y-4">
+            <Slider
+              label="Powiększenie"
+              value={settings.zoom}
+              min={1}
+              max={4}
+              step={0.01}
+              format={percent}
+              onChange={(zoom) => update({ zoom })}
+            />
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <Slider
+                  label="Obrót"
+                  value={settings.rotation}
+                  min={-180}
+                  max={180}
+                  step={1}
+                  format={(value) => `${value}°`}
+                  onChange={(rotation) => update({ rotation })}
+                />
+              </div>
+              <button
+                onClick={() => rotateBy(-90)}
+                className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50"
+                title="Obróć w lewo o 90°"
+              >
+                ⟲
+              </button>
+              <button
+                onClick={() => rotateBy(90)}
+                className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50"
+                title="Obróć w prawo o 90°"
+              >
+                ⟳
+              </button>
+            </div>
+            <Slider
+              label="Jasność"
+              value={settings.brightness}
+              min={0.5}
+              max={1.5}
+              step={0.01}
+              format={percent}
+              onChange={(brightness) => update({ brightness })}
+            />
+            <Slider
+              label="Kontrast"
+              value={settings.contrast}
+              min={0.5}
+              max={1.5}
+              step={0.01}
+              format={percent}
+              onChange={(contrast) => update({ contrast })}
+            />
+
+            <div className="pt-3 border-t border-gray-200 space-y-3">
+              <label className="flex items-center gap-2 text-xs font-bold text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={background.enabled}
+                  onChange={(e) => updateBackground({ enabled: e.target.checked })}
+                />
+                Zamień tło na jednolity kolor
+              </label>
+              {background.enabled && (
+                <>
+                  <div className="flex gap-2">
+                    <select
+                      value={background.mode}
+                      onChange={(e) => updateBackground({ mode: e.target.value as BackgroundMode })}
+                      className="flex-1 p-1.5 text-xs border border-gray-300 rounded focus:outline-none focus:border-blue-500"
+                    >
+                      <option value="flood">Obszar połączony z tłem</option>
+                      <option value="chroma">Kolor tła w całym zdjęciu</option>
+                    </select>
+                    <input
+                      type="color"
+                      value={background.color}
+                      onChange={(e) => updateBackground({ color: e.target.value })}
+                      className="h-8 w-10 border border-gray-300 rounded cursor-pointer"
+                      title="Nowy kolor tła"
+                    />
+                  </div>
+                  <Slider
+                    label="Tolerancja"
+                    value={background.tolerance}
+                    min={5}
+                    max={150}
+                    step={1}
+                    format={String}
+                    onChange={(tolerance) => updateBackground({ tolerance })}
+                  />
+                  <div className="flex items-center gap-2 text-[10px] text-gray-500">
+                    <button
+                      onClick={() => setIsPicking((prev) => !prev)}
+                      className={`px-2 py-1 border rounded ${
+                        isPicking ? "border-blue-500 text-blue-600 bg-blue-50" : "border-gray-300 hover:bg-gray-50"
+                      }`}
+                    >
+                      Wskaż tło
+                    </button>
+                    {background.seed ? (
+                      <button onClick={() => updateBackground({ seed: null })} className="hover:underline">
+                        Użyj krawędzi zdjęcia
+                      </button>
+                    ) : (
+                      <span>Kolor tła pobierany z krawędzi zdjęcia</span>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t bg-gray-50 flex justify-between items-center gap-3">
+          <button
+            onClick={() => setSettings(DEFAULT_PHOTO_SETTINGS)}
+            className="text-xs text-gray-500 hover:text-gray-800 hover:underline"
+          >
+            Resetuj
+          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-800 transition"
+            >
+              Anuluj
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!image}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold rounded-lg shadow-md transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Zapisz zdjęcie
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,61 +1,66 @@
 import React, { useEffect, useRef, useState, useCallback } from "react";
+import { renderSegmentsToVideo } from "./VideoExport";
+import Timeline from "./Timeline";
+import ProjectLibrary from "./ProjectLibrary";
+import CutListPanel from "./CutListPanel";
+import SceneDetectionPanel from "./SceneDetectionPanel";
+import { type EditHistory, EMPTY_HISTORY, recordEdit, undoEdit, redoEdit, parseHistory, storedHistory } from "./EditHistory";
+import ShortcutCheatSheet, { SHUTTLE_SPEEDS, FRAME_STEP, isTypingTarget } from "./KeyboardShortcuts";
+import {
+  type ProjectRecord,
+  type StorageEstimate,
+  listProjects,
+  createProject,
+  getProjectFile,
+  updateProject,
+  deleteProject,
+  getMediaOverview,
+  saveMediaOverview,
+  getStorageEstimate,
+} from "./VideoEditorDB";
+import { type MediaOverview, generateThumbnails, computeWaveform } from "./MediaAnalysis";
+import {
+  type VideoSegment,
+  type SegmentAudio,
+  getSegmentAudio,
+  getSegmentSource,
+  withSegmentAudio,
+  withSegmentOptions,
+  parseSegments,
+  applySegmentToPlayer,
+} from "./SegmentModel";
 
 // --- Types & Constants ---
-// [Start Time, End Time, Playback Speed]
-export type VideoSegment = [number, number, number];
+export type { VideoSegment };
 
 const DEMO_VIDEO_SRC = "https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/BigBuckBunny.mp4";
 const DEMO_FILENAME = "demo_bunny_sample";
 
-// =========================================
-// UTILITY: IndexedDB Helper
-// =========================================
-const DB_NAME = "VideoEditorDB";
-const STORE_NAME = "files";
-const DB_VERSION = 1;
-
-const openDB = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-    request.onerror = () => reject("Error opening DB");
-    request.onsuccess = () => resolve(request.result);
-    request.onupgradeneeded = (e: any) => {
-      const db = e.target.result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME);
-      }
+// Demo video history lives in localStorage next to its segments
+const historyStorageKey = (fileName: string) => `${fileName}__history`;
+
+const THUMBNAIL_COUNT = 40;
+const WAVEFORM_BUCKETS = 1500;
+
+// Points a player at `url` (only reloading when it changed) and seeks to `time`
+const cueSource = (player: HTMLVideoElement, url: string, time: number): Promise<void> => {
+  if (player.getAttribute("src") === url && player.readyState >= 1) {
+    player.currentTime = time;
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    const onReady = () => {
+      player.removeEventListener("loadedmetadata", onReady);
+      player.removeEventListener("error", onReady);
+      player.currentTime = time;
+      resolve();
     };
+    player.addEventListener("loadedmetadata", onReady);
+    player.addEventListener("error", onReady);
+    if (player.getAttribute("src") !== url) player.src = url;
   });
 };
 
-const saveFileToDB = async (file: File) => {
-  const db = await openDB();
-  return new Promise<void>((resolve, reject) => {
-    const tx = db.transaction(STORE_NAME, "readwrite");
-    const store = tx.objectStore(STORE_NAME);
-    const request = store.put(file, "currentVideo");
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject("Error saving file");
-  });
-};
-
-const getFileFromDB = async (): Promise<File | null> => {
-  const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(STORE_NAME, "readonly");
-    const store = tx.objectStore(STORE_NAME);
-    const request = store.get("currentVideo");
-    request.onsuccess = () => resolve(request.result || null);
-    request.onerror = () => reject("Error getting file");
-  });
-};
-
-const clearDB = async () => {
-  const db = await openDB();
-  const tx = db.transaction(STORE_NAME, "readwrite");
-  tx.objectStore(STORE_NAME).clear();
-};
-
 // =========================================
 // HELPER: Editable Inputs
 // =========================================
@@ -132,32 +137,87 @@ const SpeedInput: React.FC<EditableInputProps> = ({ value, onCommit }) => {
   );
 };
 
+// =========================================
+// HELPER: Per-Segment Audio Controls
+// =========================================
+interface AudioControlsProps {
+  audio: Required<SegmentAudio>;
+  onChange: (patch: SegmentAudio, preview?: boolean) => void;
+}
+
+const AudioControls: React.FC<AudioControlsProps> = ({ audio, onChange }) => {
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        onClick={() => onChange({ muted: !audio.muted })}
+        title={audio.muted ? "Unmute segment" : "Mute segment"}
+        className={`w-8 h-8 rounded text-sm border transition-colors ${
+          audio.muted ? "bg-red-900/40 border-red-700 text-red-300" : "bg-gray-700 border-gray-600 hover:bg-gray-600"
+        }`}
+      >
+        {audio.muted ? "🔇" : "🔊"}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.05}
+        value={audio.volume}
+        disabled={audio.muted}
+        onChange={(e) => onChange({ volume: parseFloat(e.target.value) })}
+        className="w-20 accent-blue-500 disabled:opacity-40"
+        title={`Volume ${Math.round(audio.volume * 100)}%`}
+      />
+      <label
+        className="flex items-center gap-1 text-[10px] text-gray-400 uppercase cursor-pointer select-none"
+        title="Keep original pitch when speed is not 1x"
+      >
+        <input
+          type="checkbox"
+          checked={audio.preservePitch}
+          onChange={(e) => onChange({ preservePitch: e.target.checked }, true)}
+          className="accent-yellow-500"
+        />
+        Pitch
+      </label>
+    </div>
+  );
+};
+
 // =========================================
 // COMPONENT: Segment Editor
 // =========================================
+interface SourceOption {
+  id: string;
+  name: string;
+}
+
 interface SegmentEditorProps {
   segments: VideoSegment[];
-  onUpdate: (newSegments: VideoSegment[]) => void;
+  sourceOptions: SourceOption[]; // Other projects a segment can pull from
+  onUpdate: (newSegments: VideoSegment[], label: string, mergeKey?: string) => void;
   onPreview: (range: VideoSegment) => void;
 }
 
-const SegmentEditor: React.FC<SegmentEditorProps> = ({ segments, onUpdate, onPreview }) => {
+const SegmentEditor: React.FC<SegmentEditorProps> = ({ segments, sourceOptions, onUpdate, onPreview }) => {
   const updateSegmentTime = (index: number, position: 0 | 1, exactValue: number) => {
     const updated = [...segments];
-    updated[index][position] = Math.max(0, Number(exactValue.toFixed(2)));
-    onUpdate(updated);
+    const edited = [...updated[index]] as VideoSegment;
+    edited[position] = Math.max(0, Number(exactValue.toFixed(2)));
+    updated[index] = edited;
+    onUpdate(updated, position === 0 ? "Retime segment start" : "Retime segment end");
 
     // Smart Preview Logic
-    const [segStart, segEnd, segSpeed] = updated[index];
+    const [segStart, segEnd, segSpeed, segOptions] = updated[index];
     let previewRange: VideoSegment;
 
     if (position === 0) {
       // Edit Start: Play Full
-      previewRange = [segStart, segEnd, segSpeed];
+      previewRange = [segStart, segEnd, segSpeed, segOptions];
     } else {
       // Edit End: Play last 0.5s
       const pStart = Math.max(segStart, segEnd - 0.5);
-      previewRange = [pStart, segEnd, segSpeed];
+      previewRange = [pStart, segEnd, segSpeed, segOptions];
     }
     onPreview(previewRange);
   };
@@ -169,18 +229,42 @@ const SegmentEditor: React.FC<SegmentEditorProps> = ({ segments, onUpdate, onPre
 
   const updateSpeed = (index: number, newSpeed: number) => {
     const updated = [...segments];
-    updated[index][2] = newSpeed;
-    onUpdate(updated);
+    const edited = [...updated[index]] as VideoSegment;
+    edited[2] = newSpeed;
+    updated[index] = edited;
+    onUpdate(updated, "Change speed");
     onPreview(updated[index]);
   };
 
+  const updateAudio = (index: number, patch: SegmentAudio, preview = false) => {
+    const updated = [...segments];
+    updated[index] = withSegmentAudio(updated[index], patch);
+    // Volume is a slider: one drag becomes one undo step
+    onUpdate(updated, "Change audio", "volume" in patch ? `volume:${index}` : undefined);
+    if (preview) onPreview(updated[index]);
+  };
+
+  const updateSource = (index: number, source: string) => {
+    const updated = [...segments];
+    updated[index] = withSegmentOptions(updated[index], { source: source || undefined });
+    onUpdate(updated, "Change source clip");
+  };
+
   const deleteSegment = (index: number) => {
-    onUpdate(segments.filter((_, i) => i !== index));
+    onUpdate(
+      segments.filter((_, i) => i !== index),
+      "Delete segment"
+    );
   };
 
   const addSegment = () => {
-    const lastEnd = segments.length > 0 ? segments[segments.length - 1][1] : 0;
-    onUpdate([...segments, [lastEnd, lastEnd + 5, 1]]);
+    const last = segments[segments.length - 1];
+    const lastEnd = last ? last[1] : 0;
+    const lastSource = last && getSegmentSource(last);
+    onUpdate(
+      [...segments, lastSource ? [lastEnd, lastEnd + 5, 1, { source: lastSource }] : [lastEnd, lastEnd + 5, 1]],
+      "Add segment"
+    );
   };
 
   return (
@@ -210,6 +294,26 @@ const SegmentEditor: React.FC<SegmentEditorProps> = ({ segments, onUpdate, onPre
               </button>
             </div>
 
+            {/* Source Clip */}
+            {sourceOptions.length > 0 && (
+              <select
+                value={getSegmentSource(seg) || ""}
+                onChange={(e) => updateSource(idx, e.target.value)}
+                title="Source clip of this segment"
+                className="w-full xl:w-32 bg-gray-900 text-gray-300 text-xs p-1 rounded border border-gray-600 focus:border-blue-500 focus:outline-none truncate"
+              >
+                <option value="">This clip</option>
+                {sourceOptions.map((opt) => (
+                  <option key={opt.id} value={opt.id}>
+                    {opt.name}
+                  </option>
+                ))}
+                {getSegmentSource(seg) && !sourceOptions.some((opt) => opt.id === getSegmentSource(seg)) && (
+                  <option value={getSegmentSource(seg)}>Missing clip</option>
+                )}
+              </select>
+            )}
+
             {/* Time Controls (Start / End) */}
             <div className="flex flex-wrap justify-center gap-4 w-full">
               {/* Start */}
@@ -249,8 +353,9 @@ const SegmentEditor: React.FC<SegmentEditorProps> = ({ segments, onUpdate, onPre
               </div>
             </div>
 
-            {/* Right Side: Speed + Remove */}
+            {/* Right Side: Audio + Speed + Remove */}
             <div className="flex items-center gap-2 ml-auto w-full xl:w-auto justify-end mt-2 xl:mt-0">
+              <AudioControls audio={getSegmentAudio(seg)} onChange={(patch, preview) => updateAudio(idx, patch, preview)} />
               {/* SPEED NUMBER INPUT */}
               <SpeedInput value={seg[2]} onCommit={(val) => updateSpeed(idx, val)} />
               <button
@@ -289,6 +394,11 @@ const App: React.FC = () => {
   const [currentFileName, setCurrentFileName] = useState<string>("");
   const [isLoadingFile, setIsLoadingFile] = useState(true);
 
+  // Project library (null = demo video, which is not stored in IndexedDB)
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+  const [projects, setProjects] = useState<ProjectRecord[]>([]);
+  const [storage, setStorage] = useState<StorageEstimate | null>(null);
+
   // Updated state type
   const [segments, setSegments] = useState<VideoSegment[]>([]);
   const [jsonInput, setJsonInput] = useState("[]");
@@ -300,32 +410,83 @@ const App: React.FC = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const activeListenerRef = useRef<{ element: HTMLVideoElement; fn: () => void } | null>(null);
 
-  const playRef = useRef<(segmentIndex: number, currentPlayerIdx: 0 | 1, currentSegments: VideoSegment[]) => void>(
-    () => {}
-  );
+  const playRef = useRef<
+    (segmentIndex: number, currentPlayerIdx: 0 | 1, currentSegments: VideoSegment[], sources: string[]) => void
+  >(() => {});
+  // Bumped on every stop, so async source loads can tell they are stale
+  const playbackTokenRef = useRef(0);
+  // Object URLs of other projects' files used as segment sources
+  const sourceUrlsRef = useRef<Map<string, string>>(new Map());
   const [activePlayerIndex, setActivePlayerIndex] = useState<0 | 1>(0);
   const [isPlaying, setIsPlaying] = useState(false);
 
+  // Keyboard editing state
+  const [markIn, setMarkIn] = useState<number | null>(null);
+  const [markOut, setMarkOut] = useState<number | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const shuttleRef = useRef<{ speed: number; frameId: number }>({ speed: 0, frameId: 0 });
+  const keyHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {});
+
+  // Undo / redo command history, persisted with the segments
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+
+  // Timeline state
+  const [videoDuration, setVideoDuration] = useState(0);
+  const [playhead, setPlayhead] = useState(0);
+  const [mediaOverview, setMediaOverview] = useState<MediaOverview | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+  // Export state
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportProgress, setExportProgress] = useState(0);
+  const [exportUrl, setExportUrl] = useState<string>("");
+  const [exportError, setExportError] = useState<string | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+
   // --- 1. File Persistence Logic (IndexedDB) ---
+  const refreshLibrary = useCallback(async () => {
+    try {
+      const [list, estimate] = await Promise.all([listProjects(), getStorageEstimate()]);
+      setProjects(list);
+      setStorage(estimate);
+    } catch (err) {
+      console.error("Failed to list projects", err);
+    }
+  }, []);
+
+  const openDemo = () => {
+    setActiveProjectId(null);
+    setVideoSrc(DEMO_VIDEO_SRC);
+    setCurrentFileName(DEMO_FILENAME);
+    loadSettingsForFile(DEMO_FILENAME);
+  };
+
+  const openProject = async (project: ProjectRecord) => {
+    const file = await getProjectFile(project.id);
+    if (!file) throw new Error(`Video for "${project.name}" is missing`);
+    setVideoSrc(URL.createObjectURL(file));
+    setActiveProjectId(project.id);
+    setCurrentFileName(project.name);
+    applyLoadedSegments(project.segments, parseHistory(project.history));
+    await updateProject(project.id, { lastOpened: Date.now() });
+  };
+
   useEffect(() => {
     const restoreSession = async () => {
       setIsLoadingFile(true);
       try {
-        const file = await getFileFromDB();
-        if (file) {
-          const url = URL.createObjectURL(file);
-          setVideoSrc(url);
-          setCurrentFileName(file.name);
-          loadSettingsForFile(file.name);
+        const [lastProject] = await listProjects();
+        if (lastProject) {
+          await openProject(lastProject);
         } else {
-          setVideoSrc(DEMO_VIDEO_SRC);
-          setCurrentFileName(DEMO_FILENAME);
-          loadSettingsForFile(DEMO_FILENAME);
+          openDemo();
         }
       } catch (err) {
         console.error("Failed to restore video", err);
+        openDemo();
       } finally {
         setIsLoadingFile(false);
+        refreshLibrary();
       }
     };
     restoreSession();
@@ -333,64 +494,99 @@ const App: React.FC = () => {
 
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    event.target.value = ""; // Allow picking the same file again
     if (!file) return;
 
     stopAll();
     setIsLoadingFile(true);
 
-    if (videoSrc && videoSrc !== DEMO_VIDEO_SRC) {
-      URL.revokeObjectURL(videoSrc);
-    }
-
     try {
-      await saveFileToDB(file);
-      const objectUrl = URL.createObjectURL(file);
-      setVideoSrc(objectUrl);
-      setCurrentFileName(file.name);
-      loadSettingsForFile(file.name);
+      const project = await createProject(file);
+      await openProject(project);
     } catch (e) {
       console.error("Error saving file", e);
+      alert("Could not store the video in the browser. Free some space by deleting old projects.");
     } finally {
       setIsLoadingFile(false);
+      refreshLibrary();
     }
   };
 
-  const handleClearData = async () => {
+  const handleOpenProject = async (id: string) => {
+    const project = projects.find((p) => p.id === id);
+    if (!project) return;
     stopAll();
-    await clearDB();
-    if (videoSrc !== DEMO_VIDEO_SRC) URL.revokeObjectURL(videoSrc);
-    setVideoSrc(DEMO_VIDEO_SRC);
-    setCurrentFileName(DEMO_FILENAME);
-    loadSettingsForFile(DEMO_FILENAME);
-    alert("Local video cleared.");
+    setIsLoadingFile(true);
+    try {
+      await openProject(project);
+    } catch (e) {
+      console.error("Error opening project", e);
+      alert("Could not open this project.");
+    } finally {
+      setIsLoadingFile(false);
+      refreshLibrary();
+    }
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    const project = projects.find((p) => p.id === id);
+    if (!project || !confirm(`Delete "${project.name}" and its video from this browser?`)) return;
+    if (id === activeProjectId) stopAll();
+
+    try {
+      await deleteProject(id);
+      const sourceUrl = sourceUrlsRef.current.get(id);
+      if (sourceUrl) {
+        URL.revokeObjectURL(sourceUrl);
+        sourceUrlsRef.current.delete(id);
+      }
+      if (id === activeProjectId) {
+        const next = projects.find((p) => p.id !== id);
+        if (next) await openProject(next);
+        else openDemo();
+      }
+    } catch (e) {
+      console.error("Error deleting project", e);
+    } finally {
+      refreshLibrary();
+    }
   };
 
   // --- 2. Settings & Segments Logic ---
 
+  const applyLoadedSegments = (loaded: VideoSegment[], loadedHistory: EditHistory = EMPTY_HISTORY) => {
+    setHistory(loadedHistory);
+    setMarkIn(null);
+    setMarkOut(null);
+    if (loaded.length > 0) {
+      setSegments(loaded);
+      setJsonInput(JSON.stringify(loaded));
+      setError(null);
+      setShouldAutoSetDuration(false);
+      return;
+    }
+    setShouldAutoSetDuration(true);
+    setSegments([]);
+    setJsonInput("[]");
+  };
+
+  // Demo video segments live in localStorage (the demo has no project)
   const loadSettingsForFile = (fileName: string) => {
     const savedData = localStorage.getItem(fileName);
     if (savedData) {
       try {
-        const parsed = JSON.parse(savedData);
-        if (Array.isArray(parsed) && parsed.length > 0) {
-          // Backward compatibility: ensure speed exists
-          const sanitized = parsed.map((p: any) => {
-            if (p.length === 2) return [...p, 1]; // Add default speed 1
-            return p;
-          });
-          setSegments(sanitized);
-          setJsonInput(JSON.stringify(sanitized));
-          setError(null);
-          setShouldAutoSetDuration(false);
-          return;
-        }
+        // Backward compatibility: 2- and 3-element items get default speed/audio
+        const savedHistory = localStorage.getItem(historyStorageKey(fileName));
+        applyLoadedSegments(
+          parseSegments(JSON.parse(savedData)),
+          savedHistory ? parseHistory(JSON.parse(savedHistory)) : EMPTY_HISTORY
+        );
+        return;
       } catch (e) {
         console.error(e);
       }
     }
-    setShouldAutoSetDuration(true);
-    setSegments([]);
-    setJsonInput("[]");
+    applyLoadedSegments([]);
   };
 
   const applyDurationToSegments = useCallback((duration: number) => {
@@ -403,6 +599,17 @@ const App: React.FC = () => {
   }, []);
 
   const handleLoadedMetadata = (e: React.SyntheticEvent<HTMLVideoElement, Event>) => {
+    // Player 1 also loads other clips during cross-clip sequences
+    if (e.currentTarget.getAttribute("src") !== videoSrc) return;
+    const duration = e.currentTarget.duration;
+    setVideoDuration(duration);
+    setPlayhead(0);
+    const project = projects.find((p) => p.id === activeProjectId);
+    if (activeProjectId && isFinite(duration) && (!project || project.duration !== duration)) {
+      updateProject(activeProjectId, { duration })
+        .then(() => setProjects((prev) => prev.map((p) => (p.id === activeProjectId ? { ...p, duration } : p))))
+        .catch((err) => console.error(err));
+    }
     if (shouldAutoSetDuration) {
       applyDurationToSegments(e.currentTarget.duration);
     }
@@ -426,22 +633,62 @@ const App: React.FC = () => {
       p2.pause();
       p2.playbackRate = 1;
     }
+    cancelAnimationFrame(shuttleRef.current.frameId);
+    shuttleRef.current = { speed: 0, frameId: 0 };
+    playbackTokenRef.current++;
     setIsPlaying(false);
   }, [getPlayers]);
 
+  // Maps every segment to the URL of its clip (current video unless `source` says otherwise)
+  const resolveSegmentSources = useCallback(
+    (segs: VideoSegment[]): Promise<string[]> => {
+      return Promise.all(
+        segs.map(async (seg) => {
+          const source = getSegmentSource(seg);
+          if (!source || source === activeProjectId) return videoSrc;
+          let url = sourceUrlsRef.current.get(source);
+          if (!url) {
+            const file = await getProjectFile(source);
+            if (!file) throw new Error(`Source clip "${source}" is no longer in the project library`);
+            url = URL.createObjectURL(file);
+            sourceUrlsRef.current.set(source, url);
+          }
+          return url;
+        })
+      );
+    },
+    [activeProjectId, videoSrc]
+  );
+
+  useEffect(() => {
+    const urls = sourceUrlsRef.current;
+    return () => {
+      urls.forEach((url) => URL.revokeObjectURL(url));
+      urls.clear();
+    };
+  }, []);
+
   const handlePreviewSegment = useCallback(
-    (range: VideoSegment) => {
-      const [start, end, speed] = range;
+    async (range: VideoSegment) => {
+      const [start, end] = range;
       stopAll();
       const p1 = player1Ref.current;
       if (!p1) return;
+      const token = playbackTokenRef.current;
+      let url: string;
+      try {
+        [url] = await resolveSegmentSources([range]);
+      } catch (err: any) {
+        setError(err.message);
+        return;
+      }
+      await cueSource(p1, url, start);
+      if (token !== playbackTokenRef.current) return;
       setActivePlayerIndex(0);
       setIsPlaying(true);
 
-      // Apply Speed
-      p1.playbackRate = speed || 1;
-      p1.currentTime = start;
-      p1.muted = false;
+      // Apply Speed + Audio
+      applySegmentToPlayer(p1, range);
       p1.play().catch((e) => console.log(e));
 
       const timeHandler = () => {
@@ -455,11 +702,11 @@ const App: React.FC = () => {
       activeListenerRef.current = { element: p1, fn: timeHandler };
       p1.addEventListener("timeupdate", timeHandler);
     },
-    [stopAll]
+    [stopAll, resolveSegmentSources]
   );
 
   const playSegmentStep = useCallback(
-    (segmentIndex: number, currentPlayerIdx: 0 | 1, currentSegments: VideoSegment[]) => {
+    (segmentIndex: number, currentPlayerIdx: 0 | 1, currentSegments: VideoSegment[], sources: string[]) => {
       const [p1, p2] = getPlayers();
       if (!p1 || !p2) return;
 
@@ -471,22 +718,33 @@ const App: React.FC = () => {
       const players = [p1, p2];
       const currentPlayer = players[currentPlayerIdx];
       const nextPlayer = players[currentPlayerIdx === 0 ? 1 : 0];
-      const [start, end, speed] = currentSegments[segmentIndex];
+      const [start, end] = currentSegments[segmentIndex];
 
       setActivePlayerIndex(currentPlayerIdx);
       setIsPlaying(true);
 
-      // Apply Speed
-      currentPlayer.playbackRate = speed || 1;
-
-      if (Math.abs(currentPlayer.currentTime - start) > 0.5) currentPlayer.currentTime = start;
-      currentPlayer.muted = false;
-      currentPlayer.play().catch((e) => console.warn(e));
+      // Apply Speed + Audio
+      applySegmentToPlayer(currentPlayer, currentSegments[segmentIndex]);
+
+      if (currentPlayer.getAttribute("src") !== sources[segmentIndex]) {
+        // Idle player wasn't preloaded with this clip (e.g. first segment): load, then play
+        const token = playbackTokenRef.current;
+        cueSource(currentPlayer, sources[segmentIndex], start).then(() => {
+          if (token !== playbackTokenRef.current) return;
+          applySegmentToPlayer(currentPlayer, currentSegments[segmentIndex]); // Loading resets playbackRate
+          currentPlayer.play().catch((e) => console.warn(e));
+        });
+      } else {
+        if (Math.abs(currentPlayer.currentTime - start) > 0.5) currentPlayer.currentTime = start;
+        currentPlayer.play().catch((e) => console.warn(e));
+      }
 
       if (segmentIndex + 1 < currentSegments.length) {
-        const [nextStart, , nextSpeed] = currentSegments[segmentIndex + 1];
-        nextPlayer.currentTime = nextStart;
-        nextPlayer.playbackRate = nextSpeed || 1; // Pre-set speed
+        // Preload the next segment's clip into the idle player
+        const nextSegment = currentSegments[segmentIndex + 1];
+        cueSource(nextPlayer, sources[segmentIndex + 1], nextSegment[0]);
+        applySegmentToPlayer(nextPlayer, nextSegment); // Pre-set speed + audio
+        nextPlayer.muted = true; // Stays silent until it becomes the active player
         nextPlayer.pause();
       }
 
@@ -496,7 +754,7 @@ const App: React.FC = () => {
           activeListenerRef.current = null;
           currentPlayer.pause();
           const nextIdx = currentPlayerIdx === 0 ? 1 : 0;
-          playRef.current(segmentIndex + 1, nextIdx, currentSegments);
+          playRef.current(segmentIndex + 1, nextIdx, currentSegments, sources);
         }
       };
 
@@ -510,6 +768,79 @@ const App: React.FC = () => {
     playRef.current = playSegmentStep;
   }, [playSegmentStep]);
 
+  // Keep the timeline playhead synced to whichever player is visible
+  useEffect(() => {
+    const active = activePlayerIndex === 0 ? player1Ref.current : player2Ref.current;
+    if (!active) return;
+    setPlayhead(active.currentTime);
+    if (!isPlaying) return;
+
+    let frameId = 0;
+    const tick = () => {
+      setPlayhead(active.currentTime);
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, activePlayerIndex]);
+
+  // Filmstrip + waveform: read from cache or generate once per file
+  useEffect(() => {
+    if (!videoSrc || !currentFileName || videoDuration <= 0) return;
+    const controller = new AbortController();
+    const cacheKey = activeProjectId ?? DEMO_FILENAME;
+
+    const loadOverview = async () => {
+      const cached = await getMediaOverview(cacheKey).catch(() => null);
+      if (controller.signal.aborted) return;
+      if (cached) {
+        setMediaOverview(cached);
+        return;
+      }
+
+      setIsAnalyzing(true);
+      const [thumbnails, waveform] = await Promise.all([
+        generateThumbnails(videoSrc, THUMBNAIL_COUNT, controller.signal).catch((e) => {
+          console.warn("Thumbnail generation failed", e);
+          return [] as string[];
+        }),
+        // Only local files are in IndexedDB; the remote demo gets no waveform
+        !activeProjectId
+          ? Promise.resolve([] as number[])
+          : getProjectFile(activeProjectId)
+              .then((file) => (file ? computeWaveform(file, WAVEFORM_BUCKETS, controller.signal) : []))
+              .catch((e) => {
+                console.warn("Waveform generation failed", e);
+                return [] as number[];
+              }),
+      ]);
+      if (controller.signal.aborted) return;
+
+      const overview: MediaOverview = { thumbnails, waveform };
+      setMediaOverview(overview);
+      setIsAnalyzing(false);
+      if (thumbnails.length > 0 || waveform.length > 0) {
+        saveMediaOverview(cacheKey, overview).catch((e) => console.error(e));
+      }
+    };
+
+    setMediaOverview(null);
+    loadOverview();
+    return () => {
+      controller.abort();
+      setIsAnalyzing(false);
+    };
+  }, [videoSrc, currentFileName, activeProjectId, videoDuration]);
+
+  const handleSeek = (time: number) => {
+    stopAll();
+    const p1 = player1Ref.current;
+    if (!p1) return;
+    setActivePlayerIndex(0);
+    cueSource(p1, videoSrc, time);
+    setPlayhead(time);
+  };
+
   useEffect(() => {
     return () => {
       stopAll();
@@ -518,26 +849,47 @@ const App: React.FC = () => {
   }, [videoSrc, stopAll]);
 
   // --- 4. Render Helpers ---
-  const syncState = (newSegments: VideoSegment[]) => {
+  const commitSegments = (newSegments: VideoSegment[], newHistory: EditHistory) => {
     setSegments(newSegments);
     setJsonInput(JSON.stringify(newSegments));
-    localStorage.setItem(currentFileName, JSON.stringify(newSegments));
+    setHistory(newHistory);
+    const stored = storedHistory(newHistory);
+    if (activeProjectId) {
+      const projectId = activeProjectId;
+      setProjects((prev) => prev.map((p) => (p.id === projectId ? { ...p, segments: newSegments } : p)));
+      updateProject(projectId, { segments: newSegments, history: stored }).catch((e) =>
+        console.error("Error saving segments", e)
+      );
+    } else {
+      localStorage.setItem(currentFileName, JSON.stringify(newSegments));
+      localStorage.setItem(historyStorageKey(currentFileName), JSON.stringify(stored));
+    }
+  };
+
+  // Every user edit of the segment list goes through here (recorded for undo)
+  const syncState = (newSegments: VideoSegment[], label: string, mergeKey?: string) => {
+    commitSegments(newSegments, recordEdit(history, label, segments, mergeKey));
+  };
+
+  const handleUndo = () => {
+    const result = undoEdit(history, segments);
+    if (result) commitSegments(result.segments, result.history);
+  };
+
+  const handleRedo = () => {
+    const result = redoEdit(history, segments);
+    if (result) commitSegments(result.segments, result.history);
   };
 
+  const undoLabel = history.past[history.past.length - 1]?.label;
+  const redoLabel = history.future[history.future.length - 1]?.label;
+
   const handleApplyJson = () => {
     try {
-      const parsed = JSON.parse(jsonInput);
-      if (!Array.isArray(parsed)) throw new Error("Must be an array");
-
-      const sanitized: VideoSegment[] = parsed.map((item: any) => {
-        if (!Array.isArray(item)) throw new Error("Items must be arrays");
-        if (item.length === 2) return [item[0], item[1], 1];
-        if (item.length === 3) return item;
-        throw new Error("Items must be [start, end] or [start, end, speed]");
-      });
+      const sanitized = parseSegments(JSON.parse(jsonInput));
 
       setError(null);
-      syncState(sanitized);
+      syncState(sanitized, "Apply JSON");
       startSequence(sanitized);
     } catch (err: any) {
       setError(err.message);
@@ -545,18 +897,258 @@ const App: React.FC = () => {
     }
   };
 
-  const startSequence = (segs: VideoSegment[]) => {
+  // --- 5. Export Logic ---
+  const handleExport = async () => {
+    if (segments.length === 0 || !videoSrc) return;
+    stopAll();
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    setIsExporting(true);
+    setExportProgress(0);
+    setExportError(null);
+    if (exportUrl) {
+      URL.revokeObjectURL(exportUrl);
+      setExportUrl("");
+    }
+
+    try {
+      const blob = await renderSegmentsToVideo({
+        segments,
+        sources: await resolveSegmentSources(segments),
+        onProgress: setExportProgress,
+        signal: controller.signal,
+      });
+      setExportUrl(URL.createObjectURL(blob));
+    } catch (err: any) {
+      if (!controller.signal.aborted) setExportError(err?.message || "Export failed");
+    } finally {
+      exportAbortRef.current = null;
+      setIsExporting(false);
+    }
+  };
+
+  const handleCancelExport = () => {
+    exportAbortRef.current?.abort();
+  };
+
+  useEffect(() => {
+    return () => {
+      exportAbortRef.current?.abort();
+    };
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (exportUrl) URL.revokeObjectURL(exportUrl);
+    };
+  }, [exportUrl]);
+
+  const exportFileName = `${currentFileName.replace(/\.[^.]+$/, "") || "video"}_edit.webm`;
+
+  // --- 6. Keyboard Editing ---
+  // Shortcuts always drive player 1 on the current clip
+  const getEditPlayer = () => {
+    const p1 = player1Ref.current;
+    if (!p1) return null;
+    if (activeListenerRef.current || activePlayerIndex !== 0 || p1.getAttribute("src") !== videoSrc) {
+      const time = playhead;
+      stopAll();
+      setActivePlayerIndex(0);
+      cueSource(p1, videoSrc, time);
+    }
+    return p1;
+  };
+
+  const setShuttle = (speed: number) => {
+    const p1 = getEditPlayer();
+    if (!p1) return;
+    cancelAnimationFrame(shuttleRef.current.frameId);
+    shuttleRef.current = { speed, frameId: 0 };
+    p1.pause();
+
+    if (speed === 0) {
+      p1.playbackRate = 1;
+      setIsPlaying(false);
+      return;
+    }
+    setIsPlaying(true);
+    if (speed > 0) {
+      p1.playbackRate = speed;
+      p1.play().catch((e) => console.warn(e));
+      return;
+    }
+
+    // Browsers can't play backwards, so step currentTime on every frame
+    let last = performance.now();
+    const tick = (now: number) => {
+      p1.currentTime = Math.max(0, p1.currentTime - ((now - last) / 1000) * -speed);
+      last = now;
+      if (p1.currentTime <= 0) {
+        shuttleRef.current = { speed: 0, frameId: 0 };
+        setIsPlaying(false);
+        return;
+      }
+      shuttleRef.current.frameId = requestAnimationFrame(tick);
+    };
+    shuttleRef.current.frameId = requestAnimationFrame(tick);
+  };
+
+  // J / L: start in that direction or go one speed step faster
+  const shuttle = (direction: 1 | -1) => {
+    const current = shuttleRef.current.speed;
+    const sameDirection = Math.sign(current) === direction;
+    const stepIdx = sameDirection ? SHUTTLE_SPEEDS.indexOf(Math.abs(current)) + 1 : 0;
+    setShuttle(direction * SHUTTLE_SPEEDS[Math.min(stepIdx, SHUTTLE_SPEEDS.length - 1)]);
+  };
+
+  const stepFrames = (seconds: number) => {
+    const p1 = getEditPlayer();
+    if (!p1) return;
+    setShuttle(0);
+    const time = Math.min(Math.max(0, p1.currentTime + seconds), videoDuration || Infinity);
+    p1.currentTime = time;
+    setPlayhead(time);
+  };
+
+  const isCurrentClip = (seg: VideoSegment) => {
+    const source = getSegmentSource(seg);
+    return !source || source === activeProjectId;
+  };
+
+  const findSegmentAtPlayhead = () =>
+    segments.findIndex((seg) => isCurrentClip(seg) && seg[0] <= playhead && playhead < seg[1]);
+
+  const handleMarkIn = () => {
+    const inPoint = Number(playhead.toFixed(2));
+    if (markOut !== null && markOut > inPoint) {
+      syncState([...segments, [inPoint, markOut, 1]], "Add segment from marks");
+      setMarkIn(null);
+      setMarkOut(null);
+    } else {
+      setMarkIn(inPoint);
+    }
+  };
+
+  const handleMarkOut = () => {
+    const out = Number(playhead.toFixed(2));
+    if (markIn !== null && out > markIn) {
+      syncState([...segments, [markIn, out, 1]], "Add segment from marks");
+      setMarkIn(null);
+      setMarkOut(null);
+    } else {
+      setMarkOut(out);
+    }
+  };
+
+  const splitAtPlayhead = () => {
+    const idx = findSegmentAtPlayhead();
+    if (idx === -1) return;
+    const [start, end, speed, options] = segments[idx];
+    const cut = Number(playhead.toFixed(2));
+    if (cut <= start || cut >= end) return;
+    const updated = [...segments];
+    updated.splice(idx, 1, [start, cut, speed, options], [cut, end, speed, options]);
+    syncState(updated, "Split segment");
+  };
+
+  const deleteAtPlayhead = () => {
+    const idx = findSegmentAtPlayhead();
+    if (idx === -1) return;
+    syncState(
+      segments.filter((_, i) => i !== idx),
+      "Delete segment"
+    );
+  };
+
+  keyHandlerRef.current = (e: KeyboardEvent) => {
+    if (isTypingTarget(e.target) || isExporting || isLoadingFile) return;
+    const key = e.key.toLowerCase();
+    const ctrl = e.ctrlKey || e.metaKey;
+
+    if (ctrl && key === "z") {
+      e.preventDefault();
+      if (e.shiftKey) handleRedo();
+      else handleUndo();
+      return;
+    }
+    if (ctrl && key === "y") {
+      e.preventDefault();
+      handleRedo();
+      return;
+    }
+    if (ctrl || e.altKey) return;
+
+    switch (key) {
+      case "l":
+        shuttle(1);
+        break;
+      case "j":
+        shuttle(-1);
+        break;
+      case "k":
+      case " ":
+        setShuttle(0);
+        break;
+      case "arrowright":
+        stepFrames(e.shiftKey ? 1 : FRAME_STEP);
+        break;
+      case "arrowleft":
+        stepFrames(e.shiftKey ? -1 : -FRAME_STEP);
+        break;
+      case "i":
+        handleMarkIn();
+        break;
+      case "o":
+        handleMarkOut();
+        break;
+      case "s":
+        splitAtPlayhead();
+        break;
+      case "delete":
+      case "backspace":
+        deleteAtPlayhead();
+        break;
+      case "?":
+        setShowShortcuts((v) => !v);
+        break;
+      case "escape":
+        setShowShortcuts(false);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => keyHandlerRef.current(e);
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  const startSequence = async (segs: VideoSegment[]) => {
     stopAll();
     if (segs.length === 0) return;
     const [p1, p2] = getPlayers();
     if (!p1 || !p2) return;
-    p1.currentTime = segs[0][0];
-    if (segs.length > 1) p2.currentTime = segs[1][0];
-    playSegmentStep(0, 0, segs);
+    const token = playbackTokenRef.current;
+
+    let sources: string[];
+    try {
+      sources = await resolveSegmentSources(segs);
+    } catch (err: any) {
+      setError(err.message);
+      return;
+    }
+    await cueSource(p1, sources[0], segs[0][0]);
+    if (segs.length > 1) await cueSource(p2, sources[1], segs[1][0]);
+    if (token !== playbackTokenRef.current) return;
+    playSegmentStep(0, 0, segs, sources);
   };
 
   return (
     <div className="min-h-screen bg-gray-900 text-white p-6 font-sans flex justify-center">
+      {showShortcuts && <ShortcutCheatSheet onClose={() => setShowShortcuts(false)} />}
       {/* MAX WIDTH CONTAINER */}
       <div className="w-full max-w-7xl grid grid-cols-1 lg:grid-cols-2 gap-8 items-start">
         {/* ======================= */}
@@ -576,9 +1168,15 @@ const App: React.FC = () => {
                 <p className="font-mono text-blue-400 font-bold truncate text-sm" title={currentFileName}>
                   {isLoadingFile ? "Loading..." : currentFileName}
                 </p>
-                {currentFileName !== DEMO_FILENAME && (
-                  <button onClick={handleClearData} className="text-xs text-red-400 underline hover:text-red-300">
-                    Clear
+                {activeProjectId && (
+                  <button
+                    onClick={() => {
+                      stopAll();
+                      openDemo();
+                    }}
+                    className="text-xs text-gray-400 underline hover:text-gray-300"
+                  >
+                    Demo
                   </button>
                 )}
               </div>
@@ -622,30 +1220,144 @@ const App: React.FC = () => {
             />
           </div>
 
+          {/* Timeline */}
+          <Timeline
+            duration={videoDuration}
+            segments={segments}
+            playhead={playhead}
+            markIn={markIn}
+            markOut={markOut}
+            thumbnails={mediaOverview?.thumbnails}
+            waveform={mediaOverview?.waveform}
+            isAnalyzing={isAnalyzing}
+            onUpdate={syncState}
+            onSeek={handleSeek}
+            onPreview={handlePreviewSegment}
+            isSegmentVisible={(seg) => {
+              const source = getSegmentSource(seg);
+              return !source || source === activeProjectId;
+            }}
+          />
+
           {/* New Control Bar below video */}
           <div className="flex items-center gap-4">
             <button
               onClick={() => startSequence(segments)}
-              disabled={segments.length === 0 || isLoadingFile}
+              disabled={segments.length === 0 || isLoadingFile || isExporting}
               className="w-full py-4 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold rounded-lg shadow-lg transition flex items-center justify-center gap-2"
             >
               <span className="text-xl">▶</span> Play Full Sequence
             </button>
+            <button
+              onClick={handleUndo}
+              disabled={!undoLabel}
+              title={undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : "Nothing to undo"}
+              className="px-4 py-4 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed rounded-lg font-bold transition"
+            >
+              ↶
+            </button>
+            <button
+              onClick={handleRedo}
+              disabled={!redoLabel}
+              title={redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : "Nothing to redo"}
+              className="px-4 py-4 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed rounded-lg font-bold transition"
+            >
+              ↷
+            </button>
+            <button
+              onClick={() => setShowShortcuts(true)}
+              title="Keyboard shortcuts (?)"
+              className="px-4 py-4 bg-gray-700 hover:bg-gray-600 rounded-lg font-bold transition"
+            >
+              ⌨
+            </button>
           </div>
+
+          {/* Export */}
+          <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col gap-3">
+            <div className="flex justify-between items-center">
+              <h3 className="font-bold text-gray-400 text-sm uppercase tracking-wider">Export</h3>
+              <span className="text-xs text-gray-500">Renders in real time (WebM)</span>
+            </div>
+
+            {isExporting ? (
+              <div className="flex items-center gap-3">
+                <div className="flex-1 h-3 bg-gray-950 rounded overflow-hidden border border-gray-700">
+                  <div
+                    className="h-full bg-green-500 transition-all duration-200"
+                    style={{ width: `${Math.round(exportProgress * 100)}%` }}
+                  />
+                </div>
+                <span className="text-xs font-mono text-gray-300 w-10 text-right">
+                  {Math.round(exportProgress * 100)}%
+                </span>
+                <button
+                  onClick={handleCancelExport}
+                  className="px-3 py-1 bg-red-700 hover:bg-red-600 rounded text-sm font-bold transition"
+                >
+                  Cancel
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={handleExport}
+                disabled={segments.length === 0 || isLoadingFile}
+                className="w-full py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold rounded transition"
+              >
+                Export Video
+              </button>
+            )}
+
+            {exportError && <div className="text-red-400 text-sm bg-red-900/20 p-2 rounded">{exportError}</div>}
+
+            {exportUrl && !isExporting && (
+              <a
+                href={exportUrl}
+                download={exportFileName}
+                className="text-center text-sm text-green-400 underline hover:text-green-300"
+              >
+                ⬇ Download {exportFileName}
+              </a>
+            )}
+          </div>
+
+          {/* Scene-change / silence analysis */}
+          <SceneDetectionPanel
+            videoSrc={videoSrc}
+            duration={videoDuration}
+            loadAudio={() => (activeProjectId ? getProjectFile(activeProjectId) : Promise.resolve(null))}
+            disabled={isLoadingFile || isExporting}
+            onApply={(proposed) => syncState(proposed, "Auto segments")}
+          />
         </div>
 
         {/* ======================= */}
         {/* RIGHT COLUMN (Scrollable)*/}
         {/* ======================= */}
         <div className="flex flex-col gap-6">
+          {/* Project Library */}
+          <ProjectLibrary
+            projects={projects}
+            activeProjectId={activeProjectId}
+            storage={storage}
+            disabled={isLoadingFile || isExporting}
+            onOpen={handleOpenProject}
+            onDelete={handleDeleteProject}
+          />
+
           {/* Visual Editor */}
-          <SegmentEditor segments={segments} onUpdate={syncState} onPreview={handlePreviewSegment} />
+          <SegmentEditor
+            segments={segments}
+            sourceOptions={projects.filter((p) => p.id !== activeProjectId).map((p) => ({ id: p.id, name: p.name }))}
+            onUpdate={syncState}
+            onPreview={handlePreviewSegment}
+          />
 
           {/* Raw JSON Editor */}
           <div className="bg-gray-800 p-4 rounded-lg border border-gray-700">
             <div className="flex justify-between items-center mb-2">
               <h3 className="font-bold text-gray-400 text-sm uppercase tracking-wider">Raw JSON</h3>
-              <span className="text-xs text-gray-500">Edits sync to local storage</span>
+              <span className="text-xs text-gray-500">Edits sync to the project</span>
             </div>
             <textarea
               className="w-full h-32 p-3 bg-gray-950 border border-gray-700 rounded font-mono text-xs text-green-400 focus:outline-none focus:border-blue-500"
@@ -668,6 +1380,21 @@ const App: React.FC = () => {
               </button>
             </div>
           </div>
+
+          {/* Cut List Interchange */}
+          <CutListPanel
+            segments={segments}
+            fileName={currentFileName}
+            sourceNameFor={(seg) => {
+              const source = getSegmentSource(seg);
+              if (!source || source === activeProjectId) return currentFileName || "input.mp4";
+              // Same failure as playback: never cut the current video in place of a missing clip
+              const project = projects.find((p) => p.id === source);
+              if (!project) throw new Error(`Source clip "${source}" is no longer in the project library`);
+              return project.name;
+            }}
+            onImport={(imported) => syncState(imported, "Import EDL")}
+          />
         </div>
       </div>
     </div>
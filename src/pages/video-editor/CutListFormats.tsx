@@ -0,0 +1,211 @@
+import { type VideoSegment, getSegmentAudio, getSegmentSource } from "./SegmentModel";
+
+// =========================================
+// UTILITY: Cut List Interchange Formats
+// =========================================
+// Converters between VideoSegment[] and formats understood by desktop tools:
+//   - CMX3600 EDL (export + import)
+//   - ffmpeg filter_complex trim/concat command (speed via setpts/atempo)
+//   - YouTube chapters text block
+// EDL speed changes are written as M2 (motion) lines, the way NLEs do it.
+
+export const EDL_FPS = 30;
+
+const pad = (n: number, len = 2) => String(n).padStart(len, "0");
+
+// --- Timecode helpers (non-drop-frame) ---
+
+export const secondsToTimecode = (sec: number, fps = EDL_FPS) => {
+  const totalFrames = Math.round(sec * fps);
+  const frames = totalFrames % fps;
+  const totalSeconds = Math.floor(totalFrames / fps);
+  const s = totalSeconds % 60;
+  const m = Math.floor(totalSeconds / 60) % 60;
+  const h = Math.floor(totalSeconds / 3600);
+  return `${pad(h)}:${pad(m)}:${pad(s)}:${pad(frames)}`;
+};
+
+export const timecodeToSeconds = (tc: string, fps = EDL_FPS) => {
+  const match = tc.trim().match(/^(\d{2}):(\d{2}):(\d{2})[:;.](\d{2})$/);
+  if (!match) throw new Error(`Invalid timecode "${tc}"`);
+  const [, h, m, s, f] = match.map(Number);
+  return Number((h * 3600 + m * 60 + s + f / fps).toFixed(3));
+};
+
+const formatSeconds = (sec: number) => Number(sec.toFixed(3)).toString();
+
+// --- CMX3600 EDL ---
+
+export const segmentsToEDL = (segments: VideoSegment[], title: string, reelName = "AX", fps = EDL_FPS) => {
+  const lines = [`TITLE: ${title}`, "FCM: NON-DROP FRAME", ""];
+  let recordTime = 0;
+
+  segments.forEach((seg, idx) => {
+    const [start, end, speed] = seg;
+    const outputLength = (end - start) / (speed || 1);
+    const event = pad(idx + 1, 3);
+    const reel = reelName.padEnd(8, " ");
+    lines.push(
+      `${event}  ${reel} AA/V  C        ${secondsToTimecode(start, fps)} ${secondsToTimecode(end, fps)} ${secondsToTimecode(
+        recordTime,
+        fps
+      )} ${secondsToTimecode(recordTime + outputLength, fps)}`
+    );
+    if (speed && speed !== 1) {
+      lines.push(`M2   ${reel}${(speed * fps).toFixed(1).padStart(6, " ")}                ${secondsToTimecode(start, fps)}`);
+    }
+    const source = getSegmentSource(seg);
+    if (source) lines.push(`* SOURCE CLIP: ${source}`);
+    lines.push("");
+    recordTime += outputLength;
+  });
+
+  return lines.join("\n");
+};
+
+const EVENT_LINE =
+  /^(\d{3,})\s+(\S+)\s+(\S+)\s+C\s+(\d{2}:\d{2}:\d{2}[:;.]\d{2})\s+(\d{2}:\d{2}:\d{2}[:;.]\d{2})\s+(\d{2}:\d{2}:\d{2}[:;.]\d{2})\s+(\d{2}:\d{2}:\d{2}[:;.]\d{2})/;
+const MOTION_LINE = /^M2\s+(\S+)\s+(-?\d+(?:\.\d+)?)\s+(\d{2}:\d{2}:\d{2}[:;.]\d{2})/;
+const SOURCE_COMMENT = /^\*\s*SOURCE CLIP:\s*(\S+)/i;
+
+// Reads cut events (C) with optional M2 speed lines; dissolves/wipes are rejected
+export const parseEDL = (text: string, fps = EDL_FPS): VideoSegment[] => {
+  const segments: VideoSegment[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("TITLE:") || line.startsWith("FCM:")) continue;
+
+    const event = line.match(EVENT_LINE);
+    if (event) {
+      const start = timecodeToSeconds(event[4], fps);
+      const end = timecodeToSeconds(event[5], fps);
+      if (end <= start) throw new Error(`Event ${event[1]}: source out must be after source in`);
+      segments.push([start, end, 1]);
+      continue;
+    }
+
+    const motion = line.match(MOTION_LINE);
+    if (motion) {
+      const last = segments[segments.length - 1];
+      const speed = Number((parseFloat(motion[2]) / fps).toFixed(3));
+      if (!last) throw new Error("M2 line without a preceding event");
+      if (speed <= 0) throw new Error("Reverse or freeze-frame motion (M2) is not supported");
+      last[2] = speed;
+      continue;
+    }
+
+    const source = line.match(SOURCE_COMMENT);
+    if (source) {
+      const last = segments[segments.length - 1];
+      if (last) segments[segments.length - 1] = [last[0], last[1], last[2], { ...(last[3] || {}), source: source[1] }];
+      continue;
+    }
+
+    if (/^\d{3,}\s/.test(line)) {
+      throw new Error(`Unsupported EDL event (only cuts are supported): "${line}"`);
+    }
+    // Other comments (* FROM CLIP NAME ...) are ignored
+  }
+
+  if (segments.length === 0) throw new Error("No cut events found in EDL");
+  return segments;
+};
+
+// --- ffmpeg ---
+
+// atempo only accepts 0.5..2 (older builds), so larger factors are chained
+export const atempoChain = (speed: number) => {
+  const filters: string[] = [];
+  let remaining = speed;
+  while (remaining > 2) {
+    filters.push("atempo=2");
+    remaining /= 2;
+  }
+  while (remaining < 0.5) {
+    filters.push("atempo=0.5");
+    remaining /= 0.5;
+  }
+  if (Math.abs(remaining - 1) > 1e-6) filters.push(`atempo=${formatSeconds(remaining)}`);
+  return filters;
+};
+
+// `inputNameFor` maps a segment to its file name (cross-clip segments get their own -i)
+export const segmentsToFFmpeg = (
+  segments: VideoSegment[],
+  inputNameFor: (seg: VideoSegment) => string,
+  outputName = "output.mp4"
+) => {
+  const inputs: string[] = [];
+  const parts: string[] = [];
+  const concatInputs: string[] = [];
+
+  segments.forEach((seg, idx) => {
+    const [start, end, speed] = seg;
+    const inputName = inputNameFor(seg);
+    if (!inputs.includes(inputName)) inputs.push(inputName);
+    const input = inputs.indexOf(inputName);
+    const audio = getSegmentAudio(seg);
+    const rate = speed || 1;
+    const trim = `trim=start=${formatSeconds(start)}:end=${formatSeconds(end)}`;
+    const atrim = `atrim=start=${formatSeconds(start)}:end=${formatSeconds(end)}`;
+
+    parts.push(`[${input}:v]${trim},setpts=(PTS-STARTPTS)/${formatSeconds(rate)}[v${idx}]`);
+
+    const audioFilters = [atrim, "asetpts=PTS-STARTPTS", ...atempoChain(rate)];
+    const volume = audio.muted ? 0 : audio.volume;
+    if (volume !== 1) audioFilters.push(`volume=${formatSeconds(volume)}`);
+    parts.push(`[${input}:a]${audioFilters.join(",")}[a${idx}]`);
+
+    concatInputs.push(`[v${idx}][a${idx}]`);
+  });
+
+  parts.push(`${concatInputs.join("")}concat=n=${segments.length}:v=1:a=1[outv][outa]`);
+
+  return [
+    `ffmpeg ${inputs.map((name) => `-i "${name}"`).join(" ")} \\`,
+    `  -filter_complex "${parts.join(";\\\n    ")}" \\`,
+    `  -map "[outv]" -map "[outa]" "${outputName}"`,
+  ].join("\n");
+};
+
+// --- YouTube chapters ---
+
+const formatChapterTime = (sec: number) => {
+  const total = Math.floor(sec);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${pad(m)}:${pad(s)}`;
+};
+
+// YouTube ignores the whole list when the first chapter is not at 00:00 or any
+// chapter is shorter than this
+export const MIN_CHAPTER_SECONDS = 10;
+
+// Chapter times are positions in the edited output (segment length / speed).
+// Segments too short for a chapter of their own are folded into the previous one.
+export const segmentsToChapters = (segments: VideoSegment[], titles?: string[]) => {
+  const chapters: { start: number; length: number; title: string }[] = [];
+  let outputTime = 0;
+
+  segments.forEach(([start, end, speed], idx) => {
+    const length = (end - start) / (speed || 1);
+    const last = chapters[chapters.length - 1];
+    if (last && (length < MIN_CHAPTER_SECONDS || last.length < MIN_CHAPTER_SECONDS)) {
+      last.length += length;
+    } else {
+      chapters.push({ start: outputTime, length, title: titles?.[idx] || `Part ${idx + 1}` });
+    }
+    outputTime += length;
+  });
+
+  // A short tail has no following segment to absorb it
+  const tail = chapters[chapters.length - 1];
+  if (chapters.length > 1 && tail.length < MIN_CHAPTER_SECONDS) {
+    chapters.pop();
+    chapters[chapters.length - 1].length += tail.length;
+  }
+
+  return chapters.map(({ start, title }) => `${formatChapterTime(start)} ${title}`).join("\n");
+};
@@ -0,0 +1,132 @@
+import React, { useRef, useState } from "react";
+import type { VideoSegment } from "./SegmentModel";
+import { segmentsToEDL, parseEDL, segmentsToFFmpeg, segmentsToChapters } from "./CutListFormats";
+
+// =========================================
+// COMPONENT: Cut List Import / Export
+// =========================================
+
+type CutListFormat = "edl" | "ffmpeg" | "chapters";
+
+const FORMATS: { value: CutListFormat; label: string; extension: string }[] = [
+  { value: "edl", label: "CMX3600 EDL", extension: "edl" },
+  { value: "ffmpeg", label: "FFmpeg command", extension: "sh" },
+  { value: "chapters", label: "YouTube chapters", extension: "txt" },
+];
+
+interface CutListPanelProps {
+  segments: VideoSegment[];
+  fileName: string;
+  sourceNameFor: (seg: VideoSegment) => string; // File name of the clip a segment uses; throws if it is gone
+  onImport: (segments: VideoSegment[]) => void;
+}
+
+const CutListPanel: React.FC<CutListPanelProps> = ({ segments, fileName, sourceNameFor, onImport }) => {
+  const [format, setFormat] = useState<CutListFormat>("edl");
+  const [importError, setImportError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const edlInputRef = useRef<HTMLInputElement>(null);
+
+  const baseName = fileName.replace(/\.[^.]+$/, "") || "video";
+  const current = FORMATS.find((f) => f.value === format)!;
+
+  let output = "";
+  let exportError: string | null = null;
+  if (segments.length > 0) {
+    try {
+      if (format === "edl") output = segmentsToEDL(segments, baseName);
+      else if (format === "ffmpeg") output = segmentsToFFmpeg(segments, sourceNameFor, `${baseName}_edit.mp4`);
+      else output = segmentsToChapters(segments);
+    } catch (err: any) {
+      exportError = err.message;
+    }
+  }
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([output], { type: "text/plain" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${baseName}.${current.extension}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(output);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (e) {
+      console.error("Clipboard write failed", e);
+    }
+  };
+
+  const handleEdlFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      onImport(parseEDL(await file.text()));
+      setImportError(null);
+    } catch (err: any) {
+      setImportError(err.message);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700">
+      <div className="flex justify-between items-center mb-2 gap-3">
+        <h3 className="font-bold text-gray-400 text-sm uppercase tracking-wider">Cut List</h3>
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as CutListFormat)}
+          className="bg-gray-900 text-gray-300 text-xs p-1 rounded border border-gray-600 focus:border-blue-500 focus:outline-none"
+        >
+          {FORMATS.map((f) => (
+            <option key={f.value} value={f.value}>
+              {f.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <textarea
+        readOnly
+        value={output}
+        placeholder="No segments to export."
+        className="w-full h-32 p-3 bg-gray-950 border border-gray-700 rounded font-mono text-xs text-gray-300 focus:outline-none whitespace-pre"
+      />
+      {format === "chapters" && (
+        <p className="text-xs text-gray-500 mt-1">YouTube needs at least 3 chapters of 10 seconds or more.</p>
+      )}
+      {exportError && <div className="text-red-400 mt-2 text-sm bg-red-900/20 p-2 rounded">{exportError}</div>}
+      {importError && <div className="text-red-400 mt-2 text-sm bg-red-900/20 p-2 rounded">{importError}</div>}
+
+      <div className="mt-4 flex justify-end gap-3">
+        <input type="file" ref={edlInputRef} accept=".edl,text/plain" onChange={handleEdlFile} className="hidden" />
+        <button
+          onClick={() => edlInputRef.current?.click()}
+          className="px-4 py-2 bg-gray-700 rounded text-sm hover:bg-gray-600 transition mr-auto"
+        >
+          Import EDL
+        </button>
+        <button
+          onClick={handleCopy}
+          disabled={!output}
+          className="px-4 py-2 bg-gray-700 rounded text-sm hover:bg-gray-600 disabled:opacity-50 transition"
+        >
+          {copied ? "Copied!" : "Copy"}
+        </button>
+        <button
+          onClick={handleDownload}
+          disabled={!output}
+          className="px-4 py-2 bg-blue-600 text-white font-bold rounded text-sm hover:bg-blue-700 disabled:opacity-50 transition"
+        >
+          Download .{current.extension}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CutListPanel;
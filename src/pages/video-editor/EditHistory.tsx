@@ -0,0 +1,91 @@
+import { type VideoSegment, parseSegments } from "./SegmentModel";
+
+// =========================================
+// MODEL: Segment Edit History (undo / redo)
+// =========================================
+// Every command stores a labelled snapshot of the list as it was before the
+// command ran. Undo moves the snapshot to `future` (holding the list it
+// replaces) and redo does the reverse. Both stacks are bounded so the history
+// stays small enough to persist next to the segments.
+// Continuous edits (a volume slider drag) pass a merge key: ticks with the same
+// key in quick succession extend the last entry instead of adding new ones.
+
+export const HISTORY_LIMIT = 50;
+const MERGE_WINDOW_MS = 1000;
+
+export interface HistoryEntry {
+  label: string;
+  segments: VideoSegment[];
+  mergeKey?: string; // Stripped before saving: merging only spans one session
+  at?: number; // Time of the latest edit merged into this entry
+}
+
+export interface EditHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
+const bounded = (entries: HistoryEntry[]) => entries.slice(-HISTORY_LIMIT);
+
+export const recordEdit = (
+  history: EditHistory,
+  label: string,
+  before: VideoSegment[],
+  mergeKey?: string,
+  now = Date.now()
+): EditHistory => {
+  const last = history.past[history.past.length - 1];
+  if (mergeKey && last?.mergeKey === mergeKey && now - (last.at ?? 0) <= MERGE_WINDOW_MS) {
+    // Keeps the snapshot from before the first tick, so one undo reverts the whole drag
+    return { past: [...history.past.slice(0, -1), { ...last, at: now }], future: [] };
+  }
+  return { past: bounded([...history.past, { label, segments: before, mergeKey, at: now }]), future: [] };
+};
+
+export const undoEdit = (history: EditHistory, current: VideoSegment[]) => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    segments: entry.segments,
+    history: {
+      past: history.past.slice(0, -1),
+      future: bounded([...history.future, { label: entry.label, segments: current }]),
+    },
+  };
+};
+
+export const redoEdit = (history: EditHistory, current: VideoSegment[]) => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    segments: entry.segments,
+    history: {
+      past: bounded([...history.past, { label: entry.label, segments: current }]),
+      future: history.future.slice(0, -1),
+    },
+  };
+};
+
+// The stacks as they are saved, without the session-only merge fields
+export const storedHistory = (history: EditHistory): EditHistory => {
+  const strip = (entries: HistoryEntry[]) => entries.map(({ label, segments }) => ({ label, segments }));
+  return { past: strip(history.past), future: strip(history.future) };
+};
+
+// Restores a persisted history, dropping it entirely if anything is malformed
+export const parseHistory = (raw: unknown): EditHistory => {
+  try {
+    const data = raw as EditHistory;
+    const parseEntries = (entries: unknown): HistoryEntry[] => {
+      if (!Array.isArray(entries)) throw new Error("History stack must be an array");
+      return bounded(
+        entries.map((entry: any) => ({ label: String(entry.label || "Edit"), segments: parseSegments(entry.segments) }))
+      );
+    };
+    return { past: parseEntries(data.past), future: parseEntries(data.future) };
+  } catch {
+    return EMPTY_HISTORY;
+  }
+};
@@ -0,0 +1,70 @@
+import React from "react";
+
+// =========================================
+// COMPONENT: Keyboard Shortcut Cheat-Sheet
+// =========================================
+
+export const SHUTTLE_SPEEDS = [1, 2, 4, 8];
+export const FRAME_STEP = 1 / 30;
+
+export const SHORTCUTS: { keys: string[]; description: string }[] = [
+  { keys: ["L"], description: "Play forward (press again: 2x, 4x, 8x)" },
+  { keys: ["J"], description: "Play backward (press again: 2x, 4x, 8x)" },
+  { keys: ["K", "Space"], description: "Pause" },
+  { keys: ["←", "→"], description: "Step one frame (Shift: 1 second)" },
+  { keys: ["I"], description: "Mark in point" },
+  { keys: ["O"], description: "Mark out point (creates a segment from I to O)" },
+  { keys: ["S"], description: "Split segment under the playhead" },
+  { keys: ["Delete"], description: "Remove segment under the playhead" },
+  { keys: ["Ctrl+Z"], description: "Undo" },
+  { keys: ["Ctrl+Shift+Z", "Ctrl+Y"], description: "Redo" },
+  { keys: ["?"], description: "Show / hide this list" },
+];
+
+// Shortcuts must not fire while the user types into a field
+export const isTypingTarget = (target: EventTarget | null) => {
+  const el = target as HTMLElement | null;
+  if (!el) return false;
+  return el.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(el.tagName);
+};
+
+interface ShortcutCheatSheetProps {
+  onClose: () => void;
+}
+
+const ShortcutCheatSheet: React.FC<ShortcutCheatSheetProps> = ({ onClose }) => {
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="bg-gray-900 border border-gray-700 rounded-lg shadow-2xl p-6 w-full max-w-md"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-bold text-gray-300 text-sm uppercase tracking-wider">Keyboard Shortcuts</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-white text-sm">
+            ✕
+          </button>
+        </div>
+        <ul className="space-y-2">
+          {SHORTCUTS.map((shortcut) => (
+            <li key={shortcut.description} className="flex items-center justify-between gap-4 text-sm">
+              <span className="text-gray-400">{shortcut.description}</span>
+              <span className="flex gap-1 flex-shrink-0">
+                {shortcut.keys.map((key) => (
+                  <kbd
+                    key={key}
+                    className="px-2 py-0.5 bg-gray-800 border border-gray-600 rounded text-xs font-mono text-gray-200"
+                  >
+                    {key}
+                  </kbd>
+                ))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutCheatSheet;
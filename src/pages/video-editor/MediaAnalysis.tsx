@@ -0,0 +1,107 @@
+// =========================================
+// UTILITY: Filmstrip & Waveform Generation
+// =========================================
+// Both run fully in the browser: thumbnails by seeking an offscreen <video>
+// and drawing it to a small canvas, the waveform by decoding the whole file
+// with Web Audio and keeping one peak value per bucket.
+
+export interface MediaOverview {
+  thumbnails: string[]; // JPEG data URLs, evenly spaced over the duration
+  waveform: number[]; // Peaks normalised to 0..1
+}
+
+const THUMB_HEIGHT = 72;
+const THUMB_QUALITY = 0.6;
+
+export const loadOffscreenVideo = (src: string, signal?: AbortSignal) => {
+  return new Promise<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement("video");
+    if (!src.startsWith("blob:")) video.crossOrigin = "anonymous";
+    video.preload = "auto";
+    video.muted = true;
+    video.playsInline = true;
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error("Could not load video for analysis"));
+    signal?.addEventListener("abort", () => reject(new Error("Analysis cancelled")));
+    video.src = src;
+  });
+};
+
+export const seekVideo = (video: HTMLVideoElement, time: number) => {
+  return new Promise<void>((resolve) => {
+    const done = () => {
+      video.removeEventListener("seeked", done);
+      resolve();
+    };
+    video.addEventListener("seeked", done);
+    video.currentTime = time;
+  });
+};
+
+export const releaseVideo = (video: HTMLVideoElement) => {
+  video.removeAttribute("src");
+  video.load();
+};
+
+export async function generateThumbnails(src: string, count: number, signal?: AbortSignal): Promise<string[]> {
+  const video = await loadOffscreenVideo(src, signal);
+  try {
+    const duration = video.duration;
+    if (!isFinite(duration) || duration <= 0) return [];
+
+    const canvas = document.createElement("canvas");
+    const aspect = video.videoWidth && video.videoHeight ? video.videoWidth / video.videoHeight : 16 / 9;
+    canvas.height = THUMB_HEIGHT;
+    canvas.width = Math.round(THUMB_HEIGHT * aspect);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return [];
+
+    const thumbnails: string[] = [];
+    for (let i = 0; i < count; i++) {
+      if (signal?.aborted) throw new Error("Analysis cancelled");
+      await seekVideo(video, ((i + 0.5) / count) * duration);
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      thumbnails.push(canvas.toDataURL("image/jpeg", THUMB_QUALITY));
+    }
+    return thumbnails;
+  } finally {
+    releaseVideo(video);
+  }
+}
+
+export async function decodeAudio(blob: Blob): Promise<AudioBuffer> {
+  const ACtx = (window.AudioContext || (window as any).webkitAudioContext) as typeof AudioContext;
+  const audioCtx = new ACtx();
+  try {
+    const data = await blob.arrayBuffer();
+    return await audioCtx.decodeAudioData(data);
+  } finally {
+    audioCtx.close().catch(() => {});
+  }
+}
+
+export async function computeWaveform(blob: Blob, buckets: number, signal?: AbortSignal): Promise<number[]> {
+  const buffer = await decodeAudio(blob);
+  if (signal?.aborted) throw new Error("Analysis cancelled");
+
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const samplesPerBucket = Math.max(1, Math.floor(buffer.length / buckets));
+  const peaks: number[] = [];
+  let maxPeak = 0;
+
+  for (let b = 0; b < buckets; b++) {
+    const from = b * samplesPerBucket;
+    const to = Math.min(buffer.length, from + samplesPerBucket);
+    let peak = 0;
+    for (const data of channels) {
+      for (let i = from; i < to; i++) {
+        const v = Math.abs(data[i]);
+        if (v > peak) peak = v;
+      }
+    }
+    peaks.push(peak);
+    if (peak > maxPeak) maxPeak = peak;
+  }
+
+  return maxPeak > 0 ? peaks.map((p) => Number((p / maxPeak).toFixed(3))) : peaks;
+}
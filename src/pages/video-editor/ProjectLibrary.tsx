@@ -0,0 +1,112 @@
+import React from "react";
+import type { ProjectRecord, StorageEstimate } from "./VideoEditorDB";
+
+// =========================================
+// COMPONENT: Project Library
+// =========================================
+
+interface ProjectLibraryProps {
+  projects: ProjectRecord[];
+  activeProjectId: string | null;
+  storage: StorageEstimate | null;
+  disabled?: boolean;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+const formatDuration = (sec: number) => {
+  if (!sec) return "--:--";
+  const h = Math.floor(sec / 3600);
+  const m = Math.floor((sec % 3600) / 60);
+  const s = Math.floor(sec % 60);
+  const mmss = `${String(m).padStart(h ? 2 : 1, "0")}:${String(s).padStart(2, "0")}`;
+  return h ? `${h}:${mmss}` : mmss;
+};
+
+const ProjectLibrary: React.FC<ProjectLibraryProps> = ({
+  projects,
+  activeProjectId,
+  storage,
+  disabled,
+  onOpen,
+  onDelete,
+}) => {
+  const usedRatio = storage && storage.quota > 0 ? storage.usage / storage.quota : 0;
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col gap-3">
+      <div className="flex justify-between items-center">
+        <h3 className="font-bold text-gray-400 text-sm uppercase tracking-wider">Projects</h3>
+        <span className="text-xs text-gray-500">{projects.length} saved</span>
+      </div>
+
+      {projects.length === 0 ? (
+        <p className="text-gray-500 text-center text-sm italic py-3 border-2 border-dashed border-gray-700 rounded">
+          No local videos yet. Open a file to create a project.
+        </p>
+      ) : (
+        <ul className="space-y-2 max-h-56 overflow-y-auto pr-1 scrollbar-thin scrollbar-thumb-gray-700">
+          {projects.map((project) => {
+            const isActive = project.id === activeProjectId;
+            return (
+              <li
+                key={project.id}
+                className={`flex items-center gap-3 p-2 rounded border transition-colors ${
+                  isActive ? "bg-blue-900/30 border-blue-600" : "bg-gray-900 border-gray-700 hover:border-gray-500"
+                }`}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="font-mono text-sm font-bold truncate text-blue-300" title={project.name}>
+                    {project.name}
+                  </p>
+                  <p className="text-[11px] text-gray-500">
+                    {formatBytes(project.size)} · {formatDuration(project.duration)} · {project.segments.length} seg ·{" "}
+                    {new Date(project.lastOpened).toLocaleString()}
+                  </p>
+                </div>
+                <button
+                  onClick={() => onOpen(project.id)}
+                  disabled={disabled || isActive}
+                  className="px-3 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-default rounded text-xs font-bold"
+                >
+                  {isActive ? "Active" : "Open"}
+                </button>
+                <button
+                  onClick={() => onDelete(project.id)}
+                  disabled={disabled}
+                  className="text-red-500 hover:text-red-400 text-xs hover:underline px-1 disabled:opacity-40"
+                  title="Delete project and its video from the browser"
+                >
+                  X
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {storage && storage.quota > 0 && (
+        <div className="flex flex-col gap-1">
+          <div className="h-2 bg-gray-950 rounded overflow-hidden border border-gray-700">
+            <div
+              className={`h-full ${usedRatio > 0.8 ? "bg-red-500" : "bg-blue-500"}`}
+              style={{ width: `${Math.min(100, usedRatio * 100)}%` }}
+            />
+          </div>
+          <p className="text-[11px] text-gray-500 text-right">
+            {formatBytes(storage.usage)} of {formatBytes(storage.quota)} browser storage used
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectLibrary;
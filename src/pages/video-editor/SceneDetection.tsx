@@ -0,0 +1,187 @@
+import type { VideoSegment } from "./SegmentModel";
+import { loadOffscreenVideo, decodeAudio, seekVideo, releaseVideo } from "./MediaAnalysis";
+
+// =========================================
+// UTILITY: Scene-Change & Silence Detection
+// =========================================
+// Scene cuts: frames are sampled at a fixed interval into a tiny canvas and
+// each one is reduced to an RGB histogram; a large histogram distance between
+// neighbouring samples marks a cut. Silence: RMS of the decoded audio track in
+// short windows, compared against a dB threshold.
+// The expensive part (sampling / decoding) runs once; proposals are derived
+// from the stored scores and loudness so the sliders stay instant.
+
+export interface SceneScores {
+  times: number[]; // Sample times in seconds
+  distances: number[]; // distances[i] = change between sample i-1 and i (0..1), distances[0] = 0
+}
+
+export interface LoudnessEnvelope {
+  window: number; // Seconds per level
+  levels: number[]; // RMS in dBFS per window
+}
+
+export interface SilenceRange {
+  start: number;
+  end: number;
+}
+
+const SAMPLE_WIDTH = 64;
+const SAMPLE_HEIGHT = 36;
+const HISTOGRAM_BINS = 16; // per channel
+const MIN_SAMPLE_INTERVAL = 0.25;
+const MAX_SAMPLES = 600;
+const RMS_WINDOW = 0.05; // seconds
+
+export const MIN_SCENE_LENGTH = 1; // seconds
+
+const frameHistogram = (pixels: Uint8ClampedArray) => {
+  const histogram = new Float32Array(HISTOGRAM_BINS * 3);
+  const shift = 256 / HISTOGRAM_BINS;
+  for (let i = 0; i < pixels.length; i += 4) {
+    histogram[Math.floor(pixels[i] / shift)]++;
+    histogram[HISTOGRAM_BINS + Math.floor(pixels[i + 1] / shift)]++;
+    histogram[HISTOGRAM_BINS * 2 + Math.floor(pixels[i + 2] / shift)]++;
+  }
+  const total = pixels.length / 4;
+  for (let i = 0; i < histogram.length; i++) histogram[i] /= total;
+  return histogram;
+};
+
+// Half the L1 distance per channel, averaged: 0 = identical, 1 = disjoint
+const histogramDistance = (a: Float32Array, b: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / 6;
+};
+
+export async function computeSceneScores(
+  src: string,
+  options: { signal?: AbortSignal; onProgress?: (progress: number) => void } = {}
+): Promise<SceneScores> {
+  const { signal, onProgress } = options;
+  const video = await loadOffscreenVideo(src, signal);
+  try {
+    const duration = video.duration;
+    if (!isFinite(duration) || duration <= 0) return { times: [], distances: [] };
+
+    const canvas = document.createElement("canvas");
+    canvas.width = SAMPLE_WIDTH;
+    canvas.height = SAMPLE_HEIGHT;
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) throw new Error("Canvas 2D context is not available");
+
+    const interval = Math.max(MIN_SAMPLE_INTERVAL, duration / MAX_SAMPLES);
+    const count = Math.floor(duration / interval);
+    const times: number[] = [];
+    const distances: number[] = [];
+    let previous: Float32Array | null = null;
+
+    for (let i = 0; i <= count; i++) {
+      if (signal?.aborted) throw new Error("Analysis cancelled");
+      const time = Math.min(i * interval, duration - 0.01);
+      await seekVideo(video, time);
+      ctx.drawImage(video, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+      const histogram = frameHistogram(ctx.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT).data);
+      times.push(time);
+      distances.push(previous ? Number(histogramDistance(previous, histogram).toFixed(4)) : 0);
+      previous = histogram;
+      onProgress?.((i + 1) / (count + 1));
+    }
+    return { times, distances };
+  } finally {
+    releaseVideo(video);
+  }
+}
+
+// Sensitivity 0..1 maps to a distance threshold of 0.6..0.1; cuts closer than
+// MIN_SCENE_LENGTH keep only the stronger change
+export const detectSceneCuts = (scores: SceneScores, sensitivity: number): number[] => {
+  const threshold = 0.6 - Math.min(1, Math.max(0, sensitivity)) * 0.5;
+  const cuts: { time: number; distance: number }[] = [];
+
+  scores.distances.forEach((distance, i) => {
+    if (i === 0 || distance < threshold) return;
+    const time = scores.times[i];
+    const last = cuts[cuts.length - 1];
+    if (last && time - last.time < MIN_SCENE_LENGTH) {
+      if (distance > last.distance) cuts[cuts.length - 1] = { time, distance };
+      return;
+    }
+    cuts.push({ time, distance });
+  });
+
+  return cuts.map((c) => c.time);
+};
+
+export async function computeLoudness(blob: Blob, signal?: AbortSignal): Promise<LoudnessEnvelope> {
+  const buffer = await decodeAudio(blob);
+  if (signal?.aborted) throw new Error("Analysis cancelled");
+
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const windowSize = Math.max(1, Math.round(buffer.sampleRate * RMS_WINDOW));
+  const levels: number[] = [];
+
+  for (let from = 0; from < buffer.length; from += windowSize) {
+    const to = Math.min(buffer.length, from + windowSize);
+    let sum = 0;
+    for (const data of channels) {
+      for (let i = from; i < to; i++) sum += data[i] * data[i];
+    }
+    const rms = Math.sqrt(sum / ((to - from) * channels.length));
+    levels.push(rms > 0 ? Number((20 * Math.log10(rms)).toFixed(1)) : -Infinity);
+  }
+
+  return { window: windowSize / buffer.sampleRate, levels };
+}
+
+// Stretches quieter than `thresholdDb` for at least `minDuration` seconds
+export const findSilence = (loudness: LoudnessEnvelope, thresholdDb: number, minDuration: number): SilenceRange[] => {
+  const ranges: SilenceRange[] = [];
+  let silentFrom: number | null = null;
+
+  const closeRange = (end: number) => {
+    if (silentFrom !== null && end - silentFrom >= minDuration) {
+      ranges.push({ start: Number(silentFrom.toFixed(3)), end: Number(end.toFixed(3)) });
+    }
+    silentFrom = null;
+  };
+
+  loudness.levels.forEach((level, i) => {
+    const time = i * loudness.window;
+    if (level < thresholdDb) {
+      if (silentFrom === null) silentFrom = time;
+    } else {
+      closeRange(time);
+    }
+  });
+  closeRange(loudness.levels.length * loudness.window);
+
+  return ranges;
+};
+
+// Splits [0, duration] at the cuts and removes the silent ranges. Pieces shorter
+// than MIN_SCENE_LENGTH / 4 (left over between a cut and a silence) are dropped.
+export const proposeSegments = (duration: number, cuts: number[], silences: SilenceRange[] = []): VideoSegment[] => {
+  const bounds = [0, ...cuts.filter((t) => t > 0 && t < duration), duration];
+  const segments: VideoSegment[] = [];
+  const minLength = MIN_SCENE_LENGTH / 4;
+
+  for (let i = 0; i < bounds.length - 1; i++) {
+    let pieces: SilenceRange[] = [{ start: bounds[i], end: bounds[i + 1] }];
+    for (const silence of silences) {
+      pieces = pieces.flatMap((piece) => {
+        if (silence.end <= piece.start || silence.start >= piece.end) return [piece];
+        return [
+          { start: piece.start, end: silence.start },
+          { start: silence.end, end: piece.end },
+        ].filter((p) => p.end > p.start);
+      });
+    }
+    pieces
+      .filter((p) => p.end - p.start >= minLength)
+      .forEach((p) => segments.push([Number(p.start.toFixed(3)), Number(p.end.toFixed(3)), 1]));
+  }
+
+  return segments;
+};
@@ -0,0 +1,205 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import type { VideoSegment } from "./SegmentModel";
+import {
+  type SceneScores,
+  type LoudnessEnvelope,
+  computeSceneScores,
+  detectSceneCuts,
+  computeLoudness,
+  findSilence,
+  proposeSegments,
+} from "./SceneDetection";
+
+// =========================================
+// COMPONENT: Auto Segments (scene cuts + silence)
+// =========================================
+
+interface SceneDetectionPanelProps {
+  videoSrc: string;
+  duration: number;
+  loadAudio: () => Promise<Blob | null>; // Original file for RMS analysis, null when unavailable
+  disabled?: boolean;
+  onApply: (segments: VideoSegment[]) => void;
+}
+
+const SceneDetectionPanel: React.FC<SceneDetectionPanelProps> = ({ videoSrc, duration, loadAudio, disabled, onApply }) => {
+  const [scores, setScores] = useState<SceneScores | null>(null);
+  const [loudness, setLoudness] = useState<LoudnessEnvelope | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const [sensitivity, setSensitivity] = useState(0.5);
+  const [dropSilence, setDropSilence] = useState(false);
+  const [silenceDb, setSilenceDb] = useState(-40);
+  const [minSilence, setMinSilence] = useState(0.5);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Results belong to one file
+  useEffect(() => {
+    setScores(null);
+    setLoudness(null);
+    setError(null);
+    return () => abortRef.current?.abort();
+  }, [videoSrc]);
+
+  const handleAnalyze = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setProgress(0);
+    setError(null);
+    try {
+      const [sceneScores, envelope] = await Promise.all([
+        computeSceneScores(videoSrc, { signal: controller.signal, onProgress: setProgress }),
+        loadAudio()
+          .then((blob) => (blob ? computeLoudness(blob, controller.signal) : null))
+          .catch((e) => {
+            console.warn("Loudness analysis failed", e);
+            return null;
+          }),
+      ]);
+      if (controller.signal.aborted) return;
+      setScores(sceneScores);
+      setLoudness(envelope);
+    } catch (err: any) {
+      if (!controller.signal.aborted) {
+        console.error("Scene detection failed", err);
+        setError(err.message);
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsRunning(false);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsRunning(false);
+  };
+
+  const cuts = useMemo(() => (scores ? detectSceneCuts(scores, sensitivity) : []), [scores, sensitivity]);
+  const silences = useMemo(
+    () => (loudness && dropSilence ? findSilence(loudness, silenceDb, minSilence) : []),
+    [loudness, dropSilence, silenceDb, minSilence]
+  );
+  const proposal = useMemo(
+    () => (scores && duration > 0 ? proposeSegments(duration, cuts, silences) : []),
+    [scores, duration, cuts, silences]
+  );
+  const keptSeconds = proposal.reduce((sum, [start, end]) => sum + (end - start), 0);
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col gap-3">
+      <div className="flex justify-between items-center">
+        <h3 className="font-bold text-gray-400 text-sm uppercase tracking-wider">Auto Segments</h3>
+        <span className="text-xs text-gray-500">Scene cuts & silence</span>
+      </div>
+
+      {isRunning ? (
+        <div className="flex items-center gap-3">
+          <div className="flex-1 h-3 bg-gray-950 rounded overflow-hidden border border-gray-700">
+            <div
+              className="h-full bg-purple-500 transition-all duration-200"
+              style={{ width: `${Math.round(progress * 100)}%` }}
+            />
+          </div>
+          <span className="text-xs font-mono text-gray-300 w-10 text-right">{Math.round(progress * 100)}%</span>
+          <button
+            onClick={handleCancel}
+            className="px-3 py-1 bg-red-700 hover:bg-red-600 rounded text-sm font-bold transition"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={handleAnalyze}
+          disabled={disabled || !videoSrc || duration <= 0}
+          className="w-full py-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold rounded transition"
+        >
+          {scores ? "Analyze Again" : "Analyze Video"}
+        </button>
+      )}
+
+      {error && <div className="text-red-400 text-sm bg-red-900/20 p-2 rounded">{error}</div>}
+
+      {scores && (
+        <>
+          <label className="flex flex-col gap-1 text-xs text-gray-400">
+            <span className="flex justify-between">
+              <span>Scene sensitivity</span>
+              <span className="font-mono text-gray-300">{Math.round(sensitivity * 100)}%</span>
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={sensitivity}
+              onChange={(e) => setSensitivity(parseFloat(e.target.value))}
+              className="accent-purple-500"
+            />
+          </label>
+
+          {loudness ? (
+            <div className="flex flex-col gap-2 text-xs text-gray-400">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={dropSilence} onChange={(e) => setDropSilence(e.target.checked)} />
+                Drop silent stretches
+              </label>
+              {dropSilence && (
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="flex flex-col gap-1">
+                    <span>Below {silenceDb} dB</span>
+                    <input
+                      type="range"
+                      min={-60}
+                      max={-20}
+                      step={1}
+                      value={silenceDb}
+                      onChange={(e) => setSilenceDb(parseInt(e.target.value, 10))}
+                      className="accent-purple-500"
+                    />
+                  </label>
+                  <label className="flex flex-col gap-1">
+                    <span>Longer than {minSilence.toFixed(1)}s</span>
+                    <input
+                      type="range"
+                      min={0.2}
+                      max={3}
+                      step={0.1}
+                      value={minSilence}
+                      onChange={(e) => setMinSilence(parseFloat(e.target.value))}
+                      className="accent-purple-500"
+                    />
+                  </label>
+                </div>
+              )}
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500 italic">Silence detection needs a local file.</p>
+          )}
+
+          <div className="flex justify-between items-center gap-3">
+            <span className="text-xs text-gray-400">
+              {cuts.length} cuts → {proposal.length} segments, {keptSeconds.toFixed(1)}s of {duration.toFixed(1)}s
+            </span>
+            <button
+              onClick={() => onApply(proposal)}
+              disabled={disabled || proposal.length === 0}
+              className="px-4 py-2 bg-blue-600 text-white font-bold rounded text-sm hover:bg-blue-700 disabled:opacity-50 transition"
+            >
+              Apply
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SceneDetectionPanel;
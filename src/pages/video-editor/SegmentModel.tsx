@@ -0,0 +1,95 @@
+// =========================================
+// MODEL: Video Segments
+// =========================================
+// [Start Time, End Time, Playback Speed, Options?]
+// The options object is optional and omitted when every field is at its default,
+// so old [start, end] and [start, end, speed] lists keep working unchanged.
+
+export interface SegmentAudio {
+  volume?: number; // 0..1
+  muted?: boolean;
+  preservePitch?: boolean;
+}
+
+export interface SegmentOptions extends SegmentAudio {
+  source?: string; // Project id of the clip; omitted = the project being edited
+}
+
+export type VideoSegment = [number, number, number, SegmentOptions?];
+
+export const DEFAULT_AUDIO: Required<SegmentAudio> = {
+  volume: 1,
+  muted: false,
+  preservePitch: true,
+};
+
+export const getSegmentAudio = (seg: VideoSegment): Required<SegmentAudio> => {
+  const { volume, muted, preservePitch } = { ...DEFAULT_AUDIO, ...(seg[3] || {}) };
+  return { volume, muted, preservePitch };
+};
+
+export const getSegmentSource = (seg: VideoSegment): string | undefined => seg[3]?.source;
+
+const isDefaultAudio = (audio: Required<SegmentAudio>) =>
+  audio.volume === DEFAULT_AUDIO.volume &&
+  audio.muted === DEFAULT_AUDIO.muted &&
+  audio.preservePitch === DEFAULT_AUDIO.preservePitch;
+
+// Returns a new segment with the options patch applied (drops the object when all defaults)
+export const withSegmentOptions = (seg: VideoSegment, patch: SegmentOptions): VideoSegment => {
+  const audio = { ...getSegmentAudio(seg), ...patch };
+  audio.volume = Math.min(1, Math.max(0, Number(audio.volume.toFixed(2))));
+  const source = "source" in patch ? patch.source : getSegmentSource(seg);
+  const [start, end, speed] = seg;
+
+  const options: SegmentOptions = isDefaultAudio(audio)
+    ? {}
+    : { volume: audio.volume, muted: audio.muted, preservePitch: audio.preservePitch };
+  if (source) options.source = source;
+  return Object.keys(options).length === 0 ? [start, end, speed] : [start, end, speed, options];
+};
+
+export const withSegmentAudio = (seg: VideoSegment, patch: SegmentAudio): VideoSegment =>
+  withSegmentOptions(seg, patch);
+
+const parseOptions = (raw: any): SegmentOptions | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== "object" || Array.isArray(raw)) throw new Error("Segment options must be an object");
+  if (raw.volume !== undefined && typeof raw.volume !== "number") throw new Error("volume must be a number");
+  if (raw.muted !== undefined && typeof raw.muted !== "boolean") throw new Error("muted must be a boolean");
+  if (raw.preservePitch !== undefined && typeof raw.preservePitch !== "boolean")
+    throw new Error("preservePitch must be a boolean");
+  if (raw.source !== undefined && typeof raw.source !== "string") throw new Error("source must be a project id string");
+  return raw;
+};
+
+// Accepts [start, end], [start, end, speed] and [start, end, speed, options]
+export const parseSegment = (item: any): VideoSegment => {
+  if (!Array.isArray(item)) throw new Error("Items must be arrays");
+  if (item.length < 2 || item.length > 4) {
+    throw new Error("Items must be [start, end], [start, end, speed] or [start, end, speed, options]");
+  }
+  const [start, end, speed = 1] = item;
+  if (typeof start !== "number" || typeof end !== "number" || typeof speed !== "number") {
+    throw new Error("Start, end and speed must be numbers");
+  }
+  const options = parseOptions(item[3]);
+  const seg: VideoSegment = [start, end, speed];
+  return options ? withSegmentOptions(seg, options) : seg;
+};
+
+export const parseSegments = (raw: unknown): VideoSegment[] => {
+  if (!Array.isArray(raw)) throw new Error("Must be an array");
+  return raw.map(parseSegment);
+};
+
+// Applies speed + audio settings of a segment to a player element
+export const applySegmentToPlayer = (player: HTMLVideoElement, seg: VideoSegment) => {
+  const audio = getSegmentAudio(seg);
+  player.playbackRate = seg[2] || 1;
+  player.volume = audio.volume;
+  player.muted = audio.muted;
+  player.preservesPitch = audio.preservePitch;
+  (player as any).webkitPreservesPitch = audio.preservePitch;
+  (player as any).mozPreservesPitch = audio.preservePitch;
+};
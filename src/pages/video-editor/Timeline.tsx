@@ -0,0 +1,311 @@
+import React, { useEffect, useRef, useState } from "react";
+import type { VideoSegment } from "./SegmentModel";
+
+// =========================================
+// COMPONENT: Timeline
+// =========================================
+// Horizontal, zoomable view of the whole video. Every segment is a block that
+// can be moved (drag body) or trimmed (drag left/right handle). Positions are
+// kept in percent of the duration, so zooming only changes the inner width.
+// Edits are kept as a local draft while dragging and committed on release.
+// The optional filmstrip and waveform are drawn behind the segment blocks.
+
+type DragMode = "move" | "start" | "end";
+
+interface DragState {
+  index: number;
+  mode: DragMode;
+  originX: number;
+  originSegment: VideoSegment;
+}
+
+interface TimelineProps {
+  duration: number;
+  segments: VideoSegment[];
+  playhead: number;
+  markIn?: number | null;
+  markOut?: number | null;
+  thumbnails?: string[];
+  waveform?: number[];
+  isAnalyzing?: boolean;
+  onUpdate: (newSegments: VideoSegment[], label: string) => void;
+  onSeek: (time: number) => void;
+  onPreview: (range: VideoSegment) => void;
+  isSegmentVisible?: (seg: VideoSegment) => boolean; // Segments of other clips are hidden
+}
+
+const MIN_SEGMENT_LENGTH = 0.1;
+const SNAP_DISTANCE_PX = 8;
+const ZOOM_LEVELS = [1, 2, 4, 8, 16, 32];
+const TICK_STEPS = [0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 1800];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const formatTime = (sec: number) => {
+  const m = Math.floor(sec / 60);
+  const s = sec - m * 60;
+  return `${m}:${s < 10 ? "0" : ""}${s.toFixed(s % 1 === 0 ? 0 : 1)}`;
+};
+
+const pickTickStep = (duration: number, zoom: number) => {
+  const wanted = duration / (8 * zoom);
+  return TICK_STEPS.find((step) => step >= wanted) || TICK_STEPS[TICK_STEPS.length - 1];
+};
+
+const waveformPath = (peaks: number[]) => {
+  // Mirrored around the middle line, viewBox is `0 0 peaks.length 100`
+  const top = peaks.map((p, i) => `${i},${50 - p * 50}`);
+  const bottom = peaks.map((p, i) => `${i},${50 + p * 50}`).reverse();
+  return `M0,50 L${top.join(" L")} L${bottom.join(" L")} Z`;
+};
+
+const Timeline: React.FC<TimelineProps> = ({
+  duration,
+  segments,
+  playhead,
+  markIn,
+  markOut,
+  thumbnails,
+  waveform,
+  isAnalyzing,
+  onUpdate,
+  onSeek,
+  onPreview,
+  isSegmentVisible,
+}) => {
+  const [zoom, setZoom] = useState(1);
+  const [snapEnabled, setSnapEnabled] = useState(true);
+  const [draft, setDraft] = useState<VideoSegment[] | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+
+  const visibleSegments = draft || segments;
+  const hasDuration = duration > 0 && isFinite(duration);
+
+  const pxToSeconds = (px: number) => {
+    const width = trackRef.current?.getBoundingClientRect().width || 1;
+    return (px / width) * duration;
+  };
+
+  const snap = (value: number) => {
+    if (!snapEnabled) return value;
+    return Math.abs(value - playhead) <= pxToSeconds(SNAP_DISTANCE_PX) ? playhead : value;
+  };
+
+  // --- Dragging (window listeners so the pointer can leave the block) ---
+  useEffect(() => {
+    if (!drag) return;
+
+    const computeSegment = (clientX: number): VideoSegment => {
+      const [origStart, origEnd, speed, audio] = drag.originSegment;
+      const delta = pxToSeconds(clientX - drag.originX);
+
+      if (drag.mode === "start") {
+        const start = clamp(snap(origStart + delta), 0, origEnd - MIN_SEGMENT_LENGTH);
+        return [Number(start.toFixed(2)), origEnd, speed, audio];
+      }
+      if (drag.mode === "end") {
+        const end = clamp(snap(origEnd + delta), origStart + MIN_SEGMENT_LENGTH, duration);
+        return [origStart, Number(end.toFixed(2)), speed, audio];
+      }
+
+      const length = origEnd - origStart;
+      let start = clamp(origStart + delta, 0, duration - length);
+      const snappedStart = snap(start);
+      const snappedEnd = snap(start + length);
+      if (snappedStart !== start) start = snappedStart;
+      else if (snappedEnd !== start + length) start = snappedEnd - length;
+      start = Number(start.toFixed(2));
+      return [start, Number((start + length).toFixed(2)), speed, audio];
+    };
+
+    const buildList = (clientX: number) => {
+      const updated = [...segments];
+      updated[drag.index] = computeSegment(clientX);
+      return updated;
+    };
+
+    const handleMove = (e: PointerEvent) => setDraft(buildList(e.clientX));
+    const handleUp = (e: PointerEvent) => {
+      const updated = buildList(e.clientX);
+      setDrag(null);
+      setDraft(null);
+      if (e.clientX !== drag.originX) onUpdate(updated, drag.mode === "move" ? "Move segment" : "Retime segment");
+    };
+
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+    return () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+    };
+  }, [drag, segments, duration, playhead, snapEnabled, onUpdate]);
+
+  const startDrag = (e: React.PointerEvent, index: number, mode: DragMode) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDrag({ index, mode, originX: e.clientX, originSegment: segments[index] });
+  };
+
+  const handleTrackClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!hasDuration || !trackRef.current) return;
+    const rect = trackRef.current.getBoundingClientRect();
+    onSeek(clamp(((e.clientX - rect.left) / rect.width) * duration, 0, duration));
+  };
+
+  // Keep the playhead visible while zoomed in
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    const track = trackRef.current;
+    if (!scroller || !track || !hasDuration || zoom === 1 || drag) return;
+    const x = (playhead / duration) * track.scrollWidth;
+    if (x < scroller.scrollLeft || x > scroller.scrollLeft + scroller.clientWidth) {
+      scroller.scrollLeft = Math.max(0, x - scroller.clientWidth / 4);
+    }
+  }, [playhead, duration, zoom, hasDuration, drag]);
+
+  const pct = (sec: number) => `${(sec / duration) * 100}%`;
+  const tickStep = hasDuration ? pickTickStep(duration, zoom) : 1;
+  const ticks: number[] = [];
+  if (hasDuration) {
+    for (let t = 0; t <= duration; t += tickStep) ticks.push(t);
+  }
+
+  return (
+    <div className="bg-gray-950 p-3 rounded-lg border border-gray-700 flex flex-col gap-2 select-none">
+      <div className="flex justify-between items-center">
+        <h3 className="font-bold text-gray-400 text-sm uppercase tracking-wider">Timeline</h3>
+        <div className="flex items-center gap-3 text-xs text-gray-400">
+          {isAnalyzing && <span className="text-gray-500 italic">Analyzing...</span>}
+          <span className="font-mono text-blue-400">{formatTime(playhead)}</span>
+          <label className="flex items-center gap-1 cursor-pointer" title="Snap segment edges to the playhead">
+            <input
+              type="checkbox"
+              checked={snapEnabled}
+              onChange={(e) => setSnapEnabled(e.target.checked)}
+              className="accent-blue-500"
+            />
+            Snap
+          </label>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setZoom((z) => ZOOM_LEVELS[Math.max(0, ZOOM_LEVELS.indexOf(z) - 1)])}
+              disabled={zoom === ZOOM_LEVELS[0]}
+              className="w-6 h-6 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 rounded"
+              title="Zoom out"
+            >
+              −
+            </button>
+            <span className="w-8 text-center font-mono">{zoom}x</span>
+            <button
+              onClick={() => setZoom((z) => ZOOM_LEVELS[Math.min(ZOOM_LEVELS.length - 1, ZOOM_LEVELS.indexOf(z) + 1)])}
+              disabled={zoom === ZOOM_LEVELS[ZOOM_LEVELS.length - 1]}
+              className="w-6 h-6 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 rounded"
+              title="Zoom in"
+            >
+              +
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div ref={scrollRef} className="overflow-x-auto overflow-y-hidden scrollbar-thin scrollbar-thumb-gray-700">
+        {!hasDuration ? (
+          <p className="text-gray-600 text-center text-xs italic py-6">Waiting for video metadata...</p>
+        ) : (
+          <div ref={trackRef} className="relative h-28 cursor-pointer" style={{ width: `${zoom * 100}%` }} onClick={handleTrackClick}>
+            {/* Ruler */}
+            <div className="absolute top-0 left-0 right-0 h-5 border-b border-gray-800">
+              {ticks.map((t) => (
+                <div key={t} className="absolute top-0 h-full border-l border-gray-700" style={{ left: pct(t) }}>
+                  <span className="absolute top-0 left-1 text-[9px] text-gray-500 font-mono whitespace-nowrap">
+                    {formatTime(t)}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {/* Filmstrip + Waveform (background) */}
+            <div className="absolute top-6 left-0 right-0 bottom-1 pointer-events-none overflow-hidden rounded">
+              {thumbnails && thumbnails.length > 0 && (
+                <div className="absolute inset-0 flex opacity-50">
+                  {thumbnails.map((thumb, i) => (
+                    <img key={i} src={thumb} alt="" className="h-full object-cover" style={{ width: `${100 / thumbnails.length}%` }} />
+                  ))}
+                </div>
+              )}
+              {waveform && waveform.length > 0 && (
+                <svg
+                  className="absolute left-0 right-0 bottom-0 h-1/2 w-full"
+                  viewBox={`0 0 ${waveform.length} 100`}
+                  preserveAspectRatio="none"
+                >
+                  <path d={waveformPath(waveform)} className="fill-green-400/60" />
+                </svg>
+              )}
+            </div>
+
+            {/* Segment Blocks */}
+            <div className="absolute top-6 left-0 right-0 bottom-1">
+              {visibleSegments.map((seg, idx) => {
+                if (isSegmentVisible && !isSegmentVisible(seg)) return null;
+                const [start, end] = seg;
+                const isDragged = drag?.index === idx;
+                return (
+                  <div
+                    key={idx}
+                    onPointerDown={(e) => startDrag(e, idx, "move")}
+                    onClick={(e) => e.stopPropagation()}
+                    onDoubleClick={() => onPreview(seg)}
+                    title={`#${idx + 1}  ${start.toFixed(2)} → ${end.toFixed(2)} (double-click to play)`}
+                    className={`absolute top-0 bottom-0 rounded border overflow-hidden cursor-grab active:cursor-grabbing ${
+                      isDragged ? "bg-blue-500/50 border-blue-300 z-20" : "bg-blue-700/30 border-blue-500 hover:bg-blue-600/40 z-10"
+                    }`}
+                    style={{ left: pct(Math.min(start, duration)), width: pct(Math.max(0, Math.min(end, duration) - start)) }}
+                  >
+                    <div
+                      onPointerDown={(e) => startDrag(e, idx, "start")}
+                      className="absolute left-0 top-0 bottom-0 w-2 bg-blue-300/70 hover:bg-white cursor-ew-resize"
+                    />
+                    <span className="absolute left-3 top-1 text-[10px] font-mono font-bold text-white pointer-events-none">
+                      #{idx + 1}
+                    </span>
+                    <div
+                      onPointerDown={(e) => startDrag(e, idx, "end")}
+                      className="absolute right-0 top-0 bottom-0 w-2 bg-blue-300/70 hover:bg-white cursor-ew-resize"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* In / Out Marks */}
+            {[markIn, markOut].map((mark, i) =>
+              mark === null || mark === undefined ? null : (
+                <div
+                  key={i}
+                  className="absolute top-0 bottom-0 w-px bg-yellow-400 z-30 pointer-events-none"
+                  style={{ left: pct(clamp(mark, 0, duration)) }}
+                >
+                  <span className="absolute top-0 left-1 text-[9px] font-bold text-yellow-400">{i === 0 ? "I" : "O"}</span>
+                </div>
+              )
+            )}
+
+            {/* Playhead */}
+            <div
+              className="absolute top-0 bottom-0 w-px bg-red-500 z-30 pointer-events-none"
+              style={{ left: pct(clamp(playhead, 0, duration)) }}
+            >
+              <div className="absolute -top-0.5 -left-1 w-2 h-2 bg-red-500 rotate-45" />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Timeline;
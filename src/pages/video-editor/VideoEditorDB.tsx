@@ -0,0 +1,197 @@
+import type { MediaOverview } from "./MediaAnalysis";
+import type { EditHistory } from "./EditHistory";
+import { type VideoSegment, parseSegments } from "./SegmentModel";
+
+// =========================================
+// UTILITY: IndexedDB Project Library
+// =========================================
+// Stores:
+//   projects - ProjectRecord, keyed by `id` (metadata, segment list + edit history)
+//   files    - the original File blob, keyed by project id
+//   media    - cached filmstrip + waveform, keyed by project id
+// Version 3 replaced the single "currentVideo" file; the upgrade moves it into
+// a project together with its segments from localStorage (read once, then removed).
+
+const DB_NAME = "VideoEditorDB";
+const FILES_STORE = "files";
+const MEDIA_STORE = "media";
+const PROJECTS_STORE = "projects";
+const DB_VERSION = 3;
+const LEGACY_FILE_KEY = "currentVideo";
+
+export interface ProjectRecord {
+  id: string;
+  name: string;
+  size: number; // bytes
+  type: string;
+  duration: number; // seconds, 0 until the metadata was read once
+  createdAt: number;
+  lastOpened: number;
+  segments: VideoSegment[];
+  history?: EditHistory; // Undo / redo stacks for the segment list
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+const createProjectId = () => `${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+
+// Segments used to live in localStorage under the file name; only the upgrade reads them
+const readLegacySegments = (fileName: string): VideoSegment[] => {
+  try {
+    const saved = localStorage.getItem(fileName);
+    return saved ? parseSegments(JSON.parse(saved)) : [];
+  } catch {
+    return [];
+  }
+};
+
+const requestToPromise = <T,>(request: IDBRequest<T>, errorMessage: string) => {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(errorMessage);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction, errorMessage: string) => {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(errorMessage);
+    tx.onabort = () => reject(errorMessage);
+  });
+};
+
+const openDB = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onerror = () => reject("Error opening DB");
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = (e: IDBVersionChangeEvent) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      if (!db.objectStoreNames.contains(FILES_STORE)) {
+        db.createObjectStore(FILES_STORE);
+      }
+      if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+        db.createObjectStore(MEDIA_STORE);
+      }
+      if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        db.createObjectStore(PROJECTS_STORE, { keyPath: "id" });
+      }
+
+      if (e.oldVersion > 0 && e.oldVersion < 3) {
+        // Media cache was keyed by file name
+        tx.objectStore(MEDIA_STORE).clear();
+
+        const files = tx.objectStore(FILES_STORE);
+        const legacy = files.get(LEGACY_FILE_KEY);
+        legacy.onsuccess = () => {
+          const file = legacy.result as File | undefined;
+          if (!file) return;
+          const id = createProjectId();
+          const now = Date.now();
+          const project: ProjectRecord = {
+            id,
+            name: file.name,
+            size: file.size,
+            type: file.type,
+            duration: 0,
+            createdAt: now,
+            lastOpened: now,
+            segments: readLegacySegments(file.name),
+          };
+          files.put(file, id);
+          files.delete(LEGACY_FILE_KEY);
+          tx.objectStore(PROJECTS_STORE).put(project);
+          // Dropped only once the project is stored, so a failed upgrade can run again
+          tx.addEventListener("complete", () => localStorage.removeItem(file.name));
+        };
+      }
+    };
+  });
+};
+
+// --- Projects ---
+
+export const listProjects = async (): Promise<ProjectRecord[]> => {
+  const db = await openDB();
+  const tx = db.transaction(PROJECTS_STORE, "readonly");
+  const projects = await requestToPromise<ProjectRecord[]>(tx.objectStore(PROJECTS_STORE).getAll(), "Error listing projects");
+  return projects.sort((a, b) => b.lastOpened - a.lastOpened);
+};
+
+export const createProject = async (file: File): Promise<ProjectRecord> => {
+  const db = await openDB();
+  const now = Date.now();
+  const project: ProjectRecord = {
+    id: createProjectId(),
+    name: file.name,
+    size: file.size,
+    type: file.type,
+    duration: 0,
+    createdAt: now,
+    lastOpened: now,
+    segments: [],
+  };
+  const tx = db.transaction([PROJECTS_STORE, FILES_STORE], "readwrite");
+  tx.objectStore(FILES_STORE).put(file, project.id);
+  tx.objectStore(PROJECTS_STORE).put(project);
+  await transactionDone(tx, "Error saving file");
+  return project;
+};
+
+export const getProjectFile = async (id: string): Promise<File | null> => {
+  const db = await openDB();
+  const tx = db.transaction(FILES_STORE, "readonly");
+  const file = await requestToPromise<File | undefined>(tx.objectStore(FILES_STORE).get(id), "Error getting file");
+  return file || null;
+};
+
+export const updateProject = async (id: string, patch: Partial<Omit<ProjectRecord, "id">>): Promise<ProjectRecord | null> => {
+  const db = await openDB();
+  const tx = db.transaction(PROJECTS_STORE, "readwrite");
+  const store = tx.objectStore(PROJECTS_STORE);
+  const existing = await requestToPromise<ProjectRecord | undefined>(store.get(id), "Error getting project");
+  if (!existing) return null;
+  const updated = { ...existing, ...patch };
+  store.put(updated);
+  await transactionDone(tx, "Error updating project");
+  return updated;
+};
+
+export const deleteProject = async (id: string) => {
+  const db = await openDB();
+  const tx = db.transaction([PROJECTS_STORE, FILES_STORE, MEDIA_STORE], "readwrite");
+  tx.objectStore(PROJECTS_STORE).delete(id);
+  tx.objectStore(FILES_STORE).delete(id);
+  tx.objectStore(MEDIA_STORE).delete(id);
+  await transactionDone(tx, "Error deleting project");
+};
+
+// --- Media cache ---
+
+export const saveMediaOverview = async (id: string, overview: MediaOverview) => {
+  const db = await openDB();
+  const tx = db.transaction(MEDIA_STORE, "readwrite");
+  await requestToPromise(tx.objectStore(MEDIA_STORE).put(overview, id), "Error saving media overview");
+};
+
+export const getMediaOverview = async (id: string): Promise<MediaOverview | null> => {
+  const db = await openDB();
+  const tx = db.transaction(MEDIA_STORE, "readonly");
+  const overview = await requestToPromise<MediaOverview | undefined>(
+    tx.objectStore(MEDIA_STORE).get(id),
+    "Error getting media overview"
+  );
+  return overview || null;
+};
+
+// --- Quota ---
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
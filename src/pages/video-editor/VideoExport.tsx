@@ -0,0 +1,235 @@
+import { type VideoSegment, getSegmentAudio } from "./SegmentModel";
+
+// =========================================
+// UTILITY: Segment list -> WebM renderer
+// =========================================
+// Plays the segments one after another in an offscreen <video>, paints every
+// frame onto a canvas and records canvas + element audio with MediaRecorder.
+// The recorder is paused while seeking between segments, so the output has
+// no gaps. Each segment is played at its own speed factor and audio settings,
+// from its own clip (the element switches `src` between cross-clip segments).
+
+const EXPORT_FPS = 30;
+const FALLBACK_WIDTH = 1280;
+const FALLBACK_HEIGHT = 720;
+
+export interface ExportOptions {
+  segments: VideoSegment[];
+  sources: string[]; // Clip URL for every segment (same order)
+  onProgress?: (ratio: number) => void;
+  signal?: AbortSignal;
+}
+
+function pickSupportedMime(): string | undefined {
+  const candidates = [
+    "video/webm;codecs=vp9,opus",
+    "video/webm;codecs=vp8,opus",
+    "video/webm;codecs=vp9",
+    "video/webm;codecs=vp8",
+    "video/webm",
+  ];
+  for (const m of candidates) {
+    if ((window as any).MediaRecorder?.isTypeSupported?.(m)) return m;
+  }
+  return undefined;
+}
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new Error("Export cancelled");
+};
+
+const waitForEvent = (el: HTMLMediaElement, eventName: "loadedmetadata" | "seeked", signal?: AbortSignal) => {
+  return new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      el.removeEventListener(eventName, onDone);
+      el.removeEventListener("error", onError);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onDone = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error("Could not load the video for export."));
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(new Error("Export cancelled"));
+    };
+    el.addEventListener(eventName, onDone);
+    el.addEventListener("error", onError);
+    signal?.addEventListener("abort", onAbort);
+  });
+};
+
+const loadSource = async (video: HTMLVideoElement, src: string, signal?: AbortSignal) => {
+  if (video.getAttribute("src") === src) return;
+  // Needed so remote sources (the demo clip) don't taint the canvas
+  if (src.startsWith("blob:")) video.removeAttribute("crossorigin");
+  else video.crossOrigin = "anonymous";
+  const loaded = waitForEvent(video, "loadedmetadata", signal);
+  video.src = src;
+  await loaded;
+};
+
+const seekTo = async (video: HTMLVideoElement, time: number, signal?: AbortSignal) => {
+  if (Math.abs(video.currentTime - time) < 0.01) return;
+  const seeked = waitForEvent(video, "seeked", signal);
+  video.currentTime = time;
+  await seeked;
+};
+
+// Output length of a segment list in seconds (segment length / speed).
+export const getOutputDuration = (segments: VideoSegment[]) =>
+  segments.reduce((sum, [start, end, speed]) => sum + Math.max(0, end - start) / (speed || 1), 0);
+
+export async function renderSegmentsToVideo({ segments, sources, onProgress, signal }: ExportOptions): Promise<Blob> {
+  if (!(window as any).MediaRecorder) {
+    throw new Error("MediaRecorder is not supported in this browser.");
+  }
+  const mimeType = pickSupportedMime();
+  if (!mimeType) {
+    throw new Error("No supported MediaRecorder mime type found for WebM.");
+  }
+
+  const playable = segments
+    .map(([start, end, speed, options], i) => ({
+      segment: [Math.max(0, start), end, speed || 1, options] as VideoSegment,
+      src: sources[i],
+    }))
+    .filter(({ segment: [start, end] }) => end > start);
+  if (playable.length === 0) throw new Error("No segments to export.");
+
+  const video = document.createElement("video");
+  video.preload = "auto";
+  video.playsInline = true;
+  await loadSource(video, playable[0].src, signal);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = video.videoWidth || FALLBACK_WIDTH;
+  canvas.height = video.videoHeight || FALLBACK_HEIGHT;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context not available.");
+
+  const stream: MediaStream = canvas.captureStream(EXPORT_FPS);
+
+  // Route the element's audio into the recording only (not to the speakers)
+  let audioCtx: AudioContext | null = null;
+  let gain: GainNode | null = null;
+  try {
+    const ACtx = (window.AudioContext || (window as any).webkitAudioContext) as typeof AudioContext;
+    audioCtx = new ACtx();
+    if (audioCtx.state === "suspended") await audioCtx.resume().catch(() => {});
+    const source = audioCtx.createMediaElementSource(video);
+    const dest = audioCtx.createMediaStreamDestination();
+    gain = audioCtx.createGain();
+    source.connect(gain);
+    gain.connect(dest);
+    const track = dest.stream.getAudioTracks()[0];
+    if (track) stream.addTrack(track);
+  } catch (err) {
+    console.warn("Audio attach failed, exporting silent video:", err);
+  }
+
+  // Letterbox clips whose size differs from the first one
+  const drawFrame = () => {
+    const vw = video.videoWidth || canvas.width;
+    const vh = video.videoHeight || canvas.height;
+    const scale = Math.min(canvas.width / vw, canvas.height / vh);
+    const dw = vw * scale;
+    const dh = vh * scale;
+    ctx.fillStyle = "#000";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(video, (canvas.width - dw) / 2, (canvas.height - dh) / 2, dw, dh);
+  };
+
+  const recordedChunks: Blob[] = [];
+  const mediaRecorder = new MediaRecorder(stream, { mimeType });
+  const completion = new Promise<Blob>((resolve, reject) => {
+    mediaRecorder.ondataavailable = (e) => {
+      if (e.data?.size > 0) recordedChunks.push(e.data);
+    };
+    mediaRecorder.onerror = (e) => {
+      reject(new Error("MediaRecorder error: " + ((e as any).error?.message || "unknown")));
+    };
+    mediaRecorder.onstop = () => {
+      resolve(new Blob(recordedChunks, { type: "video/webm" }));
+    };
+  });
+
+  const cleanup = async () => {
+    video.pause();
+    video.removeAttribute("src");
+    video.load();
+    stream.getTracks().forEach((t) => t.stop());
+    if (audioCtx) {
+      try {
+        await audioCtx.close();
+      } catch {}
+    }
+  };
+
+  const totalOutput = getOutputDuration(playable.map((p) => p.segment));
+  let doneOutput = 0;
+
+  try {
+    for (let i = 0; i < playable.length; i++) {
+      const [start, requestedEnd, speed] = playable[i].segment;
+      const audio = getSegmentAudio(playable[i].segment);
+      throwIfAborted(signal);
+
+      await loadSource(video, playable[i].src, signal);
+      const end = Math.min(requestedEnd, video.duration);
+      if (end <= start) continue;
+      await seekTo(video, start, signal);
+      video.playbackRate = speed;
+      video.preservesPitch = audio.preservePitch;
+      (video as any).webkitPreservesPitch = audio.preservePitch;
+      if (gain) gain.gain.value = audio.muted ? 0 : audio.volume;
+      drawFrame();
+
+      if (mediaRecorder.state === "inactive") mediaRecorder.start();
+      else if (mediaRecorder.state === "paused") mediaRecorder.resume();
+
+      await video.play();
+
+      // Drive frames until the segment end is reached
+      await new Promise<void>((resolve, reject) => {
+        const tick = () => {
+          if (signal?.aborted) {
+            reject(new Error("Export cancelled"));
+            return;
+          }
+          drawFrame();
+          const segmentDone = Math.min(video.currentTime, end) - start;
+          onProgress?.(Math.min(1, (doneOutput + Math.max(0, segmentDone) / speed) / totalOutput));
+          if (video.currentTime >= end || video.ended) {
+            resolve();
+            return;
+          }
+          setTimeout(tick, 1000 / EXPORT_FPS);
+        };
+        tick();
+      });
+
+      video.pause();
+      if (mediaRecorder.state === "recording") mediaRecorder.pause();
+      doneOutput += (end - start) / speed;
+    }
+
+    mediaRecorder.stop();
+    const blob = await completion;
+    onProgress?.(1);
+    return blob;
+  } catch (err) {
+    if (mediaRecorder.state !== "inactive") {
+      try {
+        mediaRecorder.stop();
+      } catch {}
+    }
+    throw err;
+  } finally {
+    await cleanup();
+  }
+}
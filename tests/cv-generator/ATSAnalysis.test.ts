@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { stemToken } from "../../src/pages/cv-generator/ATSAnalysis";
+
+describe("stemToken", () => {
+  it.each([
+    ["zarządzanie", "zarządzaniem"],
+    ["zarządzanie", "zarządzania"],
+    ["komunikatywność", "komunikatywności"],
+    ["komunikatywność", "komunikatywnością"],
+    ["szybkość", "szybkości"],
+    ["testing", "tests"],
+  ])("stems %s and %s the same", (a, b) => {
+    expect(stemToken(a)).not.toBeNull();
+    expect(stemToken(a)).toBe(stemToken(b));
+  });
+
+  it("keeps technical names verbatim", () => {
+    expect(stemToken("Node.js")).toBe("node.js");
+    expect(stemToken("C++")).toBe("c++");
+  });
+
+  it("drops stop-words and numbers", () => {
+    expect(stemToken("doświadczenia")).toBeNull();
+    expect(stemToken("umiejętności")).toBeNull();
+    expect(stemToken("2024")).toBeNull();
+  });
+});
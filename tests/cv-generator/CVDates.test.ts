@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { PRESENT, analyzeTimeline, parsePeriod, sortByDate } from "../../src/pages/cv-generator/CVDates";
+import type { Experience } from "../../src/pages/cv-generator/CVSchema";
+
+const NOW = new Date(2026, 9, 1); // October 2026
+
+const job = (role: string, start: string, end: string, duration = ""): Experience => ({
+  id: role,
+  role,
+  company: "",
+  start,
+  end,
+  duration,
+  description: [],
+});
+
+describe("parsePeriod", () => {
+  it.each([
+    ["2018 - 2021", { start: "2018", end: "2021" }],
+    ["2018-2021", { start: "2018", end: "2021" }],
+    ["2018/2019", { start: "2018", end: "2019" }],
+    ["2018 – 2021", { start: "2018", end: "2021" }],
+    ["03.2019 – obecnie", { start: "2019-03", end: PRESENT }],
+    ["marzec 2020 – maj 2021", { start: "2020-03", end: "2021-05" }],
+    ["Jan 2020 to Dec 2020", { start: "2020-01", end: "2020-12" }],
+    ["2019 do dziś", { start: "2019", end: PRESENT }],
+    ["od 2019", { start: "2019", end: PRESENT }],
+    ["od 03.2019 do 2021", { start: "2019-03", end: "2021" }],
+    ["since March 2019", { start: "2019-03", end: PRESENT }],
+    ["seit 2017", { start: "2017", end: PRESENT }],
+    ["2020", { start: "2020", end: "2020" }],
+    ["2019/03", { start: "2019-03", end: "2019-03" }],
+    ["03/2019", { start: "2019-03", end: "2019-03" }],
+  ])("%s", (text, period) => {
+    expect(parsePeriod(text)).toEqual(period);
+  });
+
+  it.each(["", "obecnie", "od", "semestr letni 2019", "2018 - coś", "13.2019"])("%s is not understood", (text) => {
+    expect(parsePeriod(text)).toBeNull();
+  });
+});
+
+describe("sortByDate", () => {
+  it("puts current entries first, then by end and start, undated last", () => {
+    const entries = [
+      job("old", "2015", "2016"),
+      job("undated", "", ""),
+      job("whole-years", "2018", "2021"),
+      job("current", "2021", PRESENT),
+      job("later-start", "2019-05", "2021"),
+      job("undated-2", "", ""),
+    ];
+    expect(sortByDate(entries).map((e) => e.role)).toEqual([
+      "current",
+      "later-start",
+      "whole-years",
+      "old",
+      "undated",
+      "undated-2",
+    ]);
+  });
+
+  it("keeps the order of entries with the same period", () => {
+    const entries = [job("a", "2020", "2021"), job("b", "2020", "2021")];
+    expect(sortByDate(entries).map((e) => e.role)).toEqual(["a", "b"]);
+  });
+});
+
+describe("analyzeTimeline", () => {
+  const messages = (experience: Experience[]) => analyzeTimeline(experience, NOW).issues.map((i) => i.message);
+
+  it("treats back-to-back year-only periods as a job switch", () => {
+    const report = analyzeTimeline([job("Senior", "2021", PRESENT), job("Junior", "2018", "2021")], NOW);
+    expect(report.issues).toEqual([]);
+    expect(report.months).toBe(8 * 12 + 10);
+  });
+
+  it("treats a shared year as a switch when only one side gives the month", () => {
+    expect(messages([job("A", "2018", "2021"), job("B", "2021-06", "2023")])).toEqual([]);
+    expect(messages([job("A", "2018-01", "2021-09"), job("B", "2021", "2023")])).toEqual([]);
+  });
+
+  it("reports overlaps that go beyond the shared year", () => {
+    expect(messages([job("A", "2018", "2022"), job("B", "2021", PRESENT)])).toEqual([
+      "Nakładające się okresy (2 lata): A i B",
+    ]);
+  });
+
+  it("reports month-precise overlaps but not a switch within one month", () => {
+    expect(messages([job("A", "2019-01", "2021-06"), job("B", "2021-01", PRESENT)])).toEqual([
+      "Nakładające się okresy (6 mies.): A i B",
+    ]);
+    expect(messages([job("A", "2018-01", "2021-03"), job("B", "2021-03", PRESENT)])).toEqual([]);
+  });
+
+  it("still reports a new year-only job next to a current one", () => {
+    expect(messages([job("A", "2020", PRESENT), job("B", "2026", PRESENT)])).toEqual([
+      "Nakładające się okresy (10 mies.): A i B",
+    ]);
+  });
+
+  it("reports gaps, undated entries and reversed dates", () => {
+    expect(
+      messages([
+        job("A", "2015", "2016"),
+        job("B", "2018", "2019"),
+        job("C", "", "", "kilka miesięcy"),
+        job("D", "2022", "2020"),
+      ]),
+    ).toEqual(["Brak dat: C („kilka miesięcy”)", "Koniec przed początkiem: D", "Przerwa 1 rok przed: B"]);
+  });
+
+  it("counts parallel jobs once", () => {
+    expect(analyzeTimeline([job("A", "2020-01", "2020-12"), job("B", "2020-06", "2021-05")], NOW).months).toBe(17);
+  });
+});
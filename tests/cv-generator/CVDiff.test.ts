@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { type DiffTarget, diffCV } from "../../src/pages/cv-generator/CVDiff";
+import { migrateCVData } from "../../src/pages/cv-generator/CVSchema";
+
+const target = (data: Record<string, unknown>): DiffTarget => ({ data: migrateCVData(data), style: "ecommerce-1" });
+
+describe("diffCV", () => {
+  it("lists a repeated skill or interest once with a unique key", () => {
+    const changes = diffCV(
+      target({ skills: ["React", "React"], interests: ["Szachy"] }),
+      target({ skills: ["Vue", "Vue"], interests: ["Góry", "Góry"] }),
+    );
+    expect(changes.map((change) => change.key)).toEqual([
+      "skills+Vue",
+      "skills-React",
+      "interests+Góry",
+      "interests-Szachy",
+    ]);
+  });
+
+  it("lists a language repeated under the same name once", () => {
+    const changes = diffCV(
+      target({ languages: [] }),
+      target({
+        languages: [
+          { language: "Angielski", proficiency: "C1" },
+          { language: "angielski", proficiency: "B2" },
+        ],
+      }),
+    );
+    expect(changes.map((change) => change.key)).toEqual(["languages+angielski"]);
+  });
+
+  it("applies an added skill once", () => {
+    const [change] = diffCV(target({ skills: [] }), target({ skills: ["Vue", "Vue"] }));
+    expect(change.apply(target({ skills: ["React"] })).data.skills).toEqual(["React", "Vue"]);
+  });
+});
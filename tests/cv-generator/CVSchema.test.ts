@@ -0,0 +1,239 @@
+import { describe, expect, it } from "vitest";
+import {
+  type CVData,
+  CV_SCHEMA_VERSION,
+  DEFAULT_CONSENT,
+  LABEL_DICTIONARIES,
+  migrateCVData,
+  upgradeCVData,
+} from "../../src/pages/cv-generator/CVSchema";
+import { validateCVJson } from "../../src/pages/cv-generator/CVValidation";
+
+// Fields every fixture leaves out, as the migrations and normalisation fill them
+const DEFAULTS: CVData = {
+  schemaVersion: CV_SCHEMA_VERSION,
+  language: "pl",
+  labels: LABEL_DICTIONARIES.pl,
+  fullName: "",
+  title: "",
+  aboutMe: [],
+  contact: { email: "", phone: "", location: "" },
+  skills: [],
+  languages: [],
+  interests: [],
+  experience: [],
+  education: [],
+  extraSections: [],
+  hiddenSections: [],
+  consent: DEFAULT_CONSENT,
+  variants: {},
+};
+
+// Retired `app/` model: summary text, SkillSet objects, labels.summary
+const V1 = {
+  fullName: "Jan Kowalski",
+  title: "Frontend Developer",
+  summary: "Buduję aplikacje webowe. Lubię TypeScript.",
+  contact: { email: "jan@example.com", phone: "123", location: "Kraków", linkedin: "in/jan" },
+  skills: [{ category: "Frontend", items: ["React", "TypeScript"] }, { items: ["Git"] }],
+  labels: { summary: "Podsumowanie", skills: "Technologie" },
+  languages: [{ language: "Angielski", proficiency: "C1" }],
+  interests: ["Szachy"],
+  experience: [{ id: "1", role: "Developer", company: "ACME", duration: "2018 - 2021", description: ["Kod"] }],
+  education: [{ id: "1", degree: "Informatyka", school: "PW", year: "2014-2018" }],
+};
+
+// Unversioned generator model with single values where lists belong
+const V2 = {
+  fullName: "Anna Nowak",
+  aboutMe: ["Jestem programistką. Pracuję zdalnie."],
+  skills: "React",
+  experience: [{ role: "Developer", company: "ACME", duration: "03.2019 – obecnie", description: "Jedno zadanie" }],
+};
+
+const V3 = {
+  schemaVersion: 3,
+  fullName: "Piotr Zieliński",
+  education: [{ degree: "Informatyka", school: "AGH", year: "semestr letni 2019" }],
+};
+
+const V4 = {
+  schemaVersion: 4,
+  fullName: "Ewa Wiśniewska",
+  extraSections: [{ kind: "projects", items: [{ title: "Generator CV", detail: "github.com/ewa/cv" }] }],
+  hiddenSections: ["interests"],
+  experience: [{ id: "1", role: "Tester", company: "QA", duration: "2020", description: [] }],
+};
+
+const V5 = {
+  schemaVersion: 5,
+  fullName: "Marek Lewandowski",
+  labels: { aboutMe: "Profil" },
+  experience: [{ id: "1", role: "Analityk", company: "Bank", start: "2015-01", end: "present", description: [] }],
+};
+
+const V6 = {
+  schemaVersion: 6,
+  language: "en",
+  fullName: "Kasia Wójcik",
+  aboutMe: [
+    { id: "1", main: "Developer.", text: "Builds web apps." },
+    { id: "2", main: "Consent.", text: "I hereby consent to the processing of my personal data." },
+  ],
+  interests: ["Chess", "I also consent to the processing of my personal data for future recruitment."],
+  variants: { pl: { title: "Programistka" } },
+};
+
+describe("migrateCVData", () => {
+  it("v1: moves the summary to aboutMe and flattens skill sets", () => {
+    expect(migrateCVData(V1)).toEqual({
+      ...DEFAULTS,
+      labels: { ...LABEL_DICTIONARIES.pl, aboutMe: "Podsumowanie", skills: "Technologie" },
+      fullName: "Jan Kowalski",
+      title: "Frontend Developer",
+      aboutMe: [{ id: "1", main: "Buduję aplikacje webowe.", text: "Lubię TypeScript." }],
+      contact: { email: "jan@example.com", phone: "123", location: "Kraków", linkedin: "in/jan" },
+      skills: ["Frontend: React, TypeScript", "Git"],
+      languages: [{ language: "Angielski", proficiency: "C1" }],
+      interests: ["Szachy"],
+      experience: [
+        { id: "1", role: "Developer", company: "ACME", start: "2018", end: "2021", duration: "", description: ["Kod"] },
+      ],
+      education: [{ id: "1", degree: "Informatyka", school: "PW", start: "2014", end: "2018", year: "" }],
+    });
+  });
+
+  it("v2: turns single values into lists and strings into summary items", () => {
+    expect(migrateCVData(V2)).toEqual({
+      ...DEFAULTS,
+      fullName: "Anna Nowak",
+      aboutMe: [{ id: "1", main: "Jestem programistką.", text: "Pracuję zdalnie." }],
+      skills: ["React"],
+      experience: [
+        {
+          id: "1",
+          role: "Developer",
+          company: "ACME",
+          start: "2019-03",
+          end: "present",
+          duration: "",
+          description: ["Jedno zadanie"],
+        },
+      ],
+    });
+  });
+
+  it("v3: adds the extra sections and keeps dates it cannot parse as text", () => {
+    expect(migrateCVData(V3)).toEqual({
+      ...DEFAULTS,
+      fullName: "Piotr Zieliński",
+      education: [{ id: "1", degree: "Informatyka", school: "AGH", start: "", end: "", year: "semestr letni 2019" }],
+    });
+  });
+
+  it("v4: keeps extra sections and parses a single year as start and end", () => {
+    expect(migrateCVData(V4)).toEqual({
+      ...DEFAULTS,
+      fullName: "Ewa Wiśniewska",
+      extraSections: [{ kind: "projects", items: [{ id: "1", title: "Generator CV", detail: "github.com/ewa/cv" }] }],
+      hiddenSections: ["interests"],
+      experience: [
+        { id: "1", role: "Tester", company: "QA", start: "2020", end: "2020", duration: "", description: [] },
+      ],
+    });
+  });
+
+  it("v5: marks the content as Polish without variants", () => {
+    expect(migrateCVData(V5)).toEqual({
+      ...DEFAULTS,
+      labels: { ...LABEL_DICTIONARIES.pl, aboutMe: "Profil" },
+      fullName: "Marek Lewandowski",
+      experience: [
+        { id: "1", role: "Analityk", company: "Bank", start: "2015-01", end: "present", duration: "", description: [] },
+      ],
+    });
+  });
+
+  it("v6: moves pasted consent clauses into the consent block", () => {
+    const pl = migrateCVData({ language: "pl", title: "Programistka" });
+    expect(migrateCVData(V6)).toEqual({
+      ...DEFAULTS,
+      language: "en",
+      labels: LABEL_DICTIONARIES.en,
+      fullName: "Kasia Wójcik",
+      aboutMe: [{ id: "1", main: "Developer.", text: "Builds web apps." }],
+      interests: ["Chess"],
+      consent: {
+        enabled: true,
+        kind: "custom",
+        company: "",
+        text: "I also consent to the processing of my personal data for future recruitment. Consent. I hereby consent to the processing of my personal data.",
+      },
+      variants: {
+        pl: {
+          labels: pl.labels,
+          title: "Programistka",
+          aboutMe: [],
+          skills: [],
+          languages: [],
+          interests: [],
+          experience: [],
+          education: [],
+          extraSections: [],
+        },
+      },
+    });
+  });
+
+  it("v6: leaves an existing consent block and the lists alone", () => {
+    const consent = { enabled: true, kind: "future", company: "ACME", text: "" };
+    const data = migrateCVData({ ...V6, consent });
+    expect(data.consent).toEqual(consent);
+    expect(data.interests).toEqual(V6.interests);
+    expect(data.aboutMe).toHaveLength(2);
+  });
+
+  it("leaves current data unchanged", () => {
+    const current = migrateCVData(V1);
+    expect(migrateCVData(current)).toEqual(current);
+  });
+});
+
+describe("upgradeCVData", () => {
+  it("stamps the version reached by each step", () => {
+    [V1, V2, V3, V4, V5, V6].forEach((fixture) => {
+      expect(upgradeCVData(fixture).schemaVersion).toBe(CV_SCHEMA_VERSION);
+    });
+  });
+
+  it("does not run the migrations again on upgraded data", () => {
+    const upgraded = upgradeCVData(V1);
+    expect(upgradeCVData(upgraded)).toBe(upgraded);
+  });
+
+  it("rejects non-objects", () => {
+    expect(() => upgradeCVData([])).toThrow("Dane CV muszą być obiektem JSON");
+  });
+});
+
+describe("validateCVJson", () => {
+  it("accepts current data without a language and defaults it to Polish", () => {
+    const { data, diagnostics } = validateCVJson(JSON.stringify({ schemaVersion: CV_SCHEMA_VERSION, fullName: "Jan" }));
+    expect(diagnostics).toEqual([]);
+    expect(data?.language).toBe("pl");
+  });
+
+  it("still rejects an unknown language", () => {
+    const { data, diagnostics } = validateCVJson(JSON.stringify({ schemaVersion: CV_SCHEMA_VERSION, language: "fr" }));
+    expect(data).toBeNull();
+    expect(diagnostics.map((d) => d.path)).toEqual(["language"]);
+  });
+
+  it("returns the same data as migrateCVData for legacy JSON", () => {
+    [V1, V2, V3, V4, V5, V6].forEach((fixture) => {
+      const { data, diagnostics } = validateCVJson(JSON.stringify(fixture));
+      expect(diagnostics).toEqual([]);
+      expect(data).toEqual(migrateCVData(fixture));
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { renderToStaticMarkup } from "react-dom/server";
+import { migrateCVData } from "../../src/pages/cv-generator/CVSchema";
+import { CV_TEMPLATES, TemplateRenderer } from "../../src/pages/cv-generator/CVTemplates";
+
+const noop = () => {};
+
+const FILLED = migrateCVData({
+  fullName: "Jan Kowalski",
+  aboutMe: [{ id: "1", main: "Developer.", text: "Buduję aplikacje." }],
+  skills: ["React"],
+  languages: [{ language: "Angielski", proficiency: "C1" }],
+  interests: ["Szachy"],
+  experience: [{ id: "1", role: "Developer", company: "ACME", duration: "2020", description: ["Kod", "Testy"] }],
+  education: [{ id: "1", degree: "Informatyka", school: "PW", year: "2018" }],
+  extraSections: [{ kind: "projects", items: [{ title: "Generator CV", detail: "" }] }],
+});
+
+const EMPTY = migrateCVData({ fullName: "Jan Kowalski" });
+
+const render = (style: (typeof CV_TEMPLATES)[number]["id"], data = FILLED, thumbnail = false) =>
+  renderToStaticMarkup(
+    <TemplateRenderer
+      style={style}
+      data={data}
+      image={null}
+      onUpdate={noop}
+      onRemove={noop}
+      onMove={noop}
+      onAdd={noop}
+      thumbnail={thumbnail}
+    />,
+  );
+
+describe.each(CV_TEMPLATES.map((template) => template.id))("%s", (style) => {
+  it("renders sortable entries of lists as the list items", () => {
+    const html = render(style);
+    expect(html).not.toMatch(/<(ul|ol)\b[^>]*>\s*<(?!li\b)/);
+    expect(html).not.toMatch(/<\/li>\s*<(?!\/?(li|ul|ol)\b)[a-z]+/);
+  });
+
+  it("offers an add button for every emptied list", () => {
+    const html = render(style, { ...EMPTY, extraSections: [{ kind: "projects", items: [] }] });
+    // aboutMe, experience, education, skills, languages, interests and the extra section
+    expect(html.match(/\+ Dodaj/g)).toHaveLength(7);
+  });
+
+  it("shows no add buttons next to entries or in thumbnails", () => {
+    expect(render(style)).not.toContain("+ Dodaj");
+    expect(render(style, EMPTY, true)).not.toContain("+ Dodaj");
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import {
+  atempoChain,
+  parseEDL,
+  secondsToTimecode,
+  segmentsToChapters,
+  segmentsToEDL,
+  segmentsToFFmpeg,
+  timecodeToSeconds,
+} from "../../src/pages/video-editor/CutListFormats";
+import type { VideoSegment } from "../../src/pages/video-editor/SegmentModel";
+
+describe("timecodes", () => {
+  it("formats the last frame of a second without rolling over", () => {
+    expect(secondsToTimecode(29 / 30)).toBe("00:00:00:29");
+    expect(secondsToTimecode(1)).toBe("00:00:01:00");
+  });
+
+  it("rounds to the nearest frame and carries into minutes and hours", () => {
+    expect(secondsToTimecode(59.99)).toBe("00:01:00:00");
+    expect(secondsToTimecode(3599.999)).toBe("01:00:00:00");
+    expect(secondsToTimecode(3661.5)).toBe("01:01:01:15");
+  });
+
+  it("uses the given frame rate", () => {
+    expect(secondsToTimecode(24 / 25, 25)).toBe("00:00:00:24");
+    expect(timecodeToSeconds("00:00:00:24", 25)).toBe(0.96);
+  });
+
+  it("parses frames and accepts drop-frame and dot separators", () => {
+    expect(timecodeToSeconds("00:00:00:29")).toBe(0.967);
+    expect(timecodeToSeconds("00:00:01;00")).toBe(1);
+    expect(timecodeToSeconds("01:01:01.15")).toBe(3661.5);
+  });
+
+  it("rejects malformed timecodes", () => {
+    expect(() => timecodeToSeconds("1:00:00")).toThrow("Invalid timecode");
+  });
+});
+
+describe("EDL", () => {
+  const segments: VideoSegment[] = [
+    [1, 5.5, 1],
+    [10, 20, 2],
+    [30.5, 32, 0.5],
+    [40, 41.5, 1.5, { source: "clip-2" }],
+  ];
+
+  it("round-trips segments, speed changes and source clips", () => {
+    expect(parseEDL(segmentsToEDL(segments, "Test"))).toEqual(segments);
+  });
+
+  it("writes record times in output length and M2 lines for speed changes", () => {
+    const lines = segmentsToEDL(segments, "Test").split("\n");
+    expect(lines[3]).toBe("001  AX       AA/V  C        00:00:01:00 00:00:05:15 00:00:00:00 00:00:04:15");
+    expect(lines[5]).toBe("002  AX       AA/V  C        00:00:10:00 00:00:20:00 00:00:04:15 00:00:09:15");
+    expect(lines[6]).toBe("M2   AX        60.0                00:00:10:00");
+    expect(lines).toContain("M2   AX        15.0                00:00:30:15");
+    expect(lines).toContain("* SOURCE CLIP: clip-2");
+  });
+
+  it("rejects transitions and motion without an event", () => {
+    expect(() => parseEDL("001  AX AA/V  D 030 00:00:01:00 00:00:02:00 00:00:00:00 00:00:01:00")).toThrow(
+      "Unsupported EDL event",
+    );
+    expect(() => parseEDL("M2   AX 60.0 00:00:10:00")).toThrow("M2 line without a preceding event");
+    expect(() => parseEDL("TITLE: Empty")).toThrow("No cut events");
+  });
+});
+
+describe("ffmpeg", () => {
+  it("chains atempo filters above 2x", () => {
+    expect(atempoChain(4)).toEqual(["atempo=2", "atempo=2"]);
+    expect(atempoChain(3)).toEqual(["atempo=2", "atempo=1.5"]);
+  });
+
+  it("chains atempo filters below 0.5x", () => {
+    expect(atempoChain(0.25)).toEqual(["atempo=0.5", "atempo=0.5"]);
+    expect(atempoChain(0.3)).toEqual(["atempo=0.5", "atempo=0.6"]);
+  });
+
+  it("adds no atempo filter at normal speed", () => {
+    expect(atempoChain(1)).toEqual([]);
+    expect(atempoChain(1.5)).toEqual(["atempo=1.5"]);
+  });
+
+  it("puts the chain after the audio trim", () => {
+    const command = segmentsToFFmpeg([[0, 8, 4]], () => "in.mp4");
+    expect(command).toContain("[0:v]trim=start=0:end=8,setpts=(PTS-STARTPTS)/4[v0]");
+    expect(command).toContain("[0:a]atrim=start=0:end=8,asetpts=PTS-STARTPTS,atempo=2,atempo=2[a0]");
+  });
+
+  it("fails instead of substituting an input when a source clip is missing", () => {
+    const inputNameFor = (seg: VideoSegment) => {
+      if (seg[3]?.source) throw new Error(`Source clip "${seg[3].source}" is no longer in the project library`);
+      return "in.mp4";
+    };
+    expect(() =>
+      segmentsToFFmpeg(
+        [
+          [0, 8, 1],
+          [8, 9, 1, { source: "gone" }],
+        ],
+        inputNameFor,
+      ),
+    ).toThrow('Source clip "gone" is no longer in the project library');
+  });
+});
+
+describe("YouTube chapters", () => {
+  it("starts at 00:00 and uses output time after speed changes", () => {
+    const chapters = segmentsToChapters(
+      [
+        [5, 45, 2],
+        [60, 90, 1],
+        [100, 130, 1],
+      ],
+      ["Intro", "Demo"],
+    );
+    expect(chapters).toBe("00:00 Intro\n00:20 Demo\n00:50 Part 3");
+  });
+
+  it("folds segments shorter than the minimum into the previous chapter", () => {
+    const chapters = segmentsToChapters([
+      [0, 30, 1],
+      [30, 35, 1],
+      [35, 65, 1],
+    ]);
+    expect(chapters).toBe("00:00 Part 1\n00:35 Part 3");
+  });
+
+  it("keeps a short first segment at 00:00 by extending it", () => {
+    const chapters = segmentsToChapters([
+      [0, 4, 1],
+      [4, 30, 1],
+      [30, 60, 1],
+    ]);
+    expect(chapters).toBe("00:00 Part 1\n00:30 Part 3");
+  });
+
+  it("merges a short last segment into the chapter before it", () => {
+    const chapters = segmentsToChapters([
+      [0, 30, 1],
+      [30, 60, 1],
+      [60, 70, 2],
+    ]);
+    expect(chapters).toBe("00:00 Part 1\n00:30 Part 2");
+  });
+
+  it("switches to hours for long outputs", () => {
+    expect(
+      segmentsToChapters([
+        [0, 3600, 1],
+        [3600, 3700, 1],
+      ]),
+    ).toBe("00:00 Part 1\n1:00:00 Part 2");
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import {
+  EMPTY_HISTORY,
+  parseHistory,
+  recordEdit,
+  storedHistory,
+  undoEdit,
+} from "../../src/pages/video-editor/EditHistory";
+import type { VideoSegment } from "../../src/pages/video-editor/SegmentModel";
+
+const ORIGINAL: VideoSegment[] = [[0, 10, 1]];
+const at = (volume: number): VideoSegment[] => [[0, 10, 1, { volume, muted: false, preservePitch: true }]];
+
+describe("recordEdit", () => {
+  it("merges ticks with the same key into one undo step", () => {
+    let history = recordEdit(EMPTY_HISTORY, "Change audio", ORIGINAL, "volume:0", 1000);
+    history = recordEdit(history, "Change audio", at(0.9), "volume:0", 1500);
+    history = recordEdit(history, "Change audio", at(0.8), "volume:0", 2200);
+    expect(history.past).toHaveLength(1);
+    expect(undoEdit(history, at(0.7))?.segments).toEqual(ORIGINAL);
+  });
+
+  it("starts a new entry after a pause or for another key", () => {
+    let history = recordEdit(EMPTY_HISTORY, "Change audio", ORIGINAL, "volume:0", 1000);
+    history = recordEdit(history, "Change audio", at(0.9), "volume:0", 3000);
+    history = recordEdit(history, "Change audio", at(0.8), "volume:1", 3100);
+    history = recordEdit(history, "Split", at(0.8), undefined, 3200);
+    expect(history.past).toHaveLength(4);
+  });
+});
+
+describe("storedHistory", () => {
+  it("drops the merge fields and survives a save and load", () => {
+    const history = recordEdit(EMPTY_HISTORY, "Change audio", ORIGINAL, "volume:0", 1000);
+    const stored = storedHistory(history);
+    expect(stored).toEqual({ past: [{ label: "Change audio", segments: ORIGINAL }], future: [] });
+    expect(parseHistory(JSON.parse(JSON.stringify(stored)))).toEqual(stored);
+  });
+});